@@ -0,0 +1,6 @@
+-- File_workspaceId_parentId_name_key treats NULLs as distinct, so it doesn't
+-- stop two entries with the same name at the workspace root. Prisma can't
+-- express a partial index, hence the hand-written migration.
+
+-- CreateIndex
+CREATE UNIQUE INDEX "File_workspaceId_name_root_key" ON "File"("workspaceId", "name") WHERE "parentId" IS NULL;
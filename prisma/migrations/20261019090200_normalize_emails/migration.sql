@@ -0,0 +1,20 @@
+-- Emails are now stored trimmed and lowercased. Existing rows are converted
+-- unless that would collide with another row, which is left for manual review.
+
+-- NormalizeEmails
+UPDATE "User" u
+SET "email" = lower(trim(u."email"))
+WHERE u."email" <> lower(trim(u."email"))
+  AND NOT EXISTS (
+    SELECT 1 FROM "User" o
+    WHERE o."id" <> u."id" AND lower(trim(o."email")) = lower(trim(u."email"))
+  );
+
+-- NormalizeEmails
+UPDATE "Invitation" i
+SET "email" = lower(trim(i."email"))
+WHERE i."email" <> lower(trim(i."email"))
+  AND NOT EXISTS (
+    SELECT 1 FROM "Invitation" o
+    WHERE o."id" <> i."id" AND o."projectId" = i."projectId" AND lower(trim(o."email")) = lower(trim(i."email"))
+  );
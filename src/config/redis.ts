@@ -1,4 +1,5 @@
 import Redis from 'ioredis';
+import { v4 as uuidv4 } from 'uuid';
 
 const config = {
     host: process.env.REDIS_HOST || 'localhost',
@@ -11,6 +12,9 @@ export const redis = new Redis(config);
 export const redisPub = new Redis(config);
 export const redisSub = new Redis(config);
 
+// Identifies this process in pub/sub messages so nodes can skip their own echoes
+export const nodeId = uuidv4();
+
 redis.on('connect', () => console.log('Redis connected'));
 redis.on('error', (err) => console.error('Redis error:', err));
 
@@ -11,11 +11,16 @@ import { rateLimiter } from './middleware/rateLimiter.middleware';
 import { setupSwagger } from './config/swagger';
 import { connectMongoDB } from './config/mongodb';
 import { initializeSocket } from './websocket/socket';
+import sessionService from './services/session.service';
 
 import authRoutes from './routes/auth.routes';
 import projectRoutes from './routes/project.routes';
 import workspaceRoutes from './routes/workspace.routes';
+import fileRoutes from './routes/file.routes';
 import jobRoutes from './routes/job.routes';
+import invitationRoutes from './routes/invitation.routes';
+import adminRoutes from './routes/admin.routes';
+import webhookRoutes from './routes/webhook.routes';
 
 dotenv.config();
 
@@ -54,7 +59,11 @@ app.get('/health', (req, res) => {
 app.use('/api/v1/auth', authRoutes);
 app.use('/api/v1/projects', projectRoutes);
 app.use('/api/v1/workspaces', workspaceRoutes);
+app.use('/api/v1/workspaces/:id/files', fileRoutes);
 app.use('/api/v1/jobs', jobRoutes);
+app.use('/api/v1/invitations', invitationRoutes);
+app.use('/api/v1/admin', adminRoutes);
+app.use('/api/v1/webhooks', webhookRoutes);
 
 app.use(errorHandler);
 
@@ -67,6 +76,7 @@ const PORT = process.env.PORT || 3000;
 const start = async () => {
     try {
         await connectMongoDB();
+        sessionService.startPurge();
         httpServer.listen(PORT, () => {
             console.log(`🚀 Server ready at http://localhost:${PORT}`);
             console.log(`📚 Docs available at http://localhost:${PORT}/api-docs`);
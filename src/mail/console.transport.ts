@@ -0,0 +1,10 @@
+import { MailMessage, MailTransport } from './types';
+
+/** Prints messages to stdout instead of sending them. */
+export class ConsoleMailTransport implements MailTransport {
+    constructor(private readonly from: string) {}
+
+    async send(message: MailMessage) {
+        console.log(`📧 Mail from ${this.from} to ${message.to}: ${message.subject}\n${message.text}`);
+    }
+}
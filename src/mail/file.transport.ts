@@ -0,0 +1,28 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { MailMessage, MailTransport } from './types';
+
+/** Writes each message as a .eml file under a directory, newest sorting last. */
+export class FileMailTransport implements MailTransport {
+    private readonly dir: string;
+
+    constructor(dir: string, private readonly from: string) {
+        this.dir = path.resolve(dir);
+    }
+
+    async send(message: MailMessage) {
+        const content = [
+            `From: ${this.from}`,
+            `To: ${message.to}`,
+            `Subject: ${message.subject}`,
+            `Date: ${new Date().toUTCString()}`,
+            'Content-Type: text/plain; charset=utf-8',
+            '',
+            message.text
+        ].join('\r\n');
+
+        await fs.mkdir(this.dir, { recursive: true });
+        await fs.writeFile(path.join(this.dir, `${Date.now()}-${uuidv4()}.eml`), content);
+    }
+}
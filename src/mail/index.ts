@@ -0,0 +1,23 @@
+import { ConsoleMailTransport } from './console.transport';
+import { FileMailTransport } from './file.transport';
+import { MailTransport } from './types';
+
+export * from './types';
+
+// MAIL_TRANSPORT picks the backend: 'console' (default) or 'file'
+export function createMailTransport(): MailTransport {
+    const transport = process.env.MAIL_TRANSPORT || 'console';
+    const from = process.env.MAIL_FROM || 'Collaborative Workspace <no-reply@localhost>';
+
+    if (transport === 'console') {
+        return new ConsoleMailTransport(from);
+    }
+    if (transport === 'file') {
+        return new FileMailTransport(process.env.MAIL_FILE_DIR || 'mail', from);
+    }
+    throw new Error(`Unknown mail transport: ${transport}`);
+}
+
+const mailer = createMailTransport();
+
+export default mailer;
@@ -0,0 +1,10 @@
+export interface MailMessage {
+    to: string;
+    subject: string;
+    text: string;
+}
+
+/** Sends transactional mail; implementations decide how it leaves the process. */
+export interface MailTransport {
+    send(message: MailMessage): Promise<void>;
+}
@@ -3,21 +3,57 @@ import jwt from 'jsonwebtoken';
 import prisma from '../config/prisma';
 import redis from '../config/redis';
 import { ApiError } from './error.middleware';
+import sessionService from '../services/session.service';
 import { Role } from '@prisma/client';
 
 declare global {
     namespace Express {
         interface Request {
-            user?: { id: string; email: string; name: string };
+            user?: { id: string; email: string; name: string; isAdmin: boolean; emailVerified: boolean };
             projectRole?: Role;
+            sessionId?: string;
         }
     }
 }
 
-interface JwtPayload {
+export interface JwtPayload {
     userId: string;
     email: string;
     name: string;
+    sid?: string;
+}
+
+// When on, unverified users can sign in but not join projects, own them or run jobs
+export const EMAIL_VERIFICATION_REQUIRED = process.env.EMAIL_VERIFICATION_REQUIRED !== 'false';
+
+const ROLE_HIERARCHY: Record<Role, number> = { OWNER: 3, COLLABORATOR: 2, VIEWER: 1 };
+
+export function hasRole(role: Role, minRole: Role): boolean {
+    return ROLE_HIERARCHY[role] >= ROLE_HIERARCHY[minRole];
+}
+
+/**
+ * Verifies an access token and checks it was not logged out or its session
+ * revoked. Shared by the HTTP middleware and the socket handshake.
+ */
+export async function verifyAccessToken(token: string): Promise<JwtPayload> {
+    let decoded: JwtPayload;
+    try {
+        decoded = jwt.verify(token, process.env.JWT_SECRET || 'secret') as JwtPayload;
+    } catch (error) {
+        if (error instanceof jwt.JsonWebTokenError) throw new ApiError(401, 'Invalid token');
+        throw error;
+    }
+
+    // Check if token has been blacklisted
+    const isBlacklisted = await redis.get(`blacklist:${token}`);
+    if (isBlacklisted) {
+        throw new ApiError(401, 'Token has been invalidated');
+    }
+    if (decoded.sid && await sessionService.isRevoked(decoded.sid)) {
+        throw new ApiError(401, 'Session has been revoked');
+    }
+    return decoded;
 }
 
 export async function authenticate(req: Request, res: Response, next: NextFunction): Promise<void> {
@@ -27,67 +63,74 @@ export async function authenticate(req: Request, res: Response, next: NextFuncti
             throw new ApiError(401, 'No token provided');
         }
 
-        const token = authHeader.split(' ')[1];
-        const decoded = jwt.verify(token, process.env.JWT_SECRET || 'secret') as JwtPayload;
-
-        // Check if token has been blacklisted
-        const isBlacklisted = await redis.get(`blacklist:${token}`);
-        if (isBlacklisted) {
-            throw new ApiError(401, 'Token has been invalidated');
-        }
+        const decoded = await verifyAccessToken(authHeader.split(' ')[1]);
 
         const user = await prisma.user.findUnique({
             where: { id: decoded.userId },
-            select: { id: true, email: true, name: true }
+            select: { id: true, email: true, name: true, isAdmin: true, emailVerified: true }
         });
 
         if (!user) throw new ApiError(401, 'User not found');
 
         req.user = user;
+        req.sessionId = decoded.sid;
         next();
     } catch (error) {
-        if (error instanceof jwt.JsonWebTokenError) {
-            next(new ApiError(401, 'Invalid token'));
-            return;
-        }
         next(error);
     }
 }
 
+/** Operator-only routes; admins are flagged directly in the database. */
+export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+    if (!req.user?.isAdmin) {
+        next(new ApiError(403, 'Admin access required'));
+        return;
+    }
+    next();
+}
+
+export function requireVerifiedEmail(req: Request, res: Response, next: NextFunction): void {
+    if (EMAIL_VERIFICATION_REQUIRED && !req.user?.emailVerified) {
+        next(new ApiError(403, 'Verify your email address first'));
+        return;
+    }
+    next();
+}
+
+/** Resolves the caller's role in a project, or null if they have none. */
+export async function getProjectRole(userId: string, projectId: string): Promise<Role | null> {
+    const project = await prisma.project.findUnique({
+        where: { id: projectId },
+        select: { ownerId: true }
+    });
+
+    if (!project) throw new ApiError(404, 'Project not found');
+    if (project.ownerId === userId) return Role.OWNER;
+
+    const collaborator = await prisma.collaborator.findUnique({
+        where: { userId_projectId: { userId, projectId } },
+        select: { role: true }
+    });
+
+    return collaborator?.role ?? null;
+}
+
 export function requireProjectAccess(minRole: Role = Role.VIEWER) {
     return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
         try {
             const userId = req.user?.id;
-            const projectId = req.params.projectId || req.params.id;
+            // Body fallback lets routes such as job creation scope by a submitted projectId
+            const projectId = req.params.projectId || req.params.id || req.body?.projectId;
 
             if (!userId) throw new ApiError(401, 'Auth required');
             if (!projectId) throw new ApiError(400, 'Project ID required');
 
-            const project = await prisma.project.findUnique({
-                where: { id: projectId },
-                select: { ownerId: true }
-            });
-
-            if (!project) throw new ApiError(404, 'Project not found');
-
-            if (project.ownerId === userId) {
-                req.projectRole = Role.OWNER;
-                return next();
-            }
+            const role = await getProjectRole(userId, projectId);
 
-            const collaborator = await prisma.collaborator.findUnique({
-                where: { userId_projectId: { userId, projectId } },
-                select: { role: true }
-            });
+            if (!role) throw new ApiError(403, 'Access denied');
+            if (!hasRole(role, minRole)) throw new ApiError(403, 'Insufficient permissions');
 
-            if (!collaborator) throw new ApiError(403, 'Access denied');
-
-            const hierarchy = { OWNER: 3, COLLABORATOR: 2, VIEWER: 1 };
-            if (hierarchy[collaborator.role] < hierarchy[minRole]) {
-                throw new ApiError(403, 'Insufficient permissions');
-            }
-
-            req.projectRole = collaborator.role;
+            req.projectRole = role;
             next();
         } catch (error) {
             next(error);
@@ -95,6 +138,30 @@ export function requireProjectAccess(minRole: Role = Role.VIEWER) {
     };
 }
 
+/**
+ * Resolves the caller's role in a workspace's project, or null if they have none.
+ * Shared by the HTTP middleware below and the socket layer.
+ */
+export async function getWorkspaceAccess(userId: string, workspaceId: string): Promise<{ projectId: string; role: Role } | null> {
+    const workspace = await prisma.workspace.findUnique({
+        where: { id: workspaceId },
+        include: { project: { select: { ownerId: true } } }
+    });
+
+    if (!workspace) throw new ApiError(404, 'Workspace not found');
+
+    if (workspace.project.ownerId === userId) {
+        return { projectId: workspace.projectId, role: Role.OWNER };
+    }
+
+    const collaborator = await prisma.collaborator.findUnique({
+        where: { userId_projectId: { userId, projectId: workspace.projectId } },
+        select: { role: true }
+    });
+
+    return collaborator ? { projectId: workspace.projectId, role: collaborator.role } : null;
+}
+
 export async function requireWorkspaceAccess(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
         const userId = req.user?.id;
@@ -103,28 +170,25 @@ export async function requireWorkspaceAccess(req: Request, res: Response, next:
         if (!userId) throw new ApiError(401, 'Auth required');
         if (!workspaceId) throw new ApiError(400, 'Workspace ID required');
 
-        const workspace = await prisma.workspace.findUnique({
-            where: { id: workspaceId },
-            include: { project: { select: { ownerId: true } } }
-        });
-
-        if (!workspace) throw new ApiError(404, 'Workspace not found');
-
-        if (workspace.project.ownerId === userId) {
-            req.projectRole = Role.OWNER;
-            return next();
-        }
-
-        const collaborator = await prisma.collaborator.findUnique({
-            where: { userId_projectId: { userId, projectId: workspace.projectId } },
-            select: { role: true }
-        });
+        const access = await getWorkspaceAccess(userId, workspaceId);
+        if (!access) throw new ApiError(403, 'Access denied');
 
-        if (!collaborator) throw new ApiError(403, 'Access denied');
-
-        req.projectRole = collaborator.role;
+        req.projectRole = access.role;
         next();
     } catch (error) {
         next(error);
     }
 }
+
+/**
+ * Checks the role resolved by requireProjectAccess/requireWorkspaceAccess.
+ * Must run after one of them.
+ */
+export function requireRole(minRole: Role) {
+    return (req: Request, res: Response, next: NextFunction): void => {
+        if (!req.projectRole || !hasRole(req.projectRole, minRole)) {
+            return next(new ApiError(403, 'Insufficient permissions'));
+        }
+        next();
+    };
+}
@@ -0,0 +1,83 @@
+import { createHash } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import redis from '../config/redis';
+import { ApiError } from './error.middleware';
+
+// How long a key is honoured; after that it may be reused for a new request
+export const IDEMPOTENCY_TTL_SECONDS = parseInt(process.env.IDEMPOTENCY_TTL_SECONDS || String(24 * 60 * 60));
+
+const MAX_KEY_LENGTH = 255;
+
+interface StoredRequest {
+    fingerprint: string;
+    statusCode?: number;
+    body?: unknown;
+}
+
+function canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+        const entries = Object.entries(value)
+            .filter(([, item]) => item !== undefined)
+            .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+        return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+}
+
+/** sha256 of a JSON value that doesn't depend on object key order. */
+export function fingerprint(value: unknown) {
+    return createHash('sha256').update(canonicalJson(value)).digest('hex');
+}
+
+/** Reads the Idempotency-Key header, if any. */
+export function getIdempotencyKey(req: Request): string | undefined {
+    const key = req.header('Idempotency-Key');
+    if (key === undefined) return undefined;
+    if (!key || key.length > MAX_KEY_LENGTH) throw new ApiError(400, `Idempotency-Key must be 1-${MAX_KEY_LENGTH} characters`);
+    return key;
+}
+
+/**
+ * Makes a creation route safe to retry with an Idempotency-Key header. The
+ * first request claims the key in Redis; a repeat with the same body gets the
+ * stored response back, a repeat with a different body gets a 409. Failed
+ * requests release the key. Goes after authentication and body validation.
+ */
+export function idempotent(scope: string) {
+    return async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const key = getIdempotencyKey(req);
+            if (!key) return next();
+
+            const redisKey = `idempotency:${scope}:${req.user!.id}:${key}`;
+            const requestPrint = fingerprint({ url: req.originalUrl, body: req.body });
+            const claim: StoredRequest = { fingerprint: requestPrint };
+
+            const claimed = await redis.set(redisKey, JSON.stringify(claim), 'EX', IDEMPOTENCY_TTL_SECONDS, 'NX');
+            if (!claimed) {
+                const raw = await redis.get(redisKey);
+                const stored: StoredRequest | null = raw ? JSON.parse(raw) : null;
+                if (stored && stored.fingerprint !== requestPrint) {
+                    throw new ApiError(409, 'Idempotency-Key was already used with a different request');
+                }
+                if (!stored?.statusCode) throw new ApiError(409, 'A request with this Idempotency-Key is still in progress');
+
+                res.setHeader('Idempotent-Replayed', 'true');
+                res.status(stored.statusCode).json(stored.body);
+                return;
+            }
+
+            // Error responses also go through res.json (see errorHandler), so this sees every outcome
+            const json = res.json.bind(res);
+            res.json = (body: unknown) => {
+                const settle = res.statusCode < 300
+                    ? redis.set(redisKey, JSON.stringify({ ...claim, statusCode: res.statusCode, body }), 'KEEPTTL')
+                    : redis.del(redisKey);
+                settle.catch(err => console.error('Failed to store idempotent response:', err));
+                return json(body);
+            };
+            next();
+        } catch (error) { next(error); }
+    };
+}
@@ -4,7 +4,10 @@ export enum JobStatus {
     PENDING = 'pending',
     PROCESSING = 'processing',
     COMPLETED = 'completed',
-    FAILED = 'failed'
+    FAILED = 'failed',
+    CANCELLED = 'cancelled',
+    // Pipeline job that never ran because an upstream job failed
+    SKIPPED = 'skipped'
 }
 
 export enum JobType {
@@ -14,6 +17,30 @@ export enum JobType {
     EXPORT = 'EXPORT'
 }
 
+export interface IJobLog {
+    timestamp: Date;
+    level: 'info' | 'warn' | 'error';
+    message: string;
+}
+
+export interface IJobAttempt {
+    attempt: number;
+    timestamp: Date;
+    error: string;
+    stack?: string;
+}
+
+// Output file attached by an executor; the content lives in storage under `key`
+export interface IJobArtifact {
+    name: string;
+    key: string;
+    contentType: string;
+    size: number;
+    checksum: string;
+    createdAt: Date;
+    expiresAt: Date;
+}
+
 export interface IJob extends Document {
     jobId: string;
     type: JobType;
@@ -21,14 +48,31 @@ export interface IJob extends Document {
     payload: Record<string, unknown>;
     result?: Record<string, unknown>;
     error?: string;
+    progress: number;
+    stage?: string;
+    logs: IJobLog[];
     attempts: number;
     maxAttempts: number;
+    attemptsHistory: IJobAttempt[];
+    artifacts: IJobArtifact[];
     priority: number;
+    timeoutMs?: number;
     idempotencyKey?: string;
+    idempotencyHash?: string;
     userId: string;
+    projectId?: string;
+    workspaceId?: string;
+    scheduleId?: string;
+    queueJobId?: string;
+    pipelineId?: string;
+    pipelineKey?: string;
+    dependsOn: string[];
+    onUpstreamFailure?: 'fail' | 'skip';
     createdAt: Date;
+    updatedAt: Date;
     startedAt?: Date;
     completedAt?: Date;
+    cancelRequestedAt?: Date;
 }
 
 const jobSchema = new Schema<IJob>({
@@ -38,16 +82,73 @@ const jobSchema = new Schema<IJob>({
     payload: { type: Schema.Types.Mixed, required: true },
     result: { type: Schema.Types.Mixed, default: null },
     error: { type: String, default: null },
+    progress: { type: Number, default: 0, min: 0, max: 100 },
+    stage: { type: String, default: null },
+    logs: [{
+        _id: false,
+        timestamp: { type: Date, default: Date.now },
+        level: { type: String, enum: ['info', 'warn', 'error'], default: 'info' },
+        message: { type: String, required: true }
+    }],
     attempts: { type: Number, default: 0 },
     maxAttempts: { type: Number, default: 3 },
+    // One entry per failed attempt, so retries don't overwrite earlier errors
+    attemptsHistory: [{
+        _id: false,
+        attempt: { type: Number, required: true },
+        timestamp: { type: Date, default: Date.now },
+        error: { type: String, required: true },
+        stack: { type: String, default: null }
+    }],
+    artifacts: [{
+        _id: false,
+        name: { type: String, required: true },
+        key: { type: String, required: true },
+        contentType: { type: String, required: true },
+        size: { type: Number, required: true },
+        checksum: { type: String, required: true },
+        createdAt: { type: Date, default: Date.now },
+        expiresAt: { type: Date, required: true }
+    }],
     priority: { type: Number, default: 5, min: 1, max: 10 },
-    idempotencyKey: { type: String, sparse: true, index: true },
+    // Falls back to the job type's default when unset
+    timeoutMs: { type: Number, default: null },
+    // Unique per user (see index below); the hash detects reuse with a different request
+    idempotencyKey: { type: String },
+    idempotencyHash: { type: String },
     userId: { type: String, required: true, index: true },
+    // Scoped jobs are visible to every member of the project or workspace
+    projectId: { type: String, default: null, index: true },
+    workspaceId: { type: String, default: null, index: true },
+    // Set on occurrences produced by a schedule
+    scheduleId: { type: String, default: null, index: true },
+    // BullMQ id of the job running this record; differs from jobId for schedule occurrences
+    queueJobId: { type: String, default: null },
+    // Pipeline membership: node key, upstream jobIds and what to do if one of them fails
+    pipelineId: { type: String, default: null, index: true },
+    pipelineKey: { type: String, default: null },
+    dependsOn: { type: [String], default: [] },
+    onUpstreamFailure: { type: String, enum: ['fail', 'skip'], default: null },
     startedAt: { type: Date, default: null },
-    completedAt: { type: Date, default: null }
+    completedAt: { type: Date, default: null },
+    // Set while a running job has been asked to stop but hasn't yet
+    cancelRequestedAt: { type: Date, default: null }
 }, { timestamps: true });
 
-jobSchema.index({ userId: 1, status: 1 });
+// List queries filter by scope (and often status) and page by createdAt
+jobSchema.index({ userId: 1, createdAt: -1 });
+jobSchema.index({ userId: 1, status: 1, createdAt: -1 });
 jobSchema.index({ status: 1, createdAt: 1 });
+// Global metrics select by creation time alone
+jobSchema.index({ createdAt: 1 });
+jobSchema.index({ projectId: 1, createdAt: -1 });
+jobSchema.index({ workspaceId: 1, createdAt: -1 });
+jobSchema.index({ 'artifacts.expiresAt': 1 });
+// Free-text search; payload and result have no fixed shape, so every string field is indexed
+jobSchema.index({ '$**': 'text' }, { name: 'job_search' });
+jobSchema.index(
+    { userId: 1, idempotencyKey: 1 },
+    { unique: true, partialFilterExpression: { idempotencyKey: { $type: 'string' } } }
+);
 
 export const Job = mongoose.model<IJob>('Job', jobSchema);
@@ -0,0 +1,34 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IPipelineNode {
+    key: string;
+    jobId: string;
+    dependsOn: string[]; // node keys
+}
+
+export interface IPipeline extends Document {
+    pipelineId: string;
+    name?: string;
+    userId: string;
+    projectId?: string;
+    workspaceId?: string;
+    nodes: IPipelineNode[];
+    createdAt: Date;
+}
+
+// Node state lives on each Job; the pipeline only records the graph
+const pipelineSchema = new Schema<IPipeline>({
+    pipelineId: { type: String, required: true, unique: true, index: true },
+    name: { type: String, default: null },
+    userId: { type: String, required: true, index: true },
+    projectId: { type: String, default: null, index: true },
+    workspaceId: { type: String, default: null },
+    nodes: [{
+        _id: false,
+        key: { type: String, required: true },
+        jobId: { type: String, required: true },
+        dependsOn: { type: [String], default: [] }
+    }]
+}, { timestamps: true });
+
+export const Pipeline = mongoose.model<IPipeline>('Pipeline', pipelineSchema);
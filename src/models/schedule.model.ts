@@ -0,0 +1,50 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { JobType } from './job.model';
+
+export enum ScheduleStatus {
+    ACTIVE = 'active',
+    PAUSED = 'paused',
+    COMPLETED = 'completed'
+}
+
+export interface ISchedule extends Document {
+    scheduleId: string;
+    type: JobType;
+    payload: Record<string, unknown>;
+    priority: number;
+    timeoutMs?: number;
+    // Exactly one of runAt (one-off) or cron (recurring) is set
+    runAt?: Date;
+    cron?: string;
+    timezone?: string;
+    status: ScheduleStatus;
+    userId: string;
+    projectId?: string;
+    workspaceId?: string;
+    runCount: number;
+    lastRunAt?: Date;
+    nextRunAt?: Date;
+    createdAt: Date;
+}
+
+const scheduleSchema = new Schema<ISchedule>({
+    scheduleId: { type: String, required: true, unique: true, index: true },
+    type: { type: String, enum: Object.values(JobType), required: true },
+    payload: { type: Schema.Types.Mixed, required: true },
+    priority: { type: Number, default: 5, min: 1, max: 10 },
+    timeoutMs: { type: Number, default: null },
+    runAt: { type: Date, default: null },
+    cron: { type: String, default: null },
+    timezone: { type: String, default: null },
+    status: { type: String, enum: Object.values(ScheduleStatus), default: ScheduleStatus.ACTIVE },
+    userId: { type: String, required: true, index: true },
+    projectId: { type: String, default: null, index: true },
+    workspaceId: { type: String, default: null },
+    runCount: { type: Number, default: 0 },
+    lastRunAt: { type: Date, default: null },
+    nextRunAt: { type: Date, default: null }
+}, { timestamps: true });
+
+scheduleSchema.index({ userId: 1, status: 1 });
+
+export const Schedule = mongoose.model<ISchedule>('Schedule', scheduleSchema);
@@ -0,0 +1,61 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export enum DeliveryStatus {
+    PENDING = 'pending',
+    DELIVERED = 'delivered',
+    FAILED = 'failed'
+}
+
+export interface IDeliveryAttempt {
+    attempt: number;
+    timestamp: Date;
+    statusCode?: number;
+    error?: string;
+    durationMs: number;
+}
+
+export interface IWebhookDelivery extends Document {
+    deliveryId: string;
+    // Shared by every delivery of the same event, redeliveries included, so receivers can dedupe
+    eventId: string;
+    webhookId: string;
+    event: string;
+    payload: Record<string, unknown>;
+    status: DeliveryStatus;
+    attempts: IDeliveryAttempt[];
+    responseStatus?: number;
+    error?: string;
+    redeliveryOf?: string;
+    deliveredAt?: Date;
+    createdAt: Date;
+}
+
+// Delivery log entries are removed after this many days
+const RETENTION_DAYS = parseInt(process.env.WEBHOOK_DELIVERY_RETENTION_DAYS || '30');
+
+const webhookDeliverySchema = new Schema<IWebhookDelivery>({
+    deliveryId: { type: String, required: true, unique: true, index: true },
+    eventId: { type: String, required: true },
+    webhookId: { type: String, required: true },
+    event: { type: String, required: true },
+    payload: { type: Schema.Types.Mixed, required: true },
+    status: { type: String, enum: Object.values(DeliveryStatus), default: DeliveryStatus.PENDING },
+    attempts: [{
+        _id: false,
+        attempt: { type: Number, required: true },
+        timestamp: { type: Date, default: Date.now },
+        statusCode: { type: Number, default: null },
+        error: { type: String, default: null },
+        durationMs: { type: Number, required: true }
+    }],
+    // Status of the last response; bodies are not kept
+    responseStatus: { type: Number, default: null },
+    error: { type: String, default: null },
+    redeliveryOf: { type: String, default: null },
+    deliveredAt: { type: Date, default: null }
+}, { timestamps: true });
+
+webhookDeliverySchema.index({ webhookId: 1, createdAt: -1 });
+webhookDeliverySchema.index({ createdAt: 1 }, { expireAfterSeconds: RETENTION_DAYS * 24 * 60 * 60 });
+
+export const WebhookDelivery = mongoose.model<IWebhookDelivery>('WebhookDelivery', webhookDeliverySchema);
@@ -0,0 +1,26 @@
+import redis, { redisPub } from '../config/redis';
+
+// Workers subscribe to this channel and abort the matching running job
+export const JOB_CANCEL_CHANNEL = 'job-cancellations';
+
+// Outlives any realistic run, so a worker picking the job up late still sees it
+const CANCEL_FLAG_TTL_SECONDS = 24 * 60 * 60;
+
+const cancelKey = (jobId: string) => `job:cancel:${jobId}`;
+
+/**
+ * Signals a running job to stop. The flag covers a worker that starts the job
+ * after the message was published; the message covers one already running it.
+ */
+export async function requestCancellation(jobId: string) {
+    await redis.set(cancelKey(jobId), '1', 'EX', CANCEL_FLAG_TTL_SECONDS);
+    await redisPub.publish(JOB_CANCEL_CHANNEL, jobId);
+}
+
+export async function isCancellationRequested(jobId: string): Promise<boolean> {
+    return (await redis.exists(cancelKey(jobId))) === 1;
+}
+
+export async function clearCancellation(jobId: string) {
+    await redis.del(cancelKey(jobId));
+}
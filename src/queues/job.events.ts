@@ -0,0 +1,31 @@
+import { redisPub } from '../config/redis';
+import { IJobLog, JobStatus } from '../models/job.model';
+import webhookService from '../services/webhook.service';
+
+// Job lifecycle updates, published by the API and workers and pushed to clients by the socket server
+export const JOB_EVENTS_CHANNEL = 'job-events';
+
+export interface JobEvent {
+    type: 'status' | 'progress' | 'log';
+    jobId: string;
+    userId: string;
+    workspaceId?: string;
+    status?: JobStatus;
+    progress?: number;
+    stage?: string;
+    log?: IJobLog;
+    result?: Record<string, unknown>;
+    error?: string;
+    timestamp: string;
+}
+
+export async function publishJobEvent(event: Omit<JobEvent, 'timestamp'>) {
+    try {
+        await redisPub.publish(JOB_EVENTS_CHANNEL, JSON.stringify({ ...event, timestamp: new Date().toISOString() }));
+    } catch (error) {
+        // Live updates are best effort; the Job document stays the source of truth
+        console.error('Failed to publish job event:', error);
+    }
+
+    if (event.type === 'status' && event.status) await webhookService.emitJobStatus(event.jobId, event.status);
+}
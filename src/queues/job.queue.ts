@@ -1,4 +1,4 @@
-import { Queue } from 'bullmq';
+import { JobsOptions, Queue } from 'bullmq';
 
 const connection = {
     host: process.env.REDIS_HOST || 'localhost',
@@ -6,35 +6,129 @@ const connection = {
     password: process.env.REDIS_PASSWORD || undefined
 };
 
-export const jobQueue = new Queue('jobs', {
-    connection,
-    defaultJobOptions: {
-        attempts: 3,
-        backoff: { type: 'exponential', delay: 1000 },
-        removeOnComplete: { count: 100 },
-        removeOnFail: { count: 50 }
-    }
-});
+const defaultJobOptions: JobsOptions = {
+    attempts: 3,
+    backoff: { type: 'exponential', delay: 1000 },
+    removeOnComplete: { count: 100 },
+    removeOnFail: { count: 50 }
+};
+
+export const jobQueue = new Queue('jobs', { connection, defaultJobOptions });
+
+// Jobs that exhausted their attempts; nothing consumes it, admins inspect and requeue from here
+export const deadLetterQueue = new Queue('jobs-dead-letter', { connection });
 
 interface JobData {
     jobId: string;
     type: string;
     payload: Record<string, unknown>;
     userId: string;
+    projectId?: string;
+    workspaceId?: string;
+    pipelineId?: string;
+    timeoutMs?: number;
     idempotencyKey?: string;
 }
 
+// Scheduled occurrences carry no jobId; the worker creates the Job record when one fires
+export interface ScheduledJobData extends Omit<JobData, 'jobId' | 'idempotencyKey'> {
+    scheduleId: string;
+}
+
+export interface QueuedJob {
+    data: JobData;
+    priority: number;
+}
+
+export interface DeadLetterData extends JobData {
+    failedReason: string;
+    attemptsMade: number;
+    failedAt: string;
+}
+
+export interface ScheduleTiming {
+    runAt?: Date;
+    cron?: string;
+    timezone?: string;
+}
+
 export async function addJob(data: JobData, priority = 5): Promise<string> {
     const job = await jobQueue.add(data.type, data, { priority, jobId: data.jobId });
     return job.id || data.jobId;
 }
 
+/** Queues a job again under its original id, clearing the failed copy BullMQ may still hold. */
+export async function requeueJob(data: JobData, priority = 5): Promise<string> {
+    const previous = await jobQueue.getJob(data.jobId);
+    if (previous) await previous.remove();
+    await removeDeadLetter(data.jobId);
+    return addJob(data, priority);
+}
+
+export async function addDeadLetter(data: DeadLetterData) {
+    await deadLetterQueue.add(data.type, data, { jobId: data.jobId });
+}
+
+export async function removeDeadLetter(jobId: string) {
+    const entry = await deadLetterQueue.getJob(jobId);
+    if (entry) await entry.remove();
+}
+
+/** Queues several jobs in one round trip; all of them are added or none are. */
+export async function addJobs(jobs: QueuedJob[]) {
+    await jobQueue.addBulk(jobs.map(({ data, priority }) => ({
+        name: data.type,
+        data,
+        opts: { priority, jobId: data.jobId }
+    })));
+}
+
+/**
+ * Registers a schedule with BullMQ: a delayed job for runAt, a job scheduler for cron.
+ * Resolves the time of the next run.
+ */
+export async function addSchedule(data: ScheduledJobData, timing: ScheduleTiming, priority = 5): Promise<Date | undefined> {
+    if (timing.cron) {
+        await jobQueue.upsertJobScheduler(
+            data.scheduleId,
+            { pattern: timing.cron, tz: timing.timezone },
+            { name: data.type, data, opts: { priority } }
+        );
+        return getNextScheduledRun(data.scheduleId);
+    }
+
+    const runAt = timing.runAt ?? new Date();
+    await jobQueue.add(data.type, data, {
+        priority,
+        jobId: scheduledJobId(data.scheduleId),
+        delay: Math.max(0, runAt.getTime() - Date.now())
+    });
+    return runAt;
+}
+
+export async function getNextScheduledRun(scheduleId: string): Promise<Date | undefined> {
+    const scheduler = await jobQueue.getJobScheduler(scheduleId);
+    return scheduler?.next ? new Date(scheduler.next) : undefined;
+}
+
+export async function removeSchedule(scheduleId: string) {
+    await jobQueue.removeJobScheduler(scheduleId);
+    const delayed = await jobQueue.getJob(scheduledJobId(scheduleId));
+    if (delayed) await delayed.remove();
+}
+
+// BullMQ custom ids may not contain ':'
+function scheduledJobId(scheduleId: string) {
+    return `schedule-${scheduleId}`;
+}
+
 export async function getQueueStats() {
-    const [waiting, active, completed, failed] = await Promise.all([
+    const [waiting, active, completed, failed, deadLetter] = await Promise.all([
         jobQueue.getWaitingCount(),
         jobQueue.getActiveCount(),
         jobQueue.getCompletedCount(),
-        jobQueue.getFailedCount()
+        jobQueue.getFailedCount(),
+        deadLetterQueue.getWaitingCount()
     ]);
-    return { waiting, active, completed, failed };
+    return { waiting, active, completed, failed, deadLetter };
 }
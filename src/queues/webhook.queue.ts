@@ -0,0 +1,29 @@
+import { Queue } from 'bullmq';
+
+const connection = {
+    host: process.env.REDIS_HOST || 'localhost',
+    port: parseInt(process.env.REDIS_PORT || '6379'),
+    password: process.env.REDIS_PASSWORD || undefined
+};
+
+export const WEBHOOK_MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '5');
+
+// Deliveries only carry their id; the payload and log live on the WebhookDelivery record
+export interface WebhookJobData {
+    deliveryId: string;
+}
+
+export const webhookQueue = new Queue<WebhookJobData>('webhooks', {
+    connection,
+    defaultJobOptions: {
+        attempts: WEBHOOK_MAX_ATTEMPTS,
+        // 10s, 20s, 40s, ... between attempts
+        backoff: { type: 'exponential', delay: 10000 },
+        removeOnComplete: { count: 100 },
+        removeOnFail: { count: 100 }
+    }
+});
+
+export async function addDelivery(deliveryId: string) {
+    await webhookQueue.add('deliver', { deliveryId }, { jobId: deliveryId });
+}
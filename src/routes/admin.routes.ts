@@ -0,0 +1,202 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import deadLetterService from '../services/deadLetter.service';
+import reconcilerService from '../services/reconciler.service';
+import metricsService, { MetricsOptions } from '../services/metrics.service';
+import { authenticate, requireAdmin } from '../middleware/auth.middleware';
+import { jobMetricsQuerySchema } from '../schemas/validation.schemas';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/v1/admin/jobs/dead-letter:
+ *   get:
+ *     summary: List jobs that exhausted their attempts
+ *     tags: [Admin]
+ *     security: [{ bearerAuth: [] }]
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema: { type: integer, maximum: 100 }
+ *       - in: query
+ *         name: offset
+ *         schema: { type: integer }
+ *     responses:
+ *       200: { description: Dead-letter entries with their last failure }
+ *       403: { description: Admin access required }
+ */
+router.get('/jobs/dead-letter', authenticate, requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const options = {
+            limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+            offset: req.query.offset ? parseInt(req.query.offset as string) : undefined
+        };
+        const result = await deadLetterService.list(options);
+        res.json(result);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/admin/jobs/dead-letter:
+ *   delete:
+ *     summary: Purge the dead-letter queue
+ *     tags: [Admin]
+ *     security: [{ bearerAuth: [] }]
+ *     responses:
+ *       200: { description: Number of entries purged }
+ *       403: { description: Admin access required }
+ */
+router.delete('/jobs/dead-letter', authenticate, requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const result = await deadLetterService.purge();
+        res.json(result);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/admin/jobs/dead-letter/{jobId}:
+ *   get:
+ *     summary: Inspect a dead-letter entry with the job's attempt history
+ *     tags: [Admin]
+ *     security: [{ bearerAuth: [] }]
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema: { type: string }
+ *         description: Job ID
+ *     responses:
+ *       200: { description: Dead-letter entry and job document }
+ *       404: { description: Entry not found }
+ */
+router.get('/jobs/dead-letter/:jobId', authenticate, requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const result = await deadLetterService.getById(req.params.jobId);
+        res.json(result);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/admin/jobs/dead-letter/{jobId}/requeue:
+ *   post:
+ *     summary: Requeue a dead-lettered job with a fresh set of attempts
+ *     tags: [Admin]
+ *     security: [{ bearerAuth: [] }]
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema: { type: string }
+ *         description: Job ID
+ *     responses:
+ *       200: { description: Job requeued }
+ *       404: { description: Entry or job not found }
+ */
+router.post('/jobs/dead-letter/:jobId/requeue', authenticate, requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const job = await deadLetterService.requeue(req.params.jobId);
+        res.json(job);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/admin/jobs/dead-letter/{jobId}:
+ *   delete:
+ *     summary: Purge a single dead-letter entry
+ *     tags: [Admin]
+ *     security: [{ bearerAuth: [] }]
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema: { type: string }
+ *         description: Job ID
+ *     responses:
+ *       200: { description: Entry purged }
+ *       404: { description: Entry not found }
+ */
+router.delete('/jobs/dead-letter/:jobId', authenticate, requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const result = await deadLetterService.purge(req.params.jobId);
+        res.json(result);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/admin/jobs/inconsistencies:
+ *   get:
+ *     summary: Report jobs whose MongoDB status disagrees with BullMQ
+ *     description: Lists stalled, missing, orphaned and out-of-sync jobs with the repair reconciliation would apply. Nothing is changed.
+ *     tags: [Admin]
+ *     security: [{ bearerAuth: [] }]
+ *     responses:
+ *       200: { description: Inconsistencies found }
+ *       403: { description: Admin access required }
+ */
+router.get('/jobs/inconsistencies', authenticate, requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const inconsistencies = await reconcilerService.inspect();
+        res.json({ inconsistencies, total: inconsistencies.length });
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/admin/jobs/reconcile:
+ *   post:
+ *     summary: Repair jobs whose MongoDB status disagrees with BullMQ
+ *     description: Runs the same pass as the worker's periodic reconciler, right away.
+ *     tags: [Admin]
+ *     security: [{ bearerAuth: [] }]
+ *     responses:
+ *       200: { description: Inconsistencies repaired }
+ *       403: { description: Admin access required }
+ */
+router.post('/jobs/reconcile', authenticate, requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const repaired = await reconcilerService.reconcile();
+        res.json({ repaired, total: repaired.length });
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/admin/jobs/metrics:
+ *   get:
+ *     summary: Get time-bucketed metrics across all jobs
+ *     tags: [Admin]
+ *     security: [{ bearerAuth: [] }]
+ *     parameters:
+ *       - in: query
+ *         name: interval
+ *         schema: { type: string, enum: [hour, day], default: day }
+ *       - in: query
+ *         name: from
+ *         schema: { type: string, format: date-time }
+ *         description: Defaults to 7 days before to
+ *       - in: query
+ *         name: to
+ *         schema: { type: string, format: date-time }
+ *         description: Defaults to now
+ *       - in: query
+ *         name: type
+ *         schema: { type: string, enum: [CODE_EXECUTION, FILE_PROCESSING, DATA_ANALYSIS, EXPORT] }
+ *     responses:
+ *       200: { description: 'Per type and time bucket: submissions, success and retry rates, p50/p95 queue wait and run duration' }
+ *       400: { description: Invalid or too large window }
+ *       403: { description: Admin access required }
+ */
+router.get('/jobs/metrics', authenticate, requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const options = jobMetricsQuerySchema.parse(req.query) as MetricsOptions;
+        const metrics = await metricsService.getGlobal(options);
+        res.json(metrics);
+    } catch (error) { next(error); }
+});
+
+export default router;
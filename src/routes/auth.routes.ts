@@ -1,17 +1,34 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import authService from '../services/auth.service';
+import sessionService, { ClientInfo, describeDevice } from '../services/session.service';
+import mfaService from '../services/mfa.service';
+import oidcService from '../services/oidc.service';
 import { authenticate } from '../middleware/auth.middleware';
 import { validateBody } from '../middleware/validate.middleware';
 import { authRateLimiter } from '../middleware/rateLimiter.middleware';
-import { registerSchema, loginSchema, refreshTokenSchema } from '../schemas/validation.schemas';
+import {
+    registerSchema, loginSchema, refreshTokenSchema, verifyEmailSchema, forgotPasswordSchema, resetPasswordSchema, changePasswordSchema,
+    mfaConfirmSchema, mfaCodeInputSchema, mfaChallengeSchema, disableMfaSchema, oidcCallbackSchema
+} from '../schemas/validation.schemas';
 
 const router = Router();
 
+// Clients may name themselves with X-Device-Name, otherwise the user agent is summarised
+function clientInfo(req: Request): ClientInfo {
+    const userAgent = req.get('user-agent')?.slice(0, 500);
+    return {
+        device: req.get('x-device-name')?.slice(0, 100) || describeDevice(userAgent),
+        ipAddress: req.ip,
+        userAgent
+    };
+}
+
 /**
  * @swagger
  * /api/v1/auth/register:
  *   post:
  *     summary: Register new user
+ *     description: Emails a link to confirm the address. Until it is confirmed the user can sign in but not accept invitations, create projects or create jobs.
  *     tags: [Auth]
  *     requestBody:
  *       required: true
@@ -29,7 +46,7 @@ const router = Router();
  */
 router.post('/register', authRateLimiter, validateBody(registerSchema), async (req: Request, res: Response, next: NextFunction) => {
     try {
-        const result = await authService.register(req.body);
+        const result = await authService.register(req.body, clientInfo(req));
         res.status(201).json(result);
     } catch (error) { next(error); }
 });
@@ -39,6 +56,7 @@ router.post('/register', authRateLimiter, validateBody(registerSchema), async (r
  * /api/v1/auth/login:
  *   post:
  *     summary: Login user
+ *     description: 'For users with MFA enabled the response is { mfaRequired, challengeToken } instead of tokens. Exchange it at /auth/mfa/verify.'
  *     tags: [Auth]
  *     requestBody:
  *       required: true
@@ -51,11 +69,11 @@ router.post('/register', authRateLimiter, validateBody(registerSchema), async (r
  *               email: { type: string }
  *               password: { type: string }
  *     responses:
- *       200: { description: Login successful }
+ *       200: { description: 'Login successful, or an MFA challenge' }
  */
 router.post('/login', authRateLimiter, validateBody(loginSchema), async (req: Request, res: Response, next: NextFunction) => {
     try {
-        const result = await authService.login(req.body);
+        const result = await authService.login(req.body, clientInfo(req));
         res.json(result);
     } catch (error) { next(error); }
 });
@@ -65,6 +83,7 @@ router.post('/login', authRateLimiter, validateBody(loginSchema), async (req: Re
  * /api/v1/auth/refresh:
  *   post:
  *     summary: Refresh access token
+ *     description: Rotates the refresh token. Reusing a rotated refresh token revokes its whole session.
  *     tags: [Auth]
  *     requestBody:
  *       required: true
@@ -77,10 +96,11 @@ router.post('/login', authRateLimiter, validateBody(loginSchema), async (req: Re
  *               refreshToken: { type: string }
  *     responses:
  *       200: { description: Token refreshed }
+ *       401: { description: 'Invalid, expired or reused refresh token' }
  */
 router.post('/refresh', validateBody(refreshTokenSchema), async (req: Request, res: Response, next: NextFunction) => {
     try {
-        const result = await authService.refreshToken(req.body.refreshToken);
+        const result = await authService.refreshToken(req.body.refreshToken, clientInfo(req));
         res.json(result);
     } catch (error) { next(error); }
 });
@@ -90,6 +110,7 @@ router.post('/refresh', validateBody(refreshTokenSchema), async (req: Request, r
  * /api/v1/auth/logout:
  *   post:
  *     summary: Logout user
+ *     description: Revokes the session the refresh token belongs to.
  *     tags: [Auth]
  *     security: [{ bearerAuth: [] }]
  *     requestBody:
@@ -110,7 +131,394 @@ router.post('/logout', authenticate, validateBody(refreshTokenSchema), async (re
         const authHeader = req.headers.authorization;
         const accessToken = authHeader?.startsWith('Bearer ') ? authHeader.split(' ')[1] : undefined;
 
-        const result = await authService.logout(req.body.refreshToken, accessToken);
+        const result = await authService.logout(req.user!.id, req.body.refreshToken, accessToken);
+        res.json(result);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/auth/logout-all:
+ *   post:
+ *     summary: Log out everywhere
+ *     description: Revokes every session of the user, including the current one.
+ *     tags: [Auth]
+ *     security: [{ bearerAuth: [] }]
+ *     responses:
+ *       200: { description: All sessions revoked }
+ */
+router.post('/logout-all', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const result = await sessionService.revokeAll(req.user!.id);
+        res.json(result);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/auth/sessions:
+ *   get:
+ *     summary: List active sessions
+ *     description: One entry per signed-in device with where it signed in from. The session making the request is marked current.
+ *     tags: [Auth]
+ *     security: [{ bearerAuth: [] }]
+ *     responses:
+ *       200: { description: Active sessions }
+ */
+router.get('/sessions', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const sessions = await sessionService.list(req.user!.id, req.sessionId);
+        res.json(sessions);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/auth/sessions/{id}:
+ *   delete:
+ *     summary: Revoke a session
+ *     tags: [Auth]
+ *     security: [{ bearerAuth: [] }]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string }
+ *         description: Session ID
+ *     responses:
+ *       200: { description: Session revoked }
+ *       404: { description: Session not found }
+ */
+router.delete('/sessions/:id', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const result = await sessionService.revoke(req.user!.id, req.params.id);
+        res.json(result);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/auth/email/verify:
+ *   post:
+ *     summary: Confirm the email address
+ *     description: Also joins the projects the address was invited to before signing up.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [token]
+ *             properties:
+ *               token: { type: string, description: Token from the verification link }
+ *     responses:
+ *       200: { description: Email verified }
+ *       400: { description: Invalid or expired verification token }
+ */
+router.post('/email/verify', authRateLimiter, validateBody(verifyEmailSchema), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const result = await authService.verifyEmail(req.body.token);
+        res.json(result);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/auth/email/verify/resend:
+ *   post:
+ *     summary: Send a new verification link
+ *     description: Earlier links stop working.
+ *     tags: [Auth]
+ *     security: [{ bearerAuth: [] }]
+ *     responses:
+ *       200: { description: Verification email sent }
+ *       400: { description: Email is already verified }
+ */
+router.post('/email/verify/resend', authenticate, authRateLimiter, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const result = await authService.resendVerification(req.user!.id);
+        res.json(result);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/auth/password/forgot:
+ *   post:
+ *     summary: Request a password reset link
+ *     description: Emails a single-use link that expires after PASSWORD_RESET_TTL_MINUTES. The response is the same for unknown emails.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [email]
+ *             properties:
+ *               email: { type: string }
+ *     responses:
+ *       200: { description: Reset link sent if the email is registered }
+ */
+router.post('/password/forgot', authRateLimiter, validateBody(forgotPasswordSchema), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const result = await authService.forgotPassword(req.body.email);
+        res.json(result);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/auth/password/reset:
+ *   post:
+ *     summary: Set a new password with a reset token
+ *     description: Signs out every session of the account.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [token, password]
+ *             properties:
+ *               token: { type: string, description: Token from the reset link }
+ *               password: { type: string }
+ *     responses:
+ *       200: { description: Password reset }
+ *       400: { description: Invalid or expired reset token }
+ */
+router.post('/password/reset', authRateLimiter, validateBody(resetPasswordSchema), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const result = await authService.resetPassword(req.body);
+        res.json(result);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/auth/password/change:
+ *   post:
+ *     summary: Change password
+ *     description: Signs out every session and returns tokens for a new one.
+ *     tags: [Auth]
+ *     security: [{ bearerAuth: [] }]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [currentPassword, newPassword]
+ *             properties:
+ *               currentPassword: { type: string }
+ *               newPassword: { type: string }
+ *     responses:
+ *       200: { description: Password changed with new tokens }
+ *       401: { description: Current password is incorrect }
+ */
+router.post('/password/change', authenticate, authRateLimiter, validateBody(changePasswordSchema), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const result = await authService.changePassword(req.user!.id, req.body, clientInfo(req));
+        res.json(result);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/auth/mfa/verify:
+ *   post:
+ *     summary: Complete an MFA login
+ *     description: Exchanges the challenge token from login and a TOTP or recovery code for tokens. A challenge expires after MFA_CHALLENGE_TTL_SECONDS and allows 5 wrong codes.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [challengeToken, code]
+ *             properties:
+ *               challengeToken: { type: string }
+ *               code: { type: string, description: 6-digit TOTP code or a recovery code }
+ *     responses:
+ *       200: { description: Login successful }
+ *       401: { description: 'Invalid code, or invalid or expired challenge' }
+ */
+router.post('/mfa/verify', authRateLimiter, validateBody(mfaChallengeSchema), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const result = await authService.verifyMfaChallenge(req.body.challengeToken, req.body.code, clientInfo(req));
+        res.json(result);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/auth/oidc/providers:
+ *   get:
+ *     summary: List the configured identity providers
+ *     tags: [Auth]
+ *     responses:
+ *       200: { description: 'Providers with their id and display name' }
+ */
+router.get('/oidc/providers', (req: Request, res: Response) => {
+    res.json(oidcService.listProviders());
+});
+
+/**
+ * @swagger
+ * /api/v1/auth/oidc/{provider}/authorize:
+ *   post:
+ *     summary: Start signing in with an identity provider
+ *     description: Returns the provider URL to send the user to (authorization code flow with PKCE). The provider redirects back to OIDC_REDIRECT_URI with code and state.
+ *     tags: [Auth]
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema: { type: string }
+ *         description: Provider ID
+ *     responses:
+ *       200: { description: Authorization URL }
+ *       404: { description: Unknown identity provider }
+ */
+router.post('/oidc/:provider/authorize', authRateLimiter, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const result = await oidcService.authorize(req.params.provider);
+        res.json(result);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/auth/oidc/callback:
+ *   post:
+ *     summary: Finish signing in with an identity provider
+ *     description: Signs in the linked user. Otherwise links the account with the same verified email or creates one. Answers like /auth/login, including the MFA challenge.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [code, state]
+ *             properties:
+ *               code: { type: string }
+ *               state: { type: string }
+ *     responses:
+ *       200: { description: 'Login successful, or an MFA challenge' }
+ *       400: { description: Invalid or expired state }
+ *       403: { description: The provider did not share a verified email }
+ *       409: { description: An unverified account uses the email }
+ */
+router.post('/oidc/callback', authRateLimiter, validateBody(oidcCallbackSchema), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const result = await authService.loginWithOidc(req.body.code, req.body.state, clientInfo(req));
+        res.json(result);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/auth/mfa/enroll:
+ *   post:
+ *     summary: Start TOTP enrollment
+ *     description: Returns a new secret and its otpauth:// provisioning URI for an authenticator app. MFA is enabled once a code is confirmed.
+ *     tags: [Auth]
+ *     security: [{ bearerAuth: [] }]
+ *     responses:
+ *       200: { description: Secret and provisioning URI }
+ *       409: { description: MFA is already enabled }
+ */
+router.post('/mfa/enroll', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const result = await mfaService.enroll(req.user!.id);
+        res.json(result);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/auth/mfa/confirm:
+ *   post:
+ *     summary: Confirm enrollment and enable MFA
+ *     description: Returns one-time recovery codes. They are only shown here.
+ *     tags: [Auth]
+ *     security: [{ bearerAuth: [] }]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [code]
+ *             properties:
+ *               code: { type: string, example: '123456' }
+ *     responses:
+ *       200: { description: MFA enabled with recovery codes }
+ *       400: { description: 'Invalid code, or enrollment not started' }
+ */
+router.post('/mfa/confirm', authenticate, authRateLimiter, validateBody(mfaConfirmSchema), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const result = await mfaService.confirm(req.user!.id, req.body.code);
+        res.json(result);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/auth/mfa/disable:
+ *   post:
+ *     summary: Disable MFA
+ *     tags: [Auth]
+ *     security: [{ bearerAuth: [] }]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [password, code]
+ *             properties:
+ *               password: { type: string }
+ *               code: { type: string, description: TOTP or recovery code }
+ *     responses:
+ *       200: { description: MFA disabled }
+ *       401: { description: Wrong password or code }
+ */
+router.post('/mfa/disable', authenticate, authRateLimiter, validateBody(disableMfaSchema), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const result = await mfaService.disable(req.user!.id, req.body.password, req.body.code);
+        res.json(result);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/auth/mfa/recovery-codes:
+ *   post:
+ *     summary: Regenerate recovery codes
+ *     description: Replaces all previous recovery codes.
+ *     tags: [Auth]
+ *     security: [{ bearerAuth: [] }]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [code]
+ *             properties:
+ *               code: { type: string, description: TOTP or recovery code }
+ *     responses:
+ *       200: { description: New recovery codes }
+ *       401: { description: Invalid code }
+ */
+router.post('/mfa/recovery-codes', authenticate, authRateLimiter, validateBody(mfaCodeInputSchema), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const result = await mfaService.regenerateRecoveryCodes(req.user!.id, req.body.code);
         res.json(result);
     } catch (error) { next(error); }
 });
@@ -158,4 +566,100 @@ router.patch('/profile', authenticate, async (req: Request, res: Response, next:
     } catch (error) { next(error); }
 });
 
+/**
+ * @swagger
+ * /api/v1/auth/profile/identities:
+ *   get:
+ *     summary: List linked identity provider accounts
+ *     tags: [Auth]
+ *     security: [{ bearerAuth: [] }]
+ *     responses:
+ *       200: { description: Linked identities }
+ */
+router.get('/profile/identities', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const identities = await oidcService.listIdentities(req.user!.id);
+        res.json(identities);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/auth/profile/identities/{provider}/authorize:
+ *   post:
+ *     summary: Start linking an identity provider account
+ *     description: Like /auth/oidc/{provider}/authorize, but the code and state are then posted to /auth/profile/identities/callback by the same user.
+ *     tags: [Auth]
+ *     security: [{ bearerAuth: [] }]
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema: { type: string }
+ *         description: Provider ID
+ *     responses:
+ *       200: { description: Authorization URL }
+ *       404: { description: Unknown identity provider }
+ */
+router.post('/profile/identities/:provider/authorize', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const result = await oidcService.authorize(req.params.provider, req.user!.id);
+        res.json(result);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/auth/profile/identities/callback:
+ *   post:
+ *     summary: Finish linking an identity provider account
+ *     tags: [Auth]
+ *     security: [{ bearerAuth: [] }]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [code, state]
+ *             properties:
+ *               code: { type: string }
+ *               state: { type: string }
+ *     responses:
+ *       201: { description: Identity linked }
+ *       400: { description: Invalid or expired state }
+ *       409: { description: The identity is linked to another account }
+ */
+router.post('/profile/identities/callback', authenticate, validateBody(oidcCallbackSchema), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const identity = await oidcService.link(req.user!.id, req.body.code, req.body.state);
+        res.status(201).json(identity);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/auth/profile/identities/{id}:
+ *   delete:
+ *     summary: Unlink an identity provider account
+ *     tags: [Auth]
+ *     security: [{ bearerAuth: [] }]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string }
+ *         description: Identity ID
+ *     responses:
+ *       200: { description: Identity unlinked }
+ *       400: { description: It is the only way to sign in }
+ *       404: { description: Identity not found }
+ */
+router.delete('/profile/identities/:id', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const result = await oidcService.unlink(req.user!.id, req.params.id);
+        res.json(result);
+    } catch (error) { next(error); }
+});
+
 export default router;
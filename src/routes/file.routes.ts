@@ -0,0 +1,234 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import fileService from '../services/file.service';
+import { authenticate, requireWorkspaceAccess, requireRole } from '../middleware/auth.middleware';
+import { validateBody } from '../middleware/validate.middleware';
+import { createFileSchema, updateFileSchema, fileContentSchema } from '../schemas/validation.schemas';
+import { Role } from '@prisma/client';
+
+// Mounted under /api/v1/workspaces/:id/files
+const router = Router({ mergeParams: true });
+
+/**
+ * @swagger
+ * /api/v1/workspaces/{id}/files:
+ *   get:
+ *     summary: List a directory in the workspace file tree
+ *     tags: [Files]
+ *     security: [{ bearerAuth: [] }]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string }
+ *         description: Workspace ID
+ *       - in: query
+ *         name: parentId
+ *         schema: { type: string }
+ *         description: Folder to list (workspace root when omitted)
+ *     responses:
+ *       200: { description: Directory entries, folders first }
+ */
+router.get('/', authenticate, requireWorkspaceAccess, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const files = await fileService.list(req.params.id, req.query.parentId as string | undefined);
+        res.json(files);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/workspaces/{id}/files:
+ *   post:
+ *     summary: Create a file or folder
+ *     tags: [Files]
+ *     security: [{ bearerAuth: [] }]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string }
+ *         description: Workspace ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name]
+ *             properties:
+ *               name: { type: string, example: 'index.ts' }
+ *               type: { type: string, enum: [FILE, FOLDER], example: FILE }
+ *               parentId: { type: string, nullable: true }
+ *               content: { type: string }
+ *     responses:
+ *       201: { description: File created successfully }
+ *       409: { description: Name already taken in that folder }
+ */
+router.post('/', authenticate, requireWorkspaceAccess, requireRole(Role.COLLABORATOR), validateBody(createFileSchema), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const file = await fileService.create(req.params.id, req.user!, req.body);
+        res.status(201).json(file);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/workspaces/{id}/files/{fileId}:
+ *   get:
+ *     summary: Get file metadata
+ *     tags: [Files]
+ *     security: [{ bearerAuth: [] }]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string }
+ *         description: Workspace ID
+ *       - in: path
+ *         name: fileId
+ *         required: true
+ *         schema: { type: string }
+ *         description: File ID
+ *     responses:
+ *       200: { description: File metadata retrieved }
+ *       404: { description: File not found }
+ */
+router.get('/:fileId', authenticate, requireWorkspaceAccess, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const file = await fileService.getById(req.params.id, req.params.fileId);
+        res.json(file);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/workspaces/{id}/files/{fileId}:
+ *   patch:
+ *     summary: Rename or move a file or folder
+ *     tags: [Files]
+ *     security: [{ bearerAuth: [] }]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string }
+ *         description: Workspace ID
+ *       - in: path
+ *         name: fileId
+ *         required: true
+ *         schema: { type: string }
+ *         description: File ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name: { type: string }
+ *               parentId: { type: string, nullable: true, description: Target folder, null for root }
+ *     responses:
+ *       200: { description: File updated successfully }
+ *       409: { description: Name already taken in target folder }
+ */
+router.patch('/:fileId', authenticate, requireWorkspaceAccess, requireRole(Role.COLLABORATOR), validateBody(updateFileSchema), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const file = await fileService.update(req.params.id, req.params.fileId, req.user!, req.body);
+        res.json(file);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/workspaces/{id}/files/{fileId}:
+ *   delete:
+ *     summary: Delete a file or folder (recursively)
+ *     tags: [Files]
+ *     security: [{ bearerAuth: [] }]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string }
+ *         description: Workspace ID
+ *       - in: path
+ *         name: fileId
+ *         required: true
+ *         schema: { type: string }
+ *         description: File ID
+ *     responses:
+ *       200: { description: File deleted successfully }
+ */
+router.delete('/:fileId', authenticate, requireWorkspaceAccess, requireRole(Role.COLLABORATOR), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const result = await fileService.delete(req.params.id, req.params.fileId, req.user!);
+        res.json(result);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/workspaces/{id}/files/{fileId}/content:
+ *   get:
+ *     summary: Read file content
+ *     tags: [Files]
+ *     security: [{ bearerAuth: [] }]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string }
+ *         description: Workspace ID
+ *       - in: path
+ *         name: fileId
+ *         required: true
+ *         schema: { type: string }
+ *         description: File ID
+ *     responses:
+ *       200: { description: File content retrieved }
+ */
+router.get('/:fileId/content', authenticate, requireWorkspaceAccess, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const result = await fileService.getContent(req.params.id, req.params.fileId);
+        res.json(result);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/workspaces/{id}/files/{fileId}/content:
+ *   put:
+ *     summary: Replace file content
+ *     tags: [Files]
+ *     security: [{ bearerAuth: [] }]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string }
+ *         description: Workspace ID
+ *       - in: path
+ *         name: fileId
+ *         required: true
+ *         schema: { type: string }
+ *         description: File ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [content]
+ *             properties:
+ *               content: { type: string }
+ *     responses:
+ *       200: { description: File content updated }
+ */
+router.put('/:fileId/content', authenticate, requireWorkspaceAccess, requireRole(Role.COLLABORATOR), validateBody(fileContentSchema), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const result = await fileService.writeContent(req.params.id, req.params.fileId, req.user!, req.body.content);
+        res.json(result);
+    } catch (error) { next(error); }
+});
+
+export default router;
@@ -0,0 +1,80 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import projectService from '../services/project.service';
+import { authenticate, requireVerifiedEmail } from '../middleware/auth.middleware';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/v1/invitations/{token}:
+ *   get:
+ *     summary: Look up an invitation by token
+ *     tags: [Invitations]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema: { type: string }
+ *         description: Invitation token
+ *     responses:
+ *       200: { description: Invitation details retrieved }
+ *       404: { description: Invitation not found }
+ */
+router.get('/:token', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const invitation = await projectService.getInvitation(req.params.token);
+        res.json(invitation);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/invitations/{token}/accept:
+ *   post:
+ *     summary: Accept an invitation and join the project
+ *     tags: [Invitations]
+ *     security: [{ bearerAuth: [] }]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema: { type: string }
+ *         description: Invitation token
+ *     responses:
+ *       200: { description: Invitation accepted }
+ *       403: { description: 'Invitation belongs to another email, or email address not verified' }
+ *       409: { description: Already a collaborator }
+ *       410: { description: Invitation expired }
+ */
+router.post('/:token/accept', authenticate, requireVerifiedEmail, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const result = await projectService.acceptInvitation(req.params.token, req.user!);
+        res.json(result);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/invitations/{token}/decline:
+ *   post:
+ *     summary: Decline an invitation
+ *     tags: [Invitations]
+ *     security: [{ bearerAuth: [] }]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema: { type: string }
+ *         description: Invitation token
+ *     responses:
+ *       200: { description: Invitation declined }
+ *       403: { description: Invitation belongs to another email }
+ */
+router.post('/:token/decline', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const result = await projectService.declineInvitation(req.params.token, req.user!);
+        res.json(result);
+    } catch (error) { next(error); }
+});
+
+export default router;
@@ -1,19 +1,51 @@
 import { Router, Request, Response, NextFunction } from 'express';
-import jobService from '../services/job.service';
-import { authenticate } from '../middleware/auth.middleware';
+import jobService, { JobListOptions } from '../services/job.service';
+import scheduleService from '../services/schedule.service';
+import pipelineService from '../services/pipeline.service';
+import quotaService from '../services/quota.service';
+import metricsService, { MetricsOptions } from '../services/metrics.service';
+import artifactService from '../services/artifact.service';
+import { authenticate, requireProjectAccess, requireVerifiedEmail } from '../middleware/auth.middleware';
+import { ApiError } from '../middleware/error.middleware';
+import { getIdempotencyKey } from '../middleware/idempotency.middleware';
 import { validateBody } from '../middleware/validate.middleware';
-import { createJobSchema } from '../schemas/validation.schemas';
-import { JobStatus, JobType } from '../models/job.model';
+import { bulkJobsSchema, createJobSchema, createPipelineSchema, jobMetricsQuerySchema, listJobsQuerySchema } from '../schemas/validation.schemas';
+import { ScheduleStatus } from '../models/schedule.model';
+import { Role } from '@prisma/client';
 
 const router = Router();
 
+// Project-scoped submissions need write access to the project; personal jobs pass through
+const requireProjectCollaborator = requireProjectAccess(Role.COLLABORATOR);
+function requireJobScopeAccess(req: Request, res: Response, next: NextFunction) {
+    if (!req.body.projectId) return next();
+    return requireProjectCollaborator(req, res, next);
+}
+
+// Bulk delete stays open to unverified users; bulk retry runs jobs again
+function requireVerifiedEmailToRetry(req: Request, res: Response, next: NextFunction) {
+    if (req.body.action !== 'retry') return next();
+    return requireVerifiedEmail(req, res, next);
+}
+
+// Signed artifact links stand in for the bearer token, so they work from a browser
+function authenticateUnlessSigned(req: Request, res: Response, next: NextFunction) {
+    if (req.query.signature) return next();
+    return authenticate(req, res, next);
+}
+
 /**
  * @swagger
  * /api/v1/jobs:
  *   post:
- *     summary: Create new background job
+ *     summary: Create new background job, or schedule one with runAt or cron
  *     tags: [Jobs]
  *     security: [{ bearerAuth: [] }]
+ *     parameters:
+ *       - in: header
+ *         name: Idempotency-Key
+ *         schema: { type: string }
+ *         description: Same as idempotencyKey in the body; the existing job is returned (200) for a repeat, 409 if the request differs
  *     requestBody:
  *       required: true
  *       content:
@@ -25,12 +57,33 @@ const router = Router();
  *               type: { type: string, enum: [CODE_EXECUTION, FILE_PROCESSING, DATA_ANALYSIS, EXPORT], example: CODE_EXECUTION }
  *               payload: { type: object, example: { code: 'console.log("test")', language: 'javascript' } }
  *               priority: { type: integer, minimum: 1, maximum: 10, example: 5 }
+ *               timeoutMs: { type: integer, minimum: 1000, maximum: 3600000, description: Overrides the job type's run time limit }
+ *               projectId: { type: string, description: Scope the job to a project (requires COLLABORATOR) }
+ *               workspaceId: { type: string, description: Scope the job to a workspace of that project }
+ *               runAt: { type: string, format: date-time, description: Run once at this time }
+ *               cron: { type: string, example: '0 2 * * *', description: Run on a recurring cron pattern }
+ *               timezone: { type: string, example: 'Europe/Berlin', description: Timezone for the cron pattern }
  *     responses:
- *       201: { description: Job created successfully }
+ *       201: { description: Job created successfully, or schedule created when runAt/cron is set }
+ *       400: { description: Workspace does not belong to the project }
+ *       403: { description: 'Insufficient project permissions, or email address not verified' }
+ *       409: { description: Idempotency key reused with a different request }
+ *       429: { description: User or project job quota exceeded }
  */
-router.post('/', authenticate, validateBody(createJobSchema), async (req: Request, res: Response, next: NextFunction) => {
+router.post('/', authenticate, requireVerifiedEmail, validateBody(createJobSchema), requireJobScopeAccess, async (req: Request, res: Response, next: NextFunction) => {
     try {
-        const result = await jobService.create(req.user!.id, req.body);
+        if (req.body.runAt || req.body.cron) {
+            const schedule = await scheduleService.create(req.user!.id, req.body);
+            res.status(201).json({ schedule });
+            return;
+        }
+
+        const headerKey = getIdempotencyKey(req);
+        if (headerKey && req.body.idempotencyKey && headerKey !== req.body.idempotencyKey) {
+            throw new ApiError(400, 'Idempotency-Key header and idempotencyKey do not match');
+        }
+
+        const result = await jobService.create(req.user!.id, { ...req.body, idempotencyKey: headerKey ?? req.body.idempotencyKey });
         res.status(result.duplicate ? 200 : 201).json(result);
     } catch (error) { next(error); }
 });
@@ -42,22 +95,108 @@ router.post('/', authenticate, validateBody(createJobSchema), async (req: Reques
  *     summary: List jobs
  *     tags: [Jobs]
  *     security: [{ bearerAuth: [] }]
+ *     parameters:
+ *       - in: query
+ *         name: scheduleId
+ *         schema: { type: string }
+ *         description: Only occurrences of this schedule
+ *       - in: query
+ *         name: status
+ *         schema: { type: string, enum: [pending, processing, completed, failed, cancelled, skipped] }
+ *       - in: query
+ *         name: type
+ *         schema: { type: string, enum: [CODE_EXECUTION, FILE_PROCESSING, DATA_ANALYSIS, EXPORT] }
+ *       - in: query
+ *         name: minPriority
+ *         schema: { type: integer, minimum: 1, maximum: 10 }
+ *       - in: query
+ *         name: maxPriority
+ *         schema: { type: integer, minimum: 1, maximum: 10 }
+ *       - in: query
+ *         name: from
+ *         schema: { type: string, format: date-time }
+ *         description: Created at or after
+ *       - in: query
+ *         name: to
+ *         schema: { type: string, format: date-time }
+ *         description: Created at or before
+ *       - in: query
+ *         name: search
+ *         schema: { type: string }
+ *         description: Words to find in the payload, result, error or logs
+ *       - in: query
+ *         name: sort
+ *         schema: { type: string, enum: [createdAt, updatedAt, priority], default: createdAt }
+ *       - in: query
+ *         name: order
+ *         schema: { type: string, enum: [asc, desc], default: desc }
+ *       - in: query
+ *         name: limit
+ *         schema: { type: integer, minimum: 1, maximum: 100, default: 20 }
+ *       - in: query
+ *         name: cursor
+ *         schema: { type: string }
+ *         description: pagination.nextCursor of the previous page
+ *       - in: query
+ *         name: offset
+ *         schema: { type: integer }
+ *         description: Deprecated, use cursor. Returns a total count as before
  *     responses:
- *       200: { description: List of jobs }
+ *       200: { description: A page of jobs; pass pagination.nextCursor as cursor for the next one }
+ *       400: { description: Invalid filter or cursor }
  */
 router.get('/', authenticate, async (req: Request, res: Response, next: NextFunction) => {
     try {
-        const options = {
-            status: req.query.status as JobStatus,
-            type: req.query.type as JobType,
-            limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
-            offset: req.query.offset ? parseInt(req.query.offset as string) : undefined
-        };
+        const options = listJobsQuerySchema.parse(req.query) as JobListOptions;
         const result = await jobService.getAllForUser(req.user!.id, options);
         res.json(result);
     } catch (error) { next(error); }
 });
 
+/**
+ * @swagger
+ * /api/v1/jobs/bulk:
+ *   post:
+ *     summary: Delete or retry the user's jobs matching a filter
+ *     description: Delete only touches finished jobs, and retry only failed or cancelled ones. Up to 500 jobs are handled per request; repeat it while hasMore is true.
+ *     tags: [Jobs]
+ *     security: [{ bearerAuth: [] }]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [action, filter]
+ *             properties:
+ *               action: { type: string, enum: [delete, retry] }
+ *               filter:
+ *                 type: object
+ *                 description: Same filters as listing jobs
+ *                 properties:
+ *                   status: { type: string, enum: [pending, processing, completed, failed, cancelled, skipped] }
+ *                   type: { type: string, enum: [CODE_EXECUTION, FILE_PROCESSING, DATA_ANALYSIS, EXPORT] }
+ *                   scheduleId: { type: string }
+ *                   minPriority: { type: integer, minimum: 1, maximum: 10 }
+ *                   maxPriority: { type: integer, minimum: 1, maximum: 10 }
+ *                   from: { type: string, format: date-time }
+ *                   to: { type: string, format: date-time }
+ *                   search: { type: string }
+ *     responses:
+ *       200: { description: Number of jobs deleted, or retried plus any that could not be }
+ *       400: { description: The status filter doesn't fit the action }
+ *       403: { description: Retry needs a verified email address }
+ */
+router.post('/bulk', authenticate, validateBody(bulkJobsSchema), requireVerifiedEmailToRetry, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { action, filter } = req.body;
+        const result = action === 'delete'
+            ? await jobService.bulkDelete(req.user!.id, filter)
+            : await jobService.bulkRetry(req.user!.id, filter);
+        res.json(result);
+    } catch (error) { next(error); }
+});
+
 /**
  * @swagger
  * /api/v1/jobs/stats:
@@ -66,7 +205,7 @@ router.get('/', authenticate, async (req: Request, res: Response, next: NextFunc
  *     tags: [Jobs]
  *     security: [{ bearerAuth: [] }]
  *     responses:
- *       200: { description: Job statistics }
+ *       200: { description: Per-status counts for the user (cancelled reported separately from failed) and queue counts }
  */
 router.get('/stats', authenticate, async (req: Request, res: Response, next: NextFunction) => {
     try {
@@ -75,11 +214,248 @@ router.get('/stats', authenticate, async (req: Request, res: Response, next: Nex
     } catch (error) { next(error); }
 });
 
+/**
+ * @swagger
+ * /api/v1/jobs/metrics:
+ *   get:
+ *     summary: Get time-bucketed metrics for the user's jobs
+ *     tags: [Jobs]
+ *     security: [{ bearerAuth: [] }]
+ *     parameters:
+ *       - in: query
+ *         name: interval
+ *         schema: { type: string, enum: [hour, day], default: day }
+ *       - in: query
+ *         name: from
+ *         schema: { type: string, format: date-time }
+ *         description: Defaults to 7 days before to
+ *       - in: query
+ *         name: to
+ *         schema: { type: string, format: date-time }
+ *         description: Defaults to now
+ *       - in: query
+ *         name: type
+ *         schema: { type: string, enum: [CODE_EXECUTION, FILE_PROCESSING, DATA_ANALYSIS, EXPORT] }
+ *     responses:
+ *       200: { description: 'Per type and time bucket: submissions, success and retry rates, p50/p95 queue wait and run duration' }
+ *       400: { description: Invalid or too large window }
+ */
+router.get('/metrics', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const options = jobMetricsQuerySchema.parse(req.query) as MetricsOptions;
+        const metrics = await metricsService.getForUser(req.user!.id, options);
+        res.json(metrics);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/jobs/quota:
+ *   get:
+ *     summary: Get the user's job quota and current usage
+ *     tags: [Jobs]
+ *     security: [{ bearerAuth: [] }]
+ *     responses:
+ *       200: { description: Limits (concurrent, daily, maxPriority) and usage (concurrent, daily) }
+ */
+router.get('/quota', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const quota = await quotaService.getUsage(req.user!.id);
+        res.json(quota);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/jobs/schedules:
+ *   get:
+ *     summary: List job schedules
+ *     tags: [Jobs]
+ *     security: [{ bearerAuth: [] }]
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema: { type: string, enum: [active, paused, completed] }
+ *     responses:
+ *       200: { description: List of schedules }
+ */
+router.get('/schedules', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const schedules = await scheduleService.getAllForUser(req.user!.id, req.query.status as ScheduleStatus);
+        res.json(schedules);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/jobs/schedules/{id}:
+ *   get:
+ *     summary: Get schedule by ID
+ *     tags: [Jobs]
+ *     security: [{ bearerAuth: [] }]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string }
+ *         description: Schedule ID
+ *     responses:
+ *       200: { description: Schedule details retrieved }
+ *       404: { description: Schedule not found }
+ */
+router.get('/schedules/:id', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const schedule = await scheduleService.getById(req.params.id, req.user!.id);
+        res.json(schedule);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/jobs/schedules/{id}/pause:
+ *   post:
+ *     summary: Pause an active schedule
+ *     tags: [Jobs]
+ *     security: [{ bearerAuth: [] }]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string }
+ *         description: Schedule ID
+ *     responses:
+ *       200: { description: Schedule paused }
+ *       400: { description: Schedule is not active }
+ */
+router.post('/schedules/:id/pause', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const schedule = await scheduleService.pause(req.params.id, req.user!.id);
+        res.json(schedule);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/jobs/schedules/{id}/resume:
+ *   post:
+ *     summary: Resume a paused schedule
+ *     tags: [Jobs]
+ *     security: [{ bearerAuth: [] }]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string }
+ *         description: Schedule ID
+ *     responses:
+ *       200: { description: Schedule resumed }
+ *       400: { description: Schedule is not paused }
+ *       403: { description: Email address not verified }
+ */
+router.post('/schedules/:id/resume', authenticate, requireVerifiedEmail, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const schedule = await scheduleService.resume(req.params.id, req.user!.id);
+        res.json(schedule);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/jobs/schedules/{id}:
+ *   delete:
+ *     summary: Delete a schedule (past occurrences are kept)
+ *     tags: [Jobs]
+ *     security: [{ bearerAuth: [] }]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string }
+ *         description: Schedule ID
+ *     responses:
+ *       200: { description: Schedule deleted }
+ */
+router.delete('/schedules/:id', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const result = await scheduleService.delete(req.params.id, req.user!.id);
+        res.json(result);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/jobs/pipelines:
+ *   post:
+ *     summary: Submit a pipeline of jobs linked by dependsOn
+ *     description: Each job runs once the jobs it depends on have completed and receives their results as payload.upstream. A job can depend on several jobs and feed several others as long as there are no cycles.
+ *     tags: [Jobs]
+ *     security: [{ bearerAuth: [] }]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [jobs]
+ *             properties:
+ *               name: { type: string, example: 'Nightly report' }
+ *               projectId: { type: string }
+ *               workspaceId: { type: string }
+ *               jobs:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required: [key, type, payload]
+ *                   properties:
+ *                     key: { type: string, example: 'export' }
+ *                     type: { type: string, enum: [CODE_EXECUTION, FILE_PROCESSING, DATA_ANALYSIS, EXPORT], example: EXPORT }
+ *                     payload: { type: object, example: { format: 'json' } }
+ *                     priority: { type: integer, minimum: 1, maximum: 10 }
+ *                     timeoutMs: { type: integer, minimum: 1000, maximum: 3600000 }
+ *                     dependsOn: { type: array, items: { type: string }, example: ['analyze'] }
+ *                     onUpstreamFailure: { type: string, enum: [skip, fail], default: skip }
+ *     responses:
+ *       201: { description: Pipeline created with one job per node }
+ *       400: { description: Invalid dependency graph }
+ *       403: { description: Email address not verified }
+ *       429: { description: User or project job quota exceeded }
+ */
+router.post('/pipelines', authenticate, requireVerifiedEmail, validateBody(createPipelineSchema), requireJobScopeAccess, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const result = await pipelineService.create(req.user!.id, req.body);
+        res.status(201).json(result);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/jobs/pipelines/{id}:
+ *   get:
+ *     summary: Get pipeline status with the state of every node
+ *     tags: [Jobs]
+ *     security: [{ bearerAuth: [] }]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string }
+ *         description: Pipeline ID
+ *     responses:
+ *       200: { description: Aggregated status (pending, running, completed or failed) and per-node details }
+ *       404: { description: Pipeline not found }
+ */
+router.get('/pipelines/:id', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const status = await pipelineService.getStatus(req.params.id, req.user!.id);
+        res.json(status);
+    } catch (error) { next(error); }
+});
+
 /**
  * @swagger
  * /api/v1/jobs/{id}:
  *   get:
- *     summary: Get job by ID
+ *     summary: Get job by ID (own jobs, or jobs scoped to a project you belong to)
  *     tags: [Jobs]
  *     security: [{ bearerAuth: [] }]
  *     parameters:
@@ -99,6 +475,79 @@ router.get('/:id', authenticate, async (req: Request, res: Response, next: NextF
     } catch (error) { next(error); }
 });
 
+/**
+ * @swagger
+ * /api/v1/jobs/{id}/artifacts:
+ *   get:
+ *     summary: List a job's artifacts with signed download links
+ *     tags: [Jobs]
+ *     security: [{ bearerAuth: [] }]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string }
+ *         description: Job ID
+ *     responses:
+ *       200: { description: Artifacts, each with a url that works without a token until linkExpiresAt }
+ *       404: { description: Job not found }
+ */
+router.get('/:id/artifacts', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const job = await jobService.getById(req.params.id, req.user!.id);
+        res.json({ artifacts: artifactService.list(job) });
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/jobs/{id}/artifacts/{name}:
+ *   get:
+ *     summary: Download a job artifact
+ *     description: Needs either a bearer token for a user who can view the job, or the expires and signature parameters of a signed link.
+ *     tags: [Jobs]
+ *     security: [{ bearerAuth: [] }, {}]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string }
+ *         description: Job ID
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema: { type: string }
+ *       - in: query
+ *         name: expires
+ *         schema: { type: integer }
+ *         description: Link expiry (Unix seconds)
+ *       - in: query
+ *         name: signature
+ *         schema: { type: string }
+ *     responses:
+ *       200: { description: Artifact content }
+ *       403: { description: Invalid or expired download link }
+ *       404: { description: Job or artifact not found }
+ */
+router.get('/:id/artifacts/:name', authenticateUnlessSigned, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { id, name } = req.params;
+        if (req.query.signature) {
+            if (!artifactService.verifyLink(id, name, Number(req.query.expires), String(req.query.signature))) {
+                throw new ApiError(403, 'Invalid or expired download link');
+            }
+        } else {
+            await jobService.getById(id, req.user!.id);
+        }
+
+        const { artifact, object } = await artifactService.open(id, name);
+        res.setHeader('Content-Type', artifact.contentType);
+        res.setHeader('Content-Length', String(object.size ?? artifact.size));
+        res.setHeader('Content-Disposition', `attachment; filename="${artifact.name}"`);
+        object.stream.on('error', next).pipe(res);
+    } catch (error) { next(error); }
+});
+
 /**
  * @swagger
  * /api/v1/jobs/{id}/cancel:
@@ -113,8 +562,8 @@ router.get('/:id', authenticate, async (req: Request, res: Response, next: NextF
  *         schema: { type: string }
  *         description: Job ID
  *     responses:
- *       200: { description: Job cancelled successfully }
- *       400: { description: Job cannot be cancelled }
+ *       200: { description: Pending job cancelled, or cancellation requested for a running job }
+ *       400: { description: Job is already finished }
  */
 router.post('/:id/cancel', authenticate, async (req: Request, res: Response, next: NextFunction) => {
     try {
@@ -127,7 +576,8 @@ router.post('/:id/cancel', authenticate, async (req: Request, res: Response, nex
  * @swagger
  * /api/v1/jobs/{id}/retry:
  *   post:
- *     summary: Retry failed job
+ *     summary: Retry failed or cancelled job
+ *     description: A pipeline job can be retried once its upstream jobs have completed. The jobs it skipped or failed go back to pending and run after it completes.
  *     tags: [Jobs]
  *     security: [{ bearerAuth: [] }]
  *     parameters:
@@ -139,8 +589,9 @@ router.post('/:id/cancel', authenticate, async (req: Request, res: Response, nex
  *     responses:
  *       200: { description: Job retried successfully }
  *       400: { description: Job cannot be retried }
+ *       403: { description: Email address not verified }
  */
-router.post('/:id/retry', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+router.post('/:id/retry', authenticate, requireVerifiedEmail, async (req: Request, res: Response, next: NextFunction) => {
     try {
         const job = await jobService.retry(req.params.id, req.user!.id);
         res.json(job);
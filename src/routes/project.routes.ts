@@ -1,8 +1,11 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import projectService from '../services/project.service';
-import { authenticate, requireProjectAccess } from '../middleware/auth.middleware';
+import jobService, { JobListOptions } from '../services/job.service';
+import metricsService, { MetricsOptions } from '../services/metrics.service';
+import { authenticate, requireProjectAccess, requireVerifiedEmail } from '../middleware/auth.middleware';
 import { validateBody } from '../middleware/validate.middleware';
-import { createProjectSchema, updateProjectSchema, inviteCollaboratorSchema, updateRoleSchema } from '../schemas/validation.schemas';
+import { idempotent } from '../middleware/idempotency.middleware';
+import { createProjectSchema, updateProjectSchema, inviteCollaboratorSchema, updateRoleSchema, listJobsQuerySchema, jobMetricsQuerySchema } from '../schemas/validation.schemas';
 import { Role } from '@prisma/client';
 
 const router = Router();
@@ -14,6 +17,11 @@ const router = Router();
  *     summary: Create new project
  *     tags: [Projects]
  *     security: [{ bearerAuth: [] }]
+ *     parameters:
+ *       - in: header
+ *         name: Idempotency-Key
+ *         schema: { type: string }
+ *         description: Retrying with the same key and body returns the original response; a different body gets 409
  *     requestBody:
  *       required: true
  *       content:
@@ -27,8 +35,10 @@ const router = Router();
  *     responses:
  *       201: { description: Project created successfully }
  *       401: { description: Unauthorized }
+ *       403: { description: Email address not verified }
+ *       409: { description: Idempotency-Key reused with a different request, or still in progress }
  */
-router.post('/', authenticate, validateBody(createProjectSchema), async (req: Request, res: Response, next: NextFunction) => {
+router.post('/', authenticate, requireVerifiedEmail, validateBody(createProjectSchema), idempotent('projects'), async (req: Request, res: Response, next: NextFunction) => {
     try {
         const project = await projectService.create(req.user!.id, req.body);
         res.status(201).json(project);
@@ -156,11 +166,116 @@ router.get('/:id/collaborators', authenticate, requireProjectAccess(), async (re
     } catch (error) { next(error); }
 });
 
+/**
+ * @swagger
+ * /api/v1/projects/{id}/jobs:
+ *   get:
+ *     summary: List jobs scoped to the project
+ *     tags: [Projects]
+ *     security: [{ bearerAuth: [] }]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string }
+ *         description: Project ID
+ *       - in: query
+ *         name: status
+ *         schema: { type: string, enum: [pending, processing, completed, failed, cancelled, skipped] }
+ *       - in: query
+ *         name: type
+ *         schema: { type: string, enum: [CODE_EXECUTION, FILE_PROCESSING, DATA_ANALYSIS, EXPORT] }
+ *       - in: query
+ *         name: minPriority
+ *         schema: { type: integer, minimum: 1, maximum: 10 }
+ *       - in: query
+ *         name: maxPriority
+ *         schema: { type: integer, minimum: 1, maximum: 10 }
+ *       - in: query
+ *         name: from
+ *         schema: { type: string, format: date-time }
+ *         description: Created at or after
+ *       - in: query
+ *         name: to
+ *         schema: { type: string, format: date-time }
+ *         description: Created at or before
+ *       - in: query
+ *         name: search
+ *         schema: { type: string }
+ *         description: Words to find in the payload, result, error or logs
+ *       - in: query
+ *         name: sort
+ *         schema: { type: string, enum: [createdAt, updatedAt, priority], default: createdAt }
+ *       - in: query
+ *         name: order
+ *         schema: { type: string, enum: [asc, desc], default: desc }
+ *       - in: query
+ *         name: limit
+ *         schema: { type: integer, minimum: 1, maximum: 100, default: 20 }
+ *       - in: query
+ *         name: cursor
+ *         schema: { type: string }
+ *         description: pagination.nextCursor of the previous page
+ *       - in: query
+ *         name: offset
+ *         schema: { type: integer }
+ *         description: Deprecated, use cursor. Returns a total count as before
+ *     responses:
+ *       200: { description: Jobs run against this project or its workspaces by any member }
+ */
+router.get('/:id/jobs', authenticate, requireProjectAccess(), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const options = listJobsQuerySchema.parse(req.query) as JobListOptions;
+        const result = await jobService.getAllForProject(req.params.id, options);
+        res.json(result);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/projects/{id}/jobs/metrics:
+ *   get:
+ *     summary: Get time-bucketed metrics for jobs scoped to the project
+ *     tags: [Projects]
+ *     security: [{ bearerAuth: [] }]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string }
+ *         description: Project ID
+ *       - in: query
+ *         name: interval
+ *         schema: { type: string, enum: [hour, day], default: day }
+ *       - in: query
+ *         name: from
+ *         schema: { type: string, format: date-time }
+ *         description: Defaults to 7 days before to
+ *       - in: query
+ *         name: to
+ *         schema: { type: string, format: date-time }
+ *         description: Defaults to now
+ *       - in: query
+ *         name: type
+ *         schema: { type: string, enum: [CODE_EXECUTION, FILE_PROCESSING, DATA_ANALYSIS, EXPORT] }
+ *     responses:
+ *       200: { description: 'Per type and time bucket: submissions, success and retry rates, p50/p95 queue wait and run duration' }
+ *       400: { description: Invalid or too large window }
+ */
+router.get('/:id/jobs/metrics', authenticate, requireProjectAccess(), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const options = jobMetricsQuerySchema.parse(req.query) as MetricsOptions;
+        const metrics = await metricsService.getForProject(req.params.id, options);
+        res.json(metrics);
+    } catch (error) { next(error); }
+});
+
 /**
  * @swagger
  * /api/v1/projects/{id}/collaborators:
  *   post:
  *     summary: Invite collaborator to project
+ *     description: A user with a verified email is added right away. Anyone else gets a pending invitation, attached once the address is confirmed.
  *     tags: [Projects]
  *     security: [{ bearerAuth: [] }]
  *     parameters:
@@ -169,6 +284,10 @@ router.get('/:id/collaborators', authenticate, requireProjectAccess(), async (re
  *         required: true
  *         schema: { type: string }
  *         description: Project ID
+ *       - in: header
+ *         name: Idempotency-Key
+ *         schema: { type: string }
+ *         description: Retrying with the same key and body returns the original response; a different body gets 409
  *     requestBody:
  *       required: true
  *       content:
@@ -181,14 +300,73 @@ router.get('/:id/collaborators', authenticate, requireProjectAccess(), async (re
  *               role: { type: string, enum: [OWNER, COLLABORATOR, VIEWER], example: 'COLLABORATOR' }
  *     responses:
  *       201: { description: Collaborator invited successfully }
+ *       409: { description: Idempotency-Key reused with a different request, or still in progress }
  */
-router.post('/:id/collaborators', authenticate, requireProjectAccess(Role.OWNER), validateBody(inviteCollaboratorSchema), async (req: Request, res: Response, next: NextFunction) => {
+router.post('/:id/collaborators', authenticate, requireProjectAccess(Role.OWNER), validateBody(inviteCollaboratorSchema), idempotent('invitations'), async (req: Request, res: Response, next: NextFunction) => {
     try {
         const result = await projectService.inviteCollaborator(req.params.id, req.body.email, req.body.role);
         res.status(201).json(result);
     } catch (error) { next(error); }
 });
 
+/**
+ * @swagger
+ * /api/v1/projects/{id}/collaborators/invitations/{invitationId}:
+ *   delete:
+ *     summary: Revoke a pending invitation
+ *     tags: [Projects]
+ *     security: [{ bearerAuth: [] }]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string }
+ *         description: Project ID
+ *       - in: path
+ *         name: invitationId
+ *         required: true
+ *         schema: { type: string }
+ *         description: Invitation ID
+ *     responses:
+ *       200: { description: Invitation revoked }
+ *       404: { description: Invitation not found }
+ */
+router.delete('/:id/collaborators/invitations/:invitationId', authenticate, requireProjectAccess(Role.OWNER), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const result = await projectService.revokeInvitation(req.params.id, req.params.invitationId);
+        res.json(result);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/projects/{id}/collaborators/invitations/{invitationId}/resend:
+ *   post:
+ *     summary: Resend a pending invitation with a fresh token and expiry
+ *     tags: [Projects]
+ *     security: [{ bearerAuth: [] }]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string }
+ *         description: Project ID
+ *       - in: path
+ *         name: invitationId
+ *         required: true
+ *         schema: { type: string }
+ *         description: Invitation ID
+ *     responses:
+ *       200: { description: Invitation resent }
+ *       404: { description: Invitation not found }
+ */
+router.post('/:id/collaborators/invitations/:invitationId/resend', authenticate, requireProjectAccess(Role.OWNER), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const result = await projectService.resendInvitation(req.params.id, req.params.invitationId);
+        res.json(result);
+    } catch (error) { next(error); }
+});
+
 /**
  * @swagger
  * /api/v1/projects/{id}/collaborators/{collaboratorId}:
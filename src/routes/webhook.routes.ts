@@ -0,0 +1,221 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import webhookService from '../services/webhook.service';
+import { authenticate, requireProjectAccess } from '../middleware/auth.middleware';
+import { validateBody } from '../middleware/validate.middleware';
+import { createWebhookSchema, updateWebhookSchema } from '../schemas/validation.schemas';
+import { Role } from '@prisma/client';
+
+const router = Router();
+
+// Project webhooks are managed by the project owner; personal ones pass through
+const requireProjectOwner = requireProjectAccess(Role.OWNER);
+function requireWebhookScopeAccess(req: Request, res: Response, next: NextFunction) {
+    if (!req.body.projectId) return next();
+    return requireProjectOwner(req, res, next);
+}
+
+/**
+ * @swagger
+ * /api/v1/webhooks:
+ *   post:
+ *     summary: Register a webhook endpoint
+ *     description: Deliveries are POSTed as JSON and signed in the X-Webhook-Signature header (t=timestamp,v1=HMAC-SHA256 of "timestamp.body" with the webhook secret). The secret is only returned here.
+ *     tags: [Webhooks]
+ *     security: [{ bearerAuth: [] }]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [url, events]
+ *             properties:
+ *               url: { type: string, example: 'https://ci.example.com/hooks/workspace' }
+ *               events:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [job.completed, job.failed, job.cancelled, project.updated, collaborator.added, collaborator.updated, collaborator.removed, workspace.created, workspace.updated, workspace.deleted]
+ *               projectId: { type: string, description: Make it a project webhook (requires OWNER); personal webhooks only get job events }
+ *               description: { type: string }
+ *     responses:
+ *       201: { description: Webhook created with its signing secret }
+ *       400: { description: Event not available to personal webhooks }
+ *       403: { description: Not the project owner }
+ */
+router.post('/', authenticate, validateBody(createWebhookSchema), requireWebhookScopeAccess, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const webhook = await webhookService.create(req.user!.id, req.body);
+        res.status(201).json(webhook);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/webhooks:
+ *   get:
+ *     summary: List personal webhooks, or a project's webhooks
+ *     tags: [Webhooks]
+ *     security: [{ bearerAuth: [] }]
+ *     parameters:
+ *       - in: query
+ *         name: projectId
+ *         schema: { type: string }
+ *         description: List this project's webhooks (requires OWNER)
+ *     responses:
+ *       200: { description: List of webhooks }
+ *       403: { description: Not the project owner }
+ */
+router.get('/', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const webhooks = await webhookService.list(req.user!.id, req.query.projectId as string | undefined);
+        res.json(webhooks);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/webhooks/{id}:
+ *   get:
+ *     summary: Get webhook by ID
+ *     tags: [Webhooks]
+ *     security: [{ bearerAuth: [] }]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string }
+ *         description: Webhook ID
+ *     responses:
+ *       200: { description: Webhook details retrieved }
+ *       404: { description: Webhook not found }
+ */
+router.get('/:id', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const webhook = await webhookService.getById(req.params.id, req.user!.id);
+        res.json(webhook);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/webhooks/{id}:
+ *   patch:
+ *     summary: Update a webhook's URL, events, description, or enable/disable it
+ *     tags: [Webhooks]
+ *     security: [{ bearerAuth: [] }]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string }
+ *         description: Webhook ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               url: { type: string }
+ *               events: { type: array, items: { type: string } }
+ *               description: { type: string }
+ *               active: { type: boolean }
+ *     responses:
+ *       200: { description: Webhook updated }
+ *       404: { description: Webhook not found }
+ */
+router.patch('/:id', authenticate, validateBody(updateWebhookSchema), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const webhook = await webhookService.update(req.params.id, req.user!.id, req.body);
+        res.json(webhook);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/webhooks/{id}:
+ *   delete:
+ *     summary: Delete a webhook
+ *     tags: [Webhooks]
+ *     security: [{ bearerAuth: [] }]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string }
+ *         description: Webhook ID
+ *     responses:
+ *       200: { description: Webhook deleted }
+ *       404: { description: Webhook not found }
+ */
+router.delete('/:id', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const result = await webhookService.delete(req.params.id, req.user!.id);
+        res.json(result);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/webhooks/{id}/deliveries:
+ *   get:
+ *     summary: List a webhook's deliveries, newest first
+ *     tags: [Webhooks]
+ *     security: [{ bearerAuth: [] }]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string }
+ *         description: Webhook ID
+ *       - in: query
+ *         name: limit
+ *         schema: { type: integer, maximum: 100 }
+ *       - in: query
+ *         name: offset
+ *         schema: { type: integer }
+ *     responses:
+ *       200: { description: 'Deliveries with their status, attempts and last response' }
+ *       404: { description: Webhook not found }
+ */
+router.get('/:id/deliveries', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const options = {
+            limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+            offset: req.query.offset ? parseInt(req.query.offset as string) : undefined
+        };
+        const result = await webhookService.listDeliveries(req.params.id, req.user!.id, options);
+        res.json(result);
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/webhooks/{id}/deliveries/{deliveryId}/redeliver:
+ *   post:
+ *     summary: Send a logged event again as a new delivery
+ *     tags: [Webhooks]
+ *     security: [{ bearerAuth: [] }]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string }
+ *         description: Webhook ID
+ *       - in: path
+ *         name: deliveryId
+ *         required: true
+ *         schema: { type: string }
+ *     responses:
+ *       200: { description: New delivery queued }
+ *       404: { description: Webhook or delivery not found }
+ */
+router.post('/:id/deliveries/:deliveryId/redeliver', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const delivery = await webhookService.redeliver(req.params.id, req.params.deliveryId, req.user!.id);
+        res.json(delivery);
+    } catch (error) { next(error); }
+});
+
+export default router;
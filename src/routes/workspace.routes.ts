@@ -1,8 +1,11 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import workspaceService from '../services/workspace.service';
+import presenceService from '../services/presence.service';
+import jobService, { JobListOptions } from '../services/job.service';
 import { authenticate, requireWorkspaceAccess } from '../middleware/auth.middleware';
 import { validateBody } from '../middleware/validate.middleware';
-import { createWorkspaceSchema, updateWorkspaceSchema } from '../schemas/validation.schemas';
+import { idempotent } from '../middleware/idempotency.middleware';
+import { createWorkspaceSchema, updateWorkspaceSchema, listJobsQuerySchema } from '../schemas/validation.schemas';
 
 const router = Router();
 
@@ -13,6 +16,11 @@ const router = Router();
  *     summary: Create new workspace
  *     tags: [Workspaces]
  *     security: [{ bearerAuth: [] }]
+ *     parameters:
+ *       - in: header
+ *         name: Idempotency-Key
+ *         schema: { type: string }
+ *         description: Retrying with the same key and body returns the original response; a different body gets 409
  *     requestBody:
  *       required: true
  *       content:
@@ -27,8 +35,9 @@ const router = Router();
  *               meta: { type: object }
  *     responses:
  *       201: { description: Workspace created successfully }
+ *       409: { description: Idempotency-Key reused with a different request, or still in progress }
  */
-router.post('/', authenticate, validateBody(createWorkspaceSchema), async (req: Request, res: Response, next: NextFunction) => {
+router.post('/', authenticate, validateBody(createWorkspaceSchema), idempotent('workspaces'), async (req: Request, res: Response, next: NextFunction) => {
     try {
         const workspace = await workspaceService.create(req.user!.id, req.body);
         res.status(201).json(workspace);
@@ -58,6 +67,94 @@ router.get('/:id', authenticate, requireWorkspaceAccess, async (req: Request, re
     } catch (error) { next(error); }
 });
 
+/**
+ * @swagger
+ * /api/v1/workspaces/{id}/presence:
+ *   get:
+ *     summary: List users currently connected to the workspace
+ *     tags: [Workspaces]
+ *     security: [{ bearerAuth: [] }]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string }
+ *         description: Workspace ID
+ *     responses:
+ *       200: { description: Active users with their open connection count }
+ */
+router.get('/:id/presence', authenticate, requireWorkspaceAccess, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const users = await presenceService.getRoster(req.params.id);
+        res.json({ workspaceId: req.params.id, users });
+    } catch (error) { next(error); }
+});
+
+/**
+ * @swagger
+ * /api/v1/workspaces/{id}/jobs:
+ *   get:
+ *     summary: List jobs scoped to the workspace
+ *     tags: [Workspaces]
+ *     security: [{ bearerAuth: [] }]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string }
+ *         description: Workspace ID
+ *       - in: query
+ *         name: status
+ *         schema: { type: string, enum: [pending, processing, completed, failed, cancelled, skipped] }
+ *       - in: query
+ *         name: type
+ *         schema: { type: string, enum: [CODE_EXECUTION, FILE_PROCESSING, DATA_ANALYSIS, EXPORT] }
+ *       - in: query
+ *         name: minPriority
+ *         schema: { type: integer, minimum: 1, maximum: 10 }
+ *       - in: query
+ *         name: maxPriority
+ *         schema: { type: integer, minimum: 1, maximum: 10 }
+ *       - in: query
+ *         name: from
+ *         schema: { type: string, format: date-time }
+ *         description: Created at or after
+ *       - in: query
+ *         name: to
+ *         schema: { type: string, format: date-time }
+ *         description: Created at or before
+ *       - in: query
+ *         name: search
+ *         schema: { type: string }
+ *         description: Words to find in the payload, result, error or logs
+ *       - in: query
+ *         name: sort
+ *         schema: { type: string, enum: [createdAt, updatedAt, priority], default: createdAt }
+ *       - in: query
+ *         name: order
+ *         schema: { type: string, enum: [asc, desc], default: desc }
+ *       - in: query
+ *         name: limit
+ *         schema: { type: integer, minimum: 1, maximum: 100, default: 20 }
+ *       - in: query
+ *         name: cursor
+ *         schema: { type: string }
+ *         description: pagination.nextCursor of the previous page
+ *       - in: query
+ *         name: offset
+ *         schema: { type: integer }
+ *         description: Deprecated, use cursor. Returns a total count as before
+ *     responses:
+ *       200: { description: Jobs run against this workspace by any member }
+ */
+router.get('/:id/jobs', authenticate, requireWorkspaceAccess, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const options = listJobsQuerySchema.parse(req.query) as JobListOptions;
+        const result = await jobService.getAllForWorkspace(req.params.id, options);
+        res.json(result);
+    } catch (error) { next(error); }
+});
+
 /**
  * @swagger
  * /api/v1/workspaces/project/{projectId}:
@@ -1,13 +1,20 @@
 import { z } from 'zod';
 
+const passwordSchema = z.string().min(8).regex(/[A-Z]/).regex(/[a-z]/).regex(/[0-9]/);
+
+/** Emails are stored and compared in this form, so the same address always matches. */
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+const emailSchema = z.string().trim().toLowerCase().email();
+
 export const registerSchema = z.object({
-    email: z.string().email(),
-    password: z.string().min(8).regex(/[A-Z]/).regex(/[a-z]/).regex(/[0-9]/),
+    email: emailSchema,
+    password: passwordSchema,
     name: z.string().min(2).max(100)
 });
 
 export const loginSchema = z.object({
-    email: z.string().email(),
+    email: emailSchema,
     password: z.string().min(1)
 });
 
@@ -15,6 +22,50 @@ export const refreshTokenSchema = z.object({
     refreshToken: z.string().min(1)
 });
 
+export const verifyEmailSchema = z.object({
+    token: z.string().min(1)
+});
+
+// A 6-digit TOTP code, or a recovery code where the route accepts one
+const mfaCodeSchema = z.string().trim().min(6).max(20);
+
+export const mfaConfirmSchema = z.object({
+    code: z.string().regex(/^\d{6}$/, 'Code must be 6 digits')
+});
+
+export const mfaCodeInputSchema = z.object({
+    code: mfaCodeSchema
+});
+
+export const mfaChallengeSchema = z.object({
+    challengeToken: z.string().min(1),
+    code: mfaCodeSchema
+});
+
+export const disableMfaSchema = z.object({
+    password: z.string().min(1),
+    code: mfaCodeSchema
+});
+
+export const oidcCallbackSchema = z.object({
+    code: z.string().min(1),
+    state: z.string().min(1)
+});
+
+export const forgotPasswordSchema = z.object({
+    email: emailSchema
+});
+
+export const resetPasswordSchema = z.object({
+    token: z.string().min(1),
+    password: passwordSchema
+});
+
+export const changePasswordSchema = z.object({
+    currentPassword: z.string().min(1),
+    newPassword: passwordSchema
+});
+
 export const createProjectSchema = z.object({
     name: z.string().min(1).max(100),
     description: z.string().max(500).optional()
@@ -36,8 +87,26 @@ export const updateWorkspaceSchema = z.object({
     description: z.string().max(500).optional()
 });
 
+const fileNameSchema = z.string().min(1).max(255).regex(/^[^/\\]+$/, 'File name cannot contain slashes');
+
+export const createFileSchema = z.object({
+    name: fileNameSchema,
+    type: z.enum(['FILE', 'FOLDER']).default('FILE'),
+    parentId: z.string().uuid().nullable().optional(),
+    content: z.string().optional()
+});
+
+export const updateFileSchema = z.object({
+    name: fileNameSchema.optional(),
+    parentId: z.string().uuid().nullable().optional()
+}).refine(data => data.name !== undefined || data.parentId !== undefined, { message: 'Provide name or parentId' });
+
+export const fileContentSchema = z.object({
+    content: z.string()
+});
+
 export const inviteCollaboratorSchema = z.object({
-    email: z.string().email(),
+    email: emailSchema,
     role: z.enum(['COLLABORATOR', 'VIEWER']).default('COLLABORATOR')
 });
 
@@ -45,17 +114,128 @@ export const updateRoleSchema = z.object({
     role: z.enum(['COLLABORATOR', 'VIEWER'])
 });
 
+const jobTypeSchema = z.enum(['CODE_EXECUTION', 'FILE_PROCESSING', 'DATA_ANALYSIS', 'EXPORT']);
+
+// Overrides the job type's default run time limit, up to an hour
+const jobTimeoutSchema = z.number().int().min(1000).max(60 * 60 * 1000).optional();
+
 export const createJobSchema = z.object({
-    type: z.enum(['CODE_EXECUTION', 'FILE_PROCESSING', 'DATA_ANALYSIS', 'EXPORT']),
+    type: jobTypeSchema,
     payload: z.record(z.unknown()),
     priority: z.number().min(1).max(10).default(5),
-    idempotencyKey: z.string().optional()
+    timeoutMs: jobTimeoutSchema,
+    idempotencyKey: z.string().optional(),
+    projectId: z.string().uuid().optional(),
+    workspaceId: z.string().uuid().optional(),
+    // Either one makes this a schedule rather than a run-now job
+    runAt: z.coerce.date().optional(),
+    cron: z.string().min(1).optional(),
+    timezone: z.string().optional()
+}).refine(data => !data.workspaceId || data.projectId, {
+    message: 'projectId is required when workspaceId is set',
+    path: ['projectId']
+}).refine(data => !(data.runAt && data.cron), {
+    message: 'Use either runAt or cron, not both',
+    path: ['cron']
+}).refine(data => !data.timezone || data.cron, {
+    message: 'timezone only applies to cron schedules',
+    path: ['timezone']
+});
+
+export const createPipelineSchema = z.object({
+    name: z.string().min(1).max(100).optional(),
+    projectId: z.string().uuid().optional(),
+    workspaceId: z.string().uuid().optional(),
+    jobs: z.array(z.object({
+        key: z.string().min(1).max(50),
+        type: jobTypeSchema,
+        payload: z.record(z.unknown()),
+        priority: z.number().min(1).max(10).default(5),
+        timeoutMs: jobTimeoutSchema,
+        dependsOn: z.array(z.string()).default([]),
+        // What happens to this job when one of its upstream jobs fails
+        onUpstreamFailure: z.enum(['fail', 'skip']).default('skip')
+    })).min(1).max(50)
+}).refine(data => !data.workspaceId || data.projectId, {
+    message: 'projectId is required when workspaceId is set',
+    path: ['projectId']
+});
+
+// Query-string friendly: numbers and dates arrive as strings
+const jobFilterSchema = z.object({
+    status: z.enum(['pending', 'processing', 'completed', 'failed', 'cancelled', 'skipped']).optional(),
+    type: jobTypeSchema.optional(),
+    scheduleId: z.string().optional(),
+    minPriority: z.coerce.number().int().min(1).max(10).optional(),
+    maxPriority: z.coerce.number().int().min(1).max(10).optional(),
+    // Bounds on createdAt
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    search: z.string().trim().min(1).max(200).optional()
+});
+
+export const listJobsQuerySchema = jobFilterSchema.extend({
+    sort: z.enum(['createdAt', 'updatedAt', 'priority']).default('createdAt'),
+    order: z.enum(['asc', 'desc']).default('desc'),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    cursor: z.string().optional(),
+    // Kept for existing clients; cursors don't slow down on long histories
+    offset: z.coerce.number().int().min(0).optional()
+}).refine(data => !(data.cursor && data.offset !== undefined), {
+    message: 'Use either cursor or offset, not both',
+    path: ['offset']
+});
+
+export const bulkJobsSchema = z.object({
+    action: z.enum(['delete', 'retry']),
+    filter: jobFilterSchema
+});
+
+export const jobMetricsQuerySchema = z.object({
+    interval: z.enum(['hour', 'day']).default('day'),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    type: jobTypeSchema.optional()
+});
+
+export const webhookEventSchema = z.enum([
+    'job.completed', 'job.failed', 'job.cancelled',
+    'project.updated',
+    'collaborator.added', 'collaborator.updated', 'collaborator.removed',
+    'workspace.created', 'workspace.updated', 'workspace.deleted'
+]);
+
+const webhookUrlSchema = z.string().url().max(2048).refine(url => /^https?:\/\//i.test(url), 'URL must use http or https');
+
+export const createWebhookSchema = z.object({
+    url: webhookUrlSchema,
+    events: z.array(webhookEventSchema).min(1),
+    // Project webhooks need OWNER; without it the webhook is personal
+    projectId: z.string().uuid().optional(),
+    description: z.string().max(200).optional()
+});
+
+export const updateWebhookSchema = z.object({
+    url: webhookUrlSchema.optional(),
+    events: z.array(webhookEventSchema).min(1).optional(),
+    description: z.string().max(200).optional(),
+    active: z.boolean().optional()
 });
 
 export type RegisterInput = z.infer<typeof registerSchema>;
 export type LoginInput = z.infer<typeof loginSchema>;
+export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>;
+export type ChangePasswordInput = z.infer<typeof changePasswordSchema>;
 export type CreateProjectInput = z.infer<typeof createProjectSchema>;
 export type UpdateProjectInput = z.infer<typeof updateProjectSchema>;
 export type CreateWorkspaceInput = z.infer<typeof createWorkspaceSchema>;
 export type UpdateWorkspaceInput = z.infer<typeof updateWorkspaceSchema>;
+export type CreateFileInput = z.infer<typeof createFileSchema>;
+export type UpdateFileInput = z.infer<typeof updateFileSchema>;
 export type CreateJobInput = z.infer<typeof createJobSchema>;
+export type CreatePipelineInput = z.infer<typeof createPipelineSchema>;
+export type ListJobsQuery = z.infer<typeof listJobsQuerySchema>;
+export type BulkJobsInput = z.infer<typeof bulkJobsSchema>;
+export type WebhookEvent = z.infer<typeof webhookEventSchema>;
+export type CreateWebhookInput = z.infer<typeof createWebhookSchema>;
+export type UpdateWebhookInput = z.infer<typeof updateWebhookSchema>;
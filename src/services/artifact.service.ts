@@ -0,0 +1,125 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { IJobArtifact, Job } from '../models/job.model';
+import storage from '../storage';
+import { ApiError } from '../middleware/error.middleware';
+
+const RETENTION_DAYS = parseInt(process.env.ARTIFACT_RETENTION_DAYS || '7');
+const LINK_TTL_SECONDS = parseInt(process.env.ARTIFACT_LINK_TTL_SECONDS || '900');
+const CLEANUP_INTERVAL_MS = parseInt(process.env.ARTIFACT_CLEANUP_INTERVAL_MS || String(60 * 60 * 1000));
+const SIGNING_SECRET = process.env.ARTIFACT_SIGNING_SECRET || process.env.JWT_SECRET || 'secret';
+
+// Names become the last segment of the storage key and of the download URL
+const ARTIFACT_NAME = /^[\w][\w.-]{0,127}$/;
+
+/**
+ * Output files attached to jobs. Content goes to the configured storage driver,
+ * metadata onto the Job document. Downloads go through the API, either with a
+ * bearer token or with a signed link that expires after ARTIFACT_LINK_TTL_SECONDS.
+ */
+export class ArtifactService {
+    private cleanupTimer?: NodeJS.Timeout;
+
+    /** Stores a file for the job, replacing any earlier artifact with the same name. */
+    async attach(jobId: string, name: string, body: Buffer | string, contentType = 'application/octet-stream') {
+        if (!ARTIFACT_NAME.test(name)) throw new Error(`Invalid artifact name: ${name}`);
+
+        const content = Buffer.isBuffer(body) ? body : Buffer.from(body, 'utf8');
+        const now = new Date();
+        const artifact: IJobArtifact = {
+            name,
+            key: `jobs/${jobId}/${name}`,
+            contentType,
+            size: content.length,
+            checksum: `sha256:${createHash('sha256').update(content).digest('hex')}`,
+            createdAt: now,
+            expiresAt: new Date(now.getTime() + RETENTION_DAYS * 24 * 60 * 60 * 1000)
+        };
+
+        await storage.put(artifact.key, content, contentType);
+        await Job.updateOne({ jobId }, { $pull: { artifacts: { name } } });
+        await Job.updateOne({ jobId }, { $push: { artifacts: artifact } });
+        return artifact;
+    }
+
+    /** Artifacts of a job the caller may already view, each with a fresh download link. */
+    list(job: { jobId: string; artifacts?: IJobArtifact[] }) {
+        return (job.artifacts ?? []).map(({ name, contentType, size, checksum, createdAt, expiresAt }) => ({
+            name, contentType, size, checksum, createdAt, expiresAt,
+            ...this.createLink(job.jobId, name)
+        }));
+    }
+
+    createLink(jobId: string, name: string) {
+        const expires = Math.floor(Date.now() / 1000) + LINK_TTL_SECONDS;
+        const signature = this.sign(jobId, name, expires);
+        return {
+            url: `/api/v1/jobs/${jobId}/artifacts/${encodeURIComponent(name)}?expires=${expires}&signature=${signature}`,
+            linkExpiresAt: new Date(expires * 1000)
+        };
+    }
+
+    verifyLink(jobId: string, name: string, expires: number, signature: string) {
+        if (!Number.isInteger(expires) || expires * 1000 < Date.now()) return false;
+
+        const expected = Buffer.from(this.sign(jobId, name, expires));
+        const given = Buffer.from(signature);
+        return given.length === expected.length && timingSafeEqual(given, expected);
+    }
+
+    /** Access is checked by the caller (job visibility or a signed link). */
+    async open(jobId: string, name: string) {
+        const job = await Job.findOne({ jobId }).select('artifacts').lean();
+        const artifact = job?.artifacts?.find(entry => entry.name === name);
+        if (!artifact || artifact.expiresAt.getTime() < Date.now()) throw new ApiError(404, 'Artifact not found');
+
+        const object = await storage.get(artifact.key);
+        if (!object) throw new ApiError(404, 'Artifact not found');
+        return { artifact, object };
+    }
+
+    /** Deletes stored content; used when the jobs themselves are deleted. */
+    async remove(artifacts: Pick<IJobArtifact, 'key'>[]) {
+        for (const { key } of artifacts) {
+            try {
+                await storage.delete(key);
+            } catch (error) {
+                console.error(`Failed to delete artifact ${key}:`, error);
+            }
+        }
+    }
+
+    /** Deletes artifacts past their retention period, returning how many were removed. */
+    async cleanupExpired() {
+        const now = new Date();
+        const jobs = await Job.find({ 'artifacts.expiresAt': { $lte: now } }).select('jobId artifacts').lean();
+
+        let removed = 0;
+        for (const job of jobs) {
+            const expired = job.artifacts.filter(artifact => artifact.expiresAt <= now);
+            await this.remove(expired);
+            await Job.updateOne({ jobId: job.jobId }, { $pull: { artifacts: { expiresAt: { $lte: now } } } });
+            removed += expired.length;
+        }
+        return removed;
+    }
+
+    startCleanup(intervalMs = CLEANUP_INTERVAL_MS) {
+        if (this.cleanupTimer) return;
+
+        this.cleanupTimer = setInterval(() => {
+            this.cleanupExpired().catch(err => console.error('Artifact cleanup failed:', err));
+        }, intervalMs);
+        this.cleanupTimer.unref();
+    }
+
+    stopCleanup() {
+        if (this.cleanupTimer) clearInterval(this.cleanupTimer);
+        this.cleanupTimer = undefined;
+    }
+
+    private sign(jobId: string, name: string, expires: number) {
+        return createHmac('sha256', SIGNING_SECRET).update(`${jobId}/${name}:${expires}`).digest('hex');
+    }
+}
+
+export default new ArtifactService();
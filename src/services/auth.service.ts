@@ -1,44 +1,113 @@
 import bcrypt from 'bcrypt';
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 import { v4 as uuidv4 } from 'uuid';
+import { User } from '@prisma/client';
 import prisma from '../config/prisma';
 import redis from '../config/redis';
+import mailer from '../mail';
 import { ApiError } from '../middleware/error.middleware';
-import { RegisterInput, LoginInput } from '../schemas/validation.schemas';
+import { EMAIL_VERIFICATION_REQUIRED } from '../middleware/auth.middleware';
+import projectService from './project.service';
+import sessionService, { ACCESS_TOKEN_TTL_SECONDS, ClientInfo } from './session.service';
+import mfaService from './mfa.service';
+import oidcService from './oidc.service';
+import { RegisterInput, LoginInput, ResetPasswordInput, ChangePasswordInput } from '../schemas/validation.schemas';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'secret';
 const JWT_REFRESH_SECRET = process.env.JWT_REFRESH_SECRET || 'refresh-secret';
+const PASSWORD_RESET_TTL_MINUTES = parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '60');
+// The emailed link; the token is appended as ?token=
+const PASSWORD_RESET_URL = process.env.PASSWORD_RESET_URL || 'http://localhost:3000/reset-password';
+const EMAIL_VERIFICATION_TTL_HOURS = parseInt(process.env.EMAIL_VERIFICATION_TTL_HOURS || '48');
+const EMAIL_VERIFICATION_URL = process.env.EMAIL_VERIFICATION_URL || 'http://localhost:3000/verify-email';
+const MFA_CHALLENGE_TTL_SECONDS = parseInt(process.env.MFA_CHALLENGE_TTL_SECONDS || '300');
+const MFA_CHALLENGE_MAX_ATTEMPTS = 5;
+
+const mfaChallengeKey = (challengeToken: string) => `mfa:challenge:${challengeToken}`;
+
+// Carried over when a refresh token is rotated within its session
+interface SessionContext extends ClientInfo {
+    familyId?: string;
+    sessionStartedAt?: Date;
+}
 
 export class AuthService {
-    async register(input: RegisterInput) {
+    async register(input: RegisterInput, client: ClientInfo = {}) {
         const existing = await prisma.user.findUnique({ where: { email: input.email } });
         if (existing) throw new ApiError(409, 'Email already registered');
 
         const hashedPassword = await bcrypt.hash(input.password, 10);
         const user = await prisma.user.create({
             data: { email: input.email, password: hashedPassword, name: input.name },
-            select: { id: true, email: true, name: true, createdAt: true }
+            select: { id: true, email: true, name: true, emailVerified: true, createdAt: true }
         });
 
-        const tokens = await this.generateTokens(user.id, user.email, user.name);
+        // Otherwise invitations wait until the address is confirmed
+        if (!EMAIL_VERIFICATION_REQUIRED) await projectService.attachPendingInvitations(user.id, user.email);
+        await this.sendVerificationEmail(user);
+
+        const tokens = await this.generateTokens(user.id, user.email, user.name, client);
         return { user, ...tokens };
     }
 
-    async login(input: LoginInput) {
+    async login(input: LoginInput, client: ClientInfo = {}) {
         const user = await prisma.user.findUnique({ where: { email: input.email } });
-        if (!user) throw new ApiError(401, 'Invalid credentials');
+        // Accounts created through an identity provider have no password until they reset one
+        if (!user?.password) throw new ApiError(401, 'Invalid credentials');
 
         const valid = await bcrypt.compare(input.password, user.password);
         if (!valid) throw new ApiError(401, 'Invalid credentials');
 
-        const tokens = await this.generateTokens(user.id, user.email, user.name);
-        return {
-            user: { id: user.id, email: user.email, name: user.name, createdAt: user.createdAt },
-            ...tokens
-        };
+        if (user.mfaEnabled) {
+            return { mfaRequired: true, challengeToken: await this.createMfaChallenge(user.id) };
+        }
+
+        return this.signIn(user, client);
+    }
+
+    /** Signs in through an identity provider, with the same MFA step as a password login. */
+    async loginWithOidc(code: string, state: string, client: ClientInfo = {}) {
+        const user = await oidcService.resolveUser(code, state);
+
+        if (user.mfaEnabled) {
+            return { mfaRequired: true, challengeToken: await this.createMfaChallenge(user.id) };
+        }
+        return this.signIn(user, client);
+    }
+
+    /**
+     * Second login step for MFA users: exchanges the challenge from login and a
+     * TOTP or recovery code for tokens. A challenge is single use and allows a
+     * few wrong codes before the password has to be entered again.
+     */
+    async verifyMfaChallenge(challengeToken: string, code: string, client: ClientInfo = {}) {
+        const key = mfaChallengeKey(challengeToken);
+        const stored = await redis.get(key);
+        if (!stored) throw new ApiError(401, 'Invalid or expired MFA challenge');
+
+        const challenge = JSON.parse(stored) as { userId: string; attempts: number };
+        if (!(await mfaService.verifyCode(challenge.userId, code))) {
+            const attempts = challenge.attempts + 1;
+            if (attempts >= MFA_CHALLENGE_MAX_ATTEMPTS) await redis.del(key);
+            else await redis.set(key, JSON.stringify({ ...challenge, attempts }), 'KEEPTTL');
+            throw new ApiError(401, 'Invalid code');
+        }
+
+        // Whoever deletes the challenge first gets the tokens
+        if ((await redis.del(key)) === 0) throw new ApiError(401, 'Invalid or expired MFA challenge');
+
+        const user = await prisma.user.findUnique({ where: { id: challenge.userId } });
+        if (!user) throw new ApiError(401, 'Invalid or expired MFA challenge');
+
+        return this.signIn(user, client);
     }
 
-    async refreshToken(refreshToken: string) {
+    /**
+     * Rotates the refresh token within its session. Presenting a token that was
+     * already rotated means it was copied, so the whole session is revoked.
+     */
+    async refreshToken(refreshToken: string, client: ClientInfo = {}) {
         try {
             jwt.verify(refreshToken, JWT_REFRESH_SECRET);
 
@@ -48,22 +117,36 @@ export class AuthService {
             });
 
             if (!stored) throw new ApiError(401, 'Invalid refresh token');
-            if (stored.expiresAt < new Date()) {
-                await prisma.refreshToken.delete({ where: { id: stored.id } });
-                throw new ApiError(401, 'Refresh token expired');
+            if (stored.revokedAt) throw new ApiError(401, 'Session has been revoked');
+            if (stored.expiresAt < new Date()) throw new ApiError(401, 'Refresh token expired');
+
+            // Conditional, so two requests racing with the same token can't both rotate it
+            const rotated = !stored.usedAt && (await prisma.refreshToken.updateMany({
+                where: { id: stored.id, usedAt: null },
+                data: { usedAt: new Date() }
+            })).count === 1;
+            if (!rotated) {
+                await sessionService.revokeFamily(stored.familyId);
+                throw new ApiError(401, 'Refresh token reuse detected, session revoked');
             }
 
-            await prisma.refreshToken.delete({ where: { id: stored.id } });
-            return this.generateTokens(stored.user.id, stored.user.email, stored.user.name);
+            return this.generateTokens(stored.user.id, stored.user.email, stored.user.name, {
+                familyId: stored.familyId,
+                sessionStartedAt: stored.sessionStartedAt,
+                device: client.device ?? stored.device ?? undefined,
+                ipAddress: client.ipAddress,
+                userAgent: client.userAgent
+            });
         } catch (error) {
             if (error instanceof jwt.JsonWebTokenError) throw new ApiError(401, 'Invalid refresh token');
             throw error;
         }
     }
 
-    async logout(refreshToken: string, accessToken?: string) {
-        // Delete refresh token from database
-        await prisma.refreshToken.deleteMany({ where: { token: refreshToken } });
+    async logout(userId: string, refreshToken: string, accessToken?: string) {
+        // Revoke the session the refresh token belongs to
+        const stored = await prisma.refreshToken.findUnique({ where: { token: refreshToken } });
+        if (stored) await sessionService.revokeFamily(stored.familyId, userId);
 
         // Blacklist the access token if provided
         if (accessToken) {
@@ -81,11 +164,101 @@ export class AuthService {
         return { message: 'Logged out successfully' };
     }
 
+    /** Confirms the address from an emailed link and joins projects the user was invited to. */
+    async verifyEmail(token: string) {
+        const verification = await prisma.emailVerificationToken.findUnique({ where: { tokenHash: hashToken(token) } });
+        if (!verification || verification.expiresAt < new Date()) {
+            throw new ApiError(400, 'Invalid or expired verification token');
+        }
+
+        await this.markVerified(verification.userId);
+        return { message: 'Email verified' };
+    }
+
+    async resendVerification(userId: string) {
+        const user = await prisma.user.findUnique({ where: { id: userId } });
+        if (!user) throw new ApiError(404, 'User not found');
+        if (user.emailVerified) throw new ApiError(400, 'Email is already verified');
+
+        await this.sendVerificationEmail(user);
+        return { message: 'Verification email sent' };
+    }
+
+    /**
+     * Emails a single-use reset link. Responds the same whether or not the email
+     * is registered, so it can't be used to discover accounts.
+     */
+    async forgotPassword(email: string) {
+        const response = { message: 'If the email is registered, a reset link has been sent' };
+
+        const user = await prisma.user.findUnique({ where: { email } });
+        if (!user) return response;
+
+        // Only the latest link works
+        await prisma.passwordResetToken.deleteMany({ where: { userId: user.id } });
+
+        const token = crypto.randomBytes(32).toString('hex');
+        await prisma.passwordResetToken.create({
+            data: {
+                tokenHash: hashToken(token),
+                userId: user.id,
+                expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000)
+            }
+        });
+
+        try {
+            await mailer.send({
+                to: user.email,
+                subject: 'Reset your password',
+                text: `Hi ${user.name},\n\nUse this link to choose a new password. It expires in ${PASSWORD_RESET_TTL_MINUTES} minutes and works once:\n\n` +
+                    `${PASSWORD_RESET_URL}?token=${token}\n\nIf you didn't ask for this, you can ignore this email.`
+            });
+        } catch (error) {
+            console.error(`Failed to send password reset email to user ${user.id}:`, error);
+        }
+
+        return response;
+    }
+
+    async resetPassword(input: ResetPasswordInput) {
+        const reset = await prisma.passwordResetToken.findUnique({ where: { tokenHash: hashToken(input.token) } });
+        if (!reset || reset.usedAt || reset.expiresAt < new Date()) {
+            throw new ApiError(400, 'Invalid or expired reset token');
+        }
+
+        // Conditional, so the same token can't be redeemed twice concurrently
+        const { count } = await prisma.passwordResetToken.updateMany({
+            where: { id: reset.id, usedAt: null },
+            data: { usedAt: new Date() }
+        });
+        if (count === 0) throw new ApiError(400, 'Invalid or expired reset token');
+
+        await this.setPassword(reset.userId, input.password);
+        // Redeeming a link sent to the address proves the user controls it
+        await this.markVerified(reset.userId);
+        return { message: 'Password has been reset' };
+    }
+
+    /** Signs out every session, then starts a new one so the caller stays logged in. */
+    async changePassword(userId: string, input: ChangePasswordInput, client: ClientInfo = {}) {
+        const user = await prisma.user.findUnique({ where: { id: userId } });
+        if (!user) throw new ApiError(404, 'User not found');
+        if (!user.password) throw new ApiError(400, 'No password is set, use password reset to create one');
+
+        const valid = await bcrypt.compare(input.currentPassword, user.password);
+        if (!valid) throw new ApiError(401, 'Current password is incorrect');
+
+        await this.setPassword(user.id, input.newPassword);
+        const tokens = await this.generateTokens(user.id, user.email, user.name, client);
+        return { message: 'Password changed', ...tokens };
+    }
+
     async getProfile(userId: string) {
         const user = await prisma.user.findUnique({
             where: { id: userId },
             select: {
-                id: true, email: true, name: true, createdAt: true, updatedAt: true,
+                id: true, email: true, name: true, emailVerified: true, mfaEnabled: true, createdAt: true, updatedAt: true,
+                identities: { select: { id: true, provider: true, email: true, createdAt: true } },
                 _count: { select: { ownedProjects: true, collaborations: true } }
             }
         });
@@ -101,19 +274,93 @@ export class AuthService {
         });
     }
 
-    private async generateTokens(userId: string, email: string, name: string) {
-        const accessToken = jwt.sign({ userId, email, name }, JWT_SECRET, { expiresIn: '15m' as const });
+    private async signIn(user: User, client: ClientInfo) {
+        const tokens = await this.generateTokens(user.id, user.email, user.name, client);
+        return {
+            user: { id: user.id, email: user.email, name: user.name, emailVerified: user.emailVerified, createdAt: user.createdAt },
+            ...tokens
+        };
+    }
+
+    private async createMfaChallenge(userId: string) {
+        const challengeToken = crypto.randomBytes(32).toString('hex');
+        await redis.setex(mfaChallengeKey(challengeToken), MFA_CHALLENGE_TTL_SECONDS, JSON.stringify({ userId, attempts: 0 }));
+        return challengeToken;
+    }
+
+    // Only the latest link works, and a failed send can be retried with a resend
+    private async sendVerificationEmail(user: { id: string; email: string; name: string }) {
+        await prisma.emailVerificationToken.deleteMany({ where: { userId: user.id } });
+
+        const token = crypto.randomBytes(32).toString('hex');
+        await prisma.emailVerificationToken.create({
+            data: {
+                tokenHash: hashToken(token),
+                userId: user.id,
+                expiresAt: new Date(Date.now() + EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000)
+            }
+        });
+
+        try {
+            await mailer.send({
+                to: user.email,
+                subject: 'Confirm your email address',
+                text: `Hi ${user.name},\n\nConfirm your email address with this link. It expires in ${EMAIL_VERIFICATION_TTL_HOURS} hours:\n\n` +
+                    `${EMAIL_VERIFICATION_URL}?token=${token}`
+            });
+        } catch (error) {
+            console.error(`Failed to send verification email to user ${user.id}:`, error);
+        }
+    }
+
+    private async markVerified(userId: string) {
+        const { count } = await prisma.user.updateMany({
+            where: { id: userId, emailVerified: false },
+            data: { emailVerified: true, emailVerifiedAt: new Date() }
+        });
+        await prisma.emailVerificationToken.deleteMany({ where: { userId } });
+        if (count === 0) return;
+
+        const user = await prisma.user.findUnique({ where: { id: userId }, select: { email: true } });
+        if (user) await projectService.attachPendingInvitations(userId, user.email);
+    }
+
+    // Revoking the sessions also rejects their outstanding access tokens
+    private async setPassword(userId: string, password: string) {
+        const hashedPassword = await bcrypt.hash(password, 10);
+        await prisma.user.update({ where: { id: userId }, data: { password: hashedPassword } });
+        await prisma.passwordResetToken.deleteMany({ where: { userId, usedAt: null } });
+        await sessionService.revokeAll(userId);
+    }
+
+    /** Starts a session, or continues one when the context carries its familyId. */
+    private async generateTokens(userId: string, email: string, name: string, session: SessionContext = {}) {
+        const familyId = session.familyId || uuidv4();
+        const accessToken = jwt.sign({ userId, email, name, sid: familyId }, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL_SECONDS });
         const refreshToken = jwt.sign({ userId, email, name, tokenId: uuidv4() }, JWT_REFRESH_SECRET, { expiresIn: '7d' as const });
 
         const expiresAt = new Date();
         expiresAt.setDate(expiresAt.getDate() + 7);
 
         await prisma.refreshToken.create({
-            data: { token: refreshToken, userId, expiresAt }
+            data: {
+                token: refreshToken,
+                userId,
+                familyId,
+                sessionStartedAt: session.sessionStartedAt,
+                device: session.device,
+                ipAddress: session.ipAddress,
+                userAgent: session.userAgent,
+                expiresAt
+            }
         });
 
         return { accessToken, refreshToken };
     }
 }
 
+function hashToken(token: string) {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
 export default new AuthService();
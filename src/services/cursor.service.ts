@@ -0,0 +1,105 @@
+import redis, { redisPub } from '../config/redis';
+
+export const CURSOR_CHANNEL = 'cursor-events';
+
+const BROADCAST_INTERVAL_MS = parseInt(process.env.CURSOR_BROADCAST_INTERVAL_MS || '100');
+// Only garbage collection: the join roster already ignores users who are gone
+const CURSOR_TTL_MS = 60 * 60 * 1000;
+
+export interface CursorInput {
+    fileId?: string;
+    position?: unknown;
+    selection?: unknown;
+}
+
+export interface CursorState extends CursorInput {
+    userId: string;
+    userName?: string;
+    socketId: string;
+    updatedAt: string;
+}
+
+// Batch of coalesced cursors for one workspace, published once per interval
+export interface CursorMessage {
+    workspaceId: string;
+    cursors: CursorState[];
+}
+
+/**
+ * Cursor and selection moves arrive far more often than anyone can see them.
+ * Updates are coalesced per user per workspace and flushed on an interval,
+ * which bounds Redis traffic regardless of how fast clients emit.
+ */
+export class CursorService {
+    // workspaceId -> userId -> latest state not yet flushed
+    private pending = new Map<string, Map<string, CursorState>>();
+    private flushTimer?: NodeJS.Timeout;
+
+    update(workspaceId: string, user: { id: string; name?: string; socketId: string }, input: CursorInput) {
+        let users = this.pending.get(workspaceId);
+        if (!users) {
+            users = new Map();
+            this.pending.set(workspaceId, users);
+        }
+
+        // Selection and position updates merge, so neither is lost in a flush window
+        const previous = users.get(user.id);
+        users.set(user.id, {
+            ...previous,
+            ...input,
+            userId: user.id,
+            userName: user.name,
+            socketId: user.socketId,
+            updatedAt: new Date().toISOString()
+        });
+    }
+
+    async flush() {
+        const batches = Array.from(this.pending.entries());
+        this.pending.clear();
+
+        for (const [workspaceId, users] of batches) {
+            const cursors = Array.from(users.values());
+            const key = this.cursorsKey(workspaceId);
+
+            await redis.hset(key, ...cursors.flatMap(cursor => [cursor.userId, JSON.stringify(cursor)]));
+            await redis.pexpire(key, CURSOR_TTL_MS);
+
+            const message: CursorMessage = { workspaceId, cursors };
+            await redisPub.publish(CURSOR_CHANNEL, JSON.stringify(message));
+        }
+    }
+
+    /** Last known cursor per user, for clients that just joined. */
+    async getCursors(workspaceId: string): Promise<Record<string, CursorState>> {
+        const stored = await redis.hgetall(this.cursorsKey(workspaceId));
+        return Object.fromEntries(
+            Object.entries(stored).map(([userId, json]) => [userId, JSON.parse(json) as CursorState])
+        );
+    }
+
+    async clear(workspaceId: string, userId: string) {
+        this.pending.get(workspaceId)?.delete(userId);
+        await redis.hdel(this.cursorsKey(workspaceId), userId);
+    }
+
+    startBroadcasting(intervalMs = BROADCAST_INTERVAL_MS) {
+        if (this.flushTimer) return;
+
+        this.flushTimer = setInterval(() => {
+            this.flush().catch(err => console.error('Cursor flush failed:', err));
+        }, intervalMs);
+        this.flushTimer.unref();
+    }
+
+    stopBroadcasting() {
+        if (this.flushTimer) clearInterval(this.flushTimer);
+        this.flushTimer = undefined;
+    }
+
+    private cursorsKey(workspaceId: string) {
+        return `cursors:${workspaceId}`;
+    }
+}
+
+export default new CursorService();
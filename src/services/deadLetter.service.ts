@@ -0,0 +1,92 @@
+import { Job as BullJob } from 'bullmq';
+import { Job, JobStatus } from '../models/job.model';
+import { deadLetterQueue, DeadLetterData, requeueJob } from '../queues/job.queue';
+import { publishJobEvent } from '../queues/job.events';
+import { clearCancellation } from '../queues/job.cancellation';
+import { ApiError } from '../middleware/error.middleware';
+import jobService from './job.service';
+
+/**
+ * Admin view over jobs that exhausted their attempts. The dead-letter queue
+ * holds the original queue data; the Job document keeps the attempt history.
+ */
+export class DeadLetterService {
+    async list(options: { limit?: number; offset?: number } = {}) {
+        const limit = Math.min(options.limit || 20, 100);
+        const offset = options.offset || 0;
+
+        const [entries, total] = await Promise.all([
+            deadLetterQueue.getJobs(['waiting'], offset, offset + limit - 1),
+            deadLetterQueue.getWaitingCount()
+        ]);
+
+        return {
+            entries: entries.map(entry => this.toEntry(entry)),
+            pagination: { total, limit, offset, hasMore: offset + entries.length < total }
+        };
+    }
+
+    async getById(jobId: string) {
+        const entry = await this.getEntry(jobId);
+        const job = await Job.findOne({ jobId }).lean();
+        return { ...this.toEntry(entry), job };
+    }
+
+    /** Puts the job back on the main queue with a fresh set of attempts. */
+    async requeue(jobId: string) {
+        const entry = await this.getEntry(jobId);
+        const job = await Job.findOne({ jobId });
+        if (!job) {
+            // Job was deleted since (e.g. with its project); nothing left to run
+            await entry.remove();
+            throw new ApiError(404, 'Job not found');
+        }
+
+        job.status = JobStatus.PENDING;
+        job.error = undefined;
+        job.result = undefined;
+        job.attempts = 0;
+        job.startedAt = undefined;
+        job.completedAt = undefined;
+        job.progress = 0;
+        job.stage = undefined;
+        job.cancelRequestedAt = undefined;
+        await job.save();
+        await clearCancellation(jobId);
+
+        const { type, payload, userId, projectId, workspaceId, pipelineId, timeoutMs, idempotencyKey } = entry.data;
+        await requeueJob({ jobId, type, payload, userId, projectId, workspaceId, pipelineId, timeoutMs, idempotencyKey }, job.priority);
+        await publishJobEvent({ type: 'status', jobId, userId: job.userId, workspaceId: job.workspaceId, status: JobStatus.PENDING });
+
+        // Same as a retry: the jobs it skipped or failed run again once it completes
+        if (pipelineId) await jobService.reopenDownstream(jobId);
+
+        return job;
+    }
+
+    /** Drops one entry, or the whole queue. Job documents stay FAILED. */
+    async purge(jobId?: string) {
+        if (jobId) {
+            const entry = await this.getEntry(jobId);
+            await entry.remove();
+            return { purged: 1 };
+        }
+
+        const purged = await deadLetterQueue.getWaitingCount();
+        await deadLetterQueue.drain();
+        return { purged };
+    }
+
+    private async getEntry(jobId: string): Promise<BullJob<DeadLetterData>> {
+        const entry = await deadLetterQueue.getJob(jobId);
+        if (!entry) throw new ApiError(404, 'Dead-letter entry not found');
+        return entry;
+    }
+
+    private toEntry(entry: BullJob<DeadLetterData>) {
+        const { jobId, type, userId, projectId, workspaceId, failedReason, attemptsMade, failedAt } = entry.data;
+        return { jobId, type, userId, projectId, workspaceId, failedReason, attemptsMade, failedAt };
+    }
+}
+
+export default new DeadLetterService();
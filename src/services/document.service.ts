@@ -0,0 +1,281 @@
+import { randomUUID } from 'crypto';
+import * as Y from 'yjs';
+import prisma from '../config/prisma';
+import redis, { redisPub, nodeId } from '../config/redis';
+
+export const DOCUMENT_CHANNEL = 'document-events';
+
+const SNAPSHOT_INTERVAL_MS = parseInt(process.env.DOCUMENT_SNAPSHOT_INTERVAL_MS || '10000');
+const IDLE_UNLOAD_MS = 5 * 60 * 1000;
+// Longer than a snapshot takes; only guards against a node dying while holding the lock
+const SNAPSHOT_LOCK_MS = 30000;
+
+// Deletes the lock only if it still holds our token, so an expired lock taken over by another node stays
+const RELEASE_LOCK = `if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) end return 0`;
+
+// Name of the shared Y.Text holding a file's content; clients must bind to the same field
+export const TEXT_FIELD = 'content';
+
+export type DocumentMessageType = 'update' | 'awareness';
+
+// Shape of messages exchanged between nodes on DOCUMENT_CHANNEL
+export interface DocumentMessage {
+    type: DocumentMessageType;
+    nodeId: string;
+    socketId?: string;
+    workspaceId: string;
+    fileId: string;
+    data: string; // base64 encoded Yjs update / awareness update
+}
+
+// Tells every node to drop deleted files' documents, which could no longer be saved
+export interface DocumentDiscardMessage {
+    type: 'discard';
+    nodeId: string;
+    workspaceId: string;
+    fileIds: string[];
+}
+
+interface LoadedDocument {
+    workspaceId: string;
+    fileId: string;
+    doc: Y.Doc;
+    dirty: boolean;
+    lastAccess: number;
+}
+
+export class DocumentService {
+    private documents = new Map<string, LoadedDocument>();
+    private loading = new Map<string, Promise<LoadedDocument>>();
+    private snapshotTimer?: NodeJS.Timeout;
+
+    /**
+     * Returns the updates the client is missing (relative to its state vector)
+     * together with the server state vector, so the client can reply with
+     * whatever the server lacks. This is the Yjs two-step sync handshake.
+     */
+    async sync(workspaceId: string, fileId: string, stateVector?: Uint8Array) {
+        const { doc } = await this.load(workspaceId, fileId);
+        return {
+            update: Y.encodeStateAsUpdate(doc, stateVector),
+            stateVector: Y.encodeStateVector(doc)
+        };
+    }
+
+    async applyUpdate(workspaceId: string, fileId: string, update: Uint8Array, socketId?: string) {
+        const entry = await this.load(workspaceId, fileId);
+        Y.applyUpdate(entry.doc, update);
+        await this.distribute(entry, update, socketId);
+    }
+
+    async getText(workspaceId: string, fileId: string) {
+        const { doc } = await this.load(workspaceId, fileId);
+        return doc.getText(TEXT_FIELD).toString();
+    }
+
+    /** Reads the current text without keeping the document loaded, e.g. from a worker. */
+    async readText(workspaceId: string, fileId: string) {
+        const loaded = this.documents.get(this.key(workspaceId, fileId));
+        if (loaded) return loaded.doc.getText(TEXT_FIELD).toString();
+
+        const { doc } = await this.restore(workspaceId, fileId);
+        const text = doc.getText(TEXT_FIELD).toString();
+        doc.destroy();
+        return text;
+    }
+
+    /**
+     * Replaces the whole text as a regular CRDT edit, so connected editors
+     * receive it like any other update instead of being overwritten.
+     */
+    async setText(workspaceId: string, fileId: string, content: string) {
+        const entry = await this.load(workspaceId, fileId);
+        const before = Y.encodeStateVector(entry.doc);
+
+        entry.doc.transact(() => {
+            const text = entry.doc.getText(TEXT_FIELD);
+            text.delete(0, text.length);
+            text.insert(0, content);
+        });
+
+        await this.distribute(entry, Y.encodeStateAsUpdate(entry.doc, before));
+    }
+
+    /** Drops in-memory and pending state for files that were deleted, on every node. */
+    async discard(workspaceId: string, fileIds: string[]) {
+        if (fileIds.length === 0) return;
+
+        this.unload(workspaceId, fileIds);
+        await redis.del(...fileIds.map(fileId => this.pendingKey(workspaceId, fileId)));
+        const message: DocumentDiscardMessage = { type: 'discard', nodeId, workspaceId, fileIds };
+        await redisPub.publish(DOCUMENT_CHANNEL, JSON.stringify(message));
+    }
+
+    /** Drops documents from memory without saving them, e.g. on a discard from another node. */
+    unload(workspaceId: string, fileIds: string[]) {
+        for (const fileId of fileIds) {
+            const key = this.key(workspaceId, fileId);
+            this.documents.get(key)?.doc.destroy();
+            this.documents.delete(key);
+        }
+    }
+
+    async relayAwareness(workspaceId: string, fileId: string, update: Uint8Array, socketId?: string) {
+        const data = Buffer.from(update).toString('base64');
+        await this.publish({ type: 'awareness', nodeId, socketId, workspaceId, fileId, data });
+    }
+
+    /**
+     * Applies an update published by another node. Documents that are not loaded
+     * here are skipped; they pick the update up from Redis when loaded.
+     */
+    applyRemoteUpdate(message: DocumentMessage) {
+        if (message.type !== 'update' || message.nodeId === nodeId) return;
+
+        const entry = this.documents.get(this.key(message.workspaceId, message.fileId));
+        if (entry) Y.applyUpdate(entry.doc, Buffer.from(message.data, 'base64'));
+    }
+
+    startSnapshotting(intervalMs = SNAPSHOT_INTERVAL_MS) {
+        if (this.snapshotTimer) return;
+
+        this.snapshotTimer = setInterval(() => {
+            this.flush().catch(err => console.error('Document snapshot failed:', err));
+        }, intervalMs);
+        this.snapshotTimer.unref();
+    }
+
+    stopSnapshotting() {
+        if (this.snapshotTimer) clearInterval(this.snapshotTimer);
+        this.snapshotTimer = undefined;
+    }
+
+    /**
+     * Persists every dirty document and unloads the ones nobody touched recently.
+     * A document that fails to save doesn't hold up the others; one whose file
+     * is gone (e.g. the discard was missed) is unloaded instead of retried forever.
+     */
+    async flush() {
+        for (const [key, entry] of this.documents.entries()) {
+            if (entry.dirty) {
+                try {
+                    await this.snapshot(entry);
+                } catch (error) {
+                    const { workspaceId, fileId } = entry;
+                    const exists = await prisma.file.count({ where: { id: fileId, workspaceId } }).catch(() => 1);
+                    if (exists) console.error(`Failed to snapshot document ${key}:`, error);
+                    else this.unload(workspaceId, [fileId]);
+                }
+            } else if (Date.now() - entry.lastAccess > IDLE_UNLOAD_MS) {
+                this.documents.delete(key);
+                entry.doc.destroy();
+            }
+        }
+    }
+
+    /**
+     * Writes the document with its pending updates and trims those from Redis.
+     * Snapshots of the same document are serialized across nodes with a lock:
+     * otherwise two nodes could each trim the entries they read, dropping
+     * updates that arrived in between and are in neither snapshot. Resolves
+     * false, leaving the document dirty, when another node holds the lock.
+     */
+    async snapshot(entry: LoadedDocument) {
+        const { workspaceId, fileId, doc } = entry;
+        const pendingKey = this.pendingKey(workspaceId, fileId);
+        const lockKey = `document:snapshot-lock:${workspaceId}:${fileId}`;
+        const token = randomUUID();
+
+        if ((await redis.set(lockKey, token, 'PX', SNAPSHOT_LOCK_MS, 'NX')) !== 'OK') return false;
+
+        try {
+            const pending = await redis.lrange(pendingKey, 0, -1);
+            pending.forEach(data => Y.applyUpdate(doc, Buffer.from(data, 'base64')));
+            entry.dirty = false;
+
+            // Merge with what is stored in case another node snapshotted edits we never saw
+            const stored = await prisma.document.findUnique({ where: { workspaceId_fileId: { workspaceId, fileId } } });
+            const local = Y.encodeStateAsUpdate(doc);
+            const state = Buffer.from(stored ? Y.mergeUpdates([stored.state, local]) : local);
+
+            await prisma.document.upsert({
+                where: { workspaceId_fileId: { workspaceId, fileId } },
+                create: { workspaceId, fileId, state },
+                update: { state }
+            });
+
+            if (pending.length > 0) {
+                await redis.ltrim(pendingKey, pending.length, -1);
+            }
+            return true;
+        } catch (error) {
+            entry.dirty = true;
+            throw error;
+        } finally {
+            await redis.eval(RELEASE_LOCK, 1, lockKey, token);
+        }
+    }
+
+    private async load(workspaceId: string, fileId: string): Promise<LoadedDocument> {
+        const key = this.key(workspaceId, fileId);
+
+        const loaded = this.documents.get(key);
+        if (loaded) {
+            loaded.lastAccess = Date.now();
+            return loaded;
+        }
+
+        let pending = this.loading.get(key);
+        if (!pending) {
+            pending = this.loadFromStorage(workspaceId, fileId).finally(() => this.loading.delete(key));
+            this.loading.set(key, pending);
+        }
+        return pending;
+    }
+
+    private async loadFromStorage(workspaceId: string, fileId: string) {
+        const { doc, pendingCount } = await this.restore(workspaceId, fileId);
+
+        const entry: LoadedDocument = { workspaceId, fileId, doc, dirty: pendingCount > 0, lastAccess: Date.now() };
+        this.documents.set(this.key(workspaceId, fileId), entry);
+        return entry;
+    }
+
+    private async restore(workspaceId: string, fileId: string) {
+        // Read pending updates before the snapshot: a concurrent snapshot on another
+        // node trims the list only after writing, so nothing can fall in between.
+        const pending = await redis.lrange(this.pendingKey(workspaceId, fileId), 0, -1);
+        const stored = await prisma.document.findUnique({ where: { workspaceId_fileId: { workspaceId, fileId } } });
+
+        const doc = new Y.Doc();
+        if (stored) Y.applyUpdate(doc, stored.state);
+        pending.forEach(data => Y.applyUpdate(doc, Buffer.from(data, 'base64')));
+
+        return { doc, pendingCount: pending.length };
+    }
+
+    private async distribute(entry: LoadedDocument, update: Uint8Array, socketId?: string) {
+        const { workspaceId, fileId } = entry;
+        entry.dirty = true;
+
+        // Updates stay in Redis until a snapshot has absorbed them, so a node that
+        // loads the document before the next snapshot still sees every edit.
+        const data = Buffer.from(update).toString('base64');
+        await redis.rpush(this.pendingKey(workspaceId, fileId), data);
+        await this.publish({ type: 'update', nodeId, socketId, workspaceId, fileId, data });
+    }
+
+    private async publish(message: DocumentMessage) {
+        await redisPub.publish(DOCUMENT_CHANNEL, JSON.stringify(message));
+    }
+
+    private key(workspaceId: string, fileId: string) {
+        return `${workspaceId}:${fileId}`;
+    }
+
+    private pendingKey(workspaceId: string, fileId: string) {
+        return `document:pending:${workspaceId}:${fileId}`;
+    }
+}
+
+export default new DocumentService();
@@ -0,0 +1,180 @@
+import { File, FileType, Prisma } from '@prisma/client';
+import prisma from '../config/prisma';
+import { redisPub } from '../config/redis';
+import { ApiError } from '../middleware/error.middleware';
+import { CreateFileInput, UpdateFileInput } from '../schemas/validation.schemas';
+import documentService from './document.service';
+
+interface Actor {
+    id: string;
+    name: string;
+}
+
+// The unique indexes catch a sibling created between ensureNameAvailable and the write
+function rethrowNameTaken(error: unknown): never {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ApiError(409, 'A file with this name already exists here');
+    }
+    throw error;
+}
+
+export class FileService {
+    async list(workspaceId: string, parentId?: string) {
+        if (parentId) await this.getFolder(workspaceId, parentId);
+
+        return prisma.file.findMany({
+            where: { workspaceId, parentId: parentId ?? null },
+            orderBy: [{ type: 'asc' }, { name: 'asc' }]
+        });
+    }
+
+    async getById(workspaceId: string, fileId: string) {
+        const file = await prisma.file.findFirst({ where: { id: fileId, workspaceId } });
+        if (!file) throw new ApiError(404, 'File not found');
+        return file;
+    }
+
+    /** A file with content, as opposed to a folder; the only kind with a document. */
+    async getRegularFile(workspaceId: string, fileId: string) {
+        const file = await this.getById(workspaceId, fileId);
+        if (file.type !== FileType.FILE) throw new ApiError(400, 'Folders have no content');
+        return file;
+    }
+
+    async create(workspaceId: string, actor: Actor, input: CreateFileInput) {
+        const parentId = input.parentId ?? null;
+        if (input.type === FileType.FOLDER && input.content !== undefined) {
+            throw new ApiError(400, 'Folders cannot have content');
+        }
+
+        if (parentId) await this.getFolder(workspaceId, parentId);
+        await this.ensureNameAvailable(workspaceId, parentId, input.name);
+
+        const file = await prisma.file.create({
+            data: { workspaceId, parentId, name: input.name, type: input.type }
+        }).catch(rethrowNameTaken);
+
+        if (input.content !== undefined) {
+            await documentService.setText(workspaceId, file.id, input.content);
+        }
+
+        await this.emit('FILE_CREATE', workspaceId, actor, file);
+        return file;
+    }
+
+    /** Renames and/or moves a file or folder. */
+    async update(workspaceId: string, fileId: string, actor: Actor, input: UpdateFileInput) {
+        const file = await this.getById(workspaceId, fileId);
+
+        const name = input.name ?? file.name;
+        const parentId = input.parentId !== undefined ? input.parentId : file.parentId;
+        const moved = parentId !== file.parentId;
+
+        if (moved && parentId) {
+            await this.getFolder(workspaceId, parentId);
+            if (file.type === FileType.FOLDER) await this.ensureNotDescendant(file.id, parentId);
+        }
+
+        if (moved || name !== file.name) {
+            await this.ensureNameAvailable(workspaceId, parentId, name, file.id);
+        }
+
+        const updated = await prisma.file.update({
+            where: { id: file.id },
+            data: { name, parentId }
+        }).catch(rethrowNameTaken);
+
+        await this.emit(moved ? 'FILE_MOVE' : 'FILE_RENAME', workspaceId, actor, updated, {
+            previousName: file.name,
+            previousParentId: file.parentId
+        });
+        return updated;
+    }
+
+    async delete(workspaceId: string, fileId: string, actor: Actor) {
+        const file = await this.getById(workspaceId, fileId);
+        const removedIds = await this.collectSubtree(file.id);
+
+        // Children and document snapshots go with it through cascading deletes
+        await prisma.file.delete({ where: { id: file.id } });
+        await documentService.discard(workspaceId, removedIds);
+
+        await this.emit('FILE_DELETE', workspaceId, actor, file, { removedIds });
+        return { message: 'File deleted', removedIds };
+    }
+
+    async getContent(workspaceId: string, fileId: string) {
+        const file = await this.getRegularFile(workspaceId, fileId);
+        const content = await documentService.getText(workspaceId, file.id);
+        return { fileId: file.id, content };
+    }
+
+    async writeContent(workspaceId: string, fileId: string, actor: Actor, content: string) {
+        const file = await this.getRegularFile(workspaceId, fileId);
+        await documentService.setText(workspaceId, file.id, content);
+
+        await prisma.file.update({ where: { id: file.id }, data: { updatedAt: new Date() } });
+        await this.emit('FILE_CHANGE', workspaceId, actor, file);
+        return { fileId: file.id, content };
+    }
+
+    private async getFolder(workspaceId: string, folderId: string) {
+        const folder = await prisma.file.findFirst({ where: { id: folderId, workspaceId } });
+        if (!folder) throw new ApiError(404, 'Parent folder not found');
+        if (folder.type !== FileType.FOLDER) throw new ApiError(400, 'Parent must be a folder');
+        return folder;
+    }
+
+    private async ensureNameAvailable(workspaceId: string, parentId: string | null, name: string, excludeId?: string) {
+        const sibling = await prisma.file.findFirst({
+            where: { workspaceId, parentId, name, ...(excludeId && { id: { not: excludeId } }) },
+            select: { id: true }
+        });
+        if (sibling) throw new ApiError(409, 'A file with this name already exists here');
+    }
+
+    // Walks up from the target folder; finding the moved folder means a cycle
+    private async ensureNotDescendant(folderId: string, targetId: string) {
+        let current: string | null = targetId;
+        while (current) {
+            if (current === folderId) throw new ApiError(400, 'Cannot move a folder into itself');
+            const parent: { parentId: string | null } | null = await prisma.file.findUnique({
+                where: { id: current },
+                select: { parentId: true }
+            });
+            current = parent?.parentId ?? null;
+        }
+    }
+
+    private async collectSubtree(rootId: string) {
+        const ids = [rootId];
+        let frontier = [rootId];
+        while (frontier.length > 0) {
+            const children = await prisma.file.findMany({
+                where: { parentId: { in: frontier } },
+                select: { id: true }
+            });
+            frontier = children.map(child => child.id);
+            ids.push(...frontier);
+        }
+        return ids;
+    }
+
+    private async emit(type: string, workspaceId: string, actor: Actor, file: File, extra: Record<string, unknown> = {}) {
+        const event = {
+            type,
+            userId: actor.id,
+            userName: actor.name,
+            workspaceId,
+            fileId: file.id,
+            file,
+            ...extra,
+            timestamp: new Date().toISOString()
+        };
+
+        // Every node (this one included) relays workspace-events to its sockets
+        await redisPub.publish('workspace-events', JSON.stringify(event));
+    }
+}
+
+export default new FileService();
@@ -1,80 +1,283 @@
 import { v4 as uuidv4 } from 'uuid';
-import { Job, JobStatus, JobType } from '../models/job.model';
-import { addJob, getQueueStats, jobQueue } from '../queues/job.queue';
+import { FilterQuery, Types } from 'mongoose';
+import prisma from '../config/prisma';
+import { IJob, Job, JobStatus, JobType } from '../models/job.model';
+import { Pipeline } from '../models/pipeline.model';
+import { addJob, getQueueStats, jobQueue, requeueJob } from '../queues/job.queue';
+import { publishJobEvent } from '../queues/job.events';
+import { clearCancellation, requestCancellation } from '../queues/job.cancellation';
 import { ApiError } from '../middleware/error.middleware';
+import { getProjectRole } from '../middleware/auth.middleware';
+import { fingerprint, IDEMPOTENCY_TTL_SECONDS } from '../middleware/idempotency.middleware';
 import { CreateJobInput } from '../schemas/validation.schemas';
+import quotaService from './quota.service';
+import artifactService from './artifact.service';
+
+export interface JobFilter {
+    status?: JobStatus;
+    type?: JobType;
+    scheduleId?: string;
+    minPriority?: number;
+    maxPriority?: number;
+    /** Bounds on createdAt */
+    from?: Date;
+    to?: Date;
+    /** Words matched against the job's text: payload, result, error and logs */
+    search?: string;
+}
+
+export type JobSortField = 'createdAt' | 'updatedAt' | 'priority';
+
+export interface JobListOptions extends JobFilter {
+    sort?: JobSortField;
+    order?: 'asc' | 'desc';
+    limit?: number;
+    /** Opaque nextCursor of the previous page */
+    cursor?: string;
+    offset?: number;
+}
+
+const FINISHED_STATUSES = [JobStatus.COMPLETED, JobStatus.FAILED, JobStatus.CANCELLED, JobStatus.SKIPPED];
+const RETRYABLE_STATUSES = [JobStatus.FAILED, JobStatus.CANCELLED];
+
+// Jobs touched by one bulk request; callers repeat the request while hasMore is set
+const BULK_LIMIT = 500;
 
 export class JobService {
     async create(userId: string, input: CreateJobInput) {
         const jobId = uuidv4();
+        const { type, payload, priority, projectId, workspaceId, timeoutMs, idempotencyKey } = input;
+        const idempotencyHash = idempotencyKey ? fingerprint({ type, payload, priority, projectId, workspaceId, timeoutMs }) : undefined;
 
-        if (input.idempotencyKey) {
-            const existing = await Job.findOne({ idempotencyKey: input.idempotencyKey, userId });
-            if (existing) return { job: existing, duplicate: true };
+        if (idempotencyKey) {
+            const existing = await this.findByIdempotencyKey(userId, idempotencyKey);
+            if (existing) return this.replay(existing, idempotencyHash!);
         }
 
-        const job = await Job.create({
-            jobId,
-            type: input.type as JobType,
-            status: JobStatus.PENDING,
-            payload: input.payload,
-            priority: input.priority || 5,
-            idempotencyKey: input.idempotencyKey,
-            userId,
-            maxAttempts: 3
-        });
+        await this.ensureScope(input);
+        await quotaService.check(userId, input);
 
-        await addJob({ jobId, type: input.type, payload: input.payload, userId, idempotencyKey: input.idempotencyKey }, input.priority);
+        let job: IJob;
+        try {
+            job = await Job.create({
+                jobId,
+                type: type as JobType,
+                status: JobStatus.PENDING,
+                payload,
+                priority: priority || 5,
+                timeoutMs,
+                idempotencyKey,
+                idempotencyHash,
+                userId,
+                projectId,
+                workspaceId,
+                maxAttempts: 3
+            });
+        } catch (error) {
+            // A concurrent request with the same key got in first
+            if (!idempotencyKey || (error as { code?: number }).code !== 11000) throw error;
+            const existing = await Job.findOne({ userId, idempotencyKey });
+            if (!existing) throw error;
+            return this.replay(existing, idempotencyHash!);
+        }
+
+        await addJob({ jobId, type, payload, userId, projectId, workspaceId, timeoutMs, idempotencyKey }, priority);
+        await publishJobEvent({ type: 'status', jobId, userId, workspaceId, status: JobStatus.PENDING });
 
         return { job, duplicate: false };
     }
 
+    /** Keys expire IDEMPOTENCY_TTL_SECONDS after the job was created; an expired key is released for reuse. */
+    private async findByIdempotencyKey(userId: string, idempotencyKey: string) {
+        const existing = await Job.findOne({ userId, idempotencyKey });
+        if (!existing) return null;
+        if (existing.createdAt.getTime() + IDEMPOTENCY_TTL_SECONDS * 1000 > Date.now()) return existing;
+
+        await Job.updateOne({ jobId: existing.jobId }, { $unset: { idempotencyKey: 1, idempotencyHash: 1 } });
+        return null;
+    }
+
+    // Jobs created before hashes were stored can't be compared, so they always match
+    private replay(existing: IJob, idempotencyHash: string) {
+        if (existing.idempotencyHash && existing.idempotencyHash !== idempotencyHash) {
+            throw new ApiError(409, 'Idempotency key was already used with a different request');
+        }
+        return { job: existing, duplicate: true };
+    }
+
+    /** Owners see their jobs; project members also see jobs scoped to the project. */
     async getById(jobId: string, userId: string) {
-        const job = await Job.findOne({ jobId, userId });
-        if (!job) throw new ApiError(404, 'Job not found');
+        const job = await Job.findOne({ jobId });
+        if (!job || !(await this.canView(job, userId))) throw new ApiError(404, 'Job not found');
         return job;
     }
 
-    async getAllForUser(userId: string, options: { status?: JobStatus; type?: JobType; limit?: number; offset?: number } = {}) {
-        const query: Record<string, unknown> = { userId };
-        if (options.status) query.status = options.status;
-        if (options.type) query.type = options.type;
+    async getAllForUser(userId: string, options: JobListOptions = {}) {
+        return this.list({ userId }, options);
+    }
+
+    async getAllForProject(projectId: string, options: JobListOptions = {}) {
+        return this.list({ projectId }, options);
+    }
+
+    async getAllForWorkspace(workspaceId: string, options: JobListOptions = {}) {
+        return this.list({ workspaceId }, options);
+    }
+
+    /** Removes every job and pipeline scoped to a project, including anything still queued and stored artifacts. */
+    async deleteForProject(projectId: string) {
+        const pending = await Job.find({ projectId, status: JobStatus.PENDING }).select('jobId').lean();
+
+        for (const { jobId } of pending) {
+            try {
+                const bullJob = await jobQueue.getJob(jobId);
+                if (bullJob) await bullJob.remove();
+            } catch (error) {
+                console.error('Failed to remove job from queue:', error);
+            }
+        }
+
+        const withArtifacts = await Job.find({ projectId, 'artifacts.0': { $exists: true } }).select('artifacts').lean();
+        await artifactService.remove(withArtifacts.flatMap(job => job.artifacts));
+
+        const { deletedCount } = await Job.deleteMany({ projectId });
+        await Pipeline.deleteMany({ projectId });
+        return deletedCount;
+    }
+
+    /**
+     * Deletes the user's finished jobs matching the filter, with their artifacts.
+     * Pending and running jobs are left alone, they have to be cancelled first.
+     */
+    async bulkDelete(userId: string, filter: JobFilter) {
+        if (filter.status && !FINISHED_STATUSES.includes(filter.status)) {
+            throw new ApiError(400, 'Only finished jobs can be deleted');
+        }
+
+        const query = this.buildQuery({ userId }, { ...filter, status: undefined });
+        query.status = filter.status ?? { $in: FINISHED_STATUSES };
+
+        const jobs = await Job.find(query).select('jobId artifacts').limit(BULK_LIMIT).lean();
+        if (jobs.length === 0) return { deleted: 0, hasMore: false };
+
+        await artifactService.remove(jobs.flatMap(job => job.artifacts));
+        const { deletedCount } = await Job.deleteMany({ jobId: { $in: jobs.map(job => job.jobId) } });
+        return { deleted: deletedCount, hasMore: jobs.length === BULK_LIMIT };
+    }
+
+    /** Retries the user's failed and cancelled jobs matching the filter, one by one. */
+    async bulkRetry(userId: string, filter: JobFilter) {
+        if (filter.status && !RETRYABLE_STATUSES.includes(filter.status)) {
+            throw new ApiError(400, 'Can only retry failed or cancelled jobs');
+        }
+
+        const query = this.buildQuery({ userId }, { ...filter, status: undefined });
+        query.status = filter.status ?? { $in: RETRYABLE_STATUSES };
+
+        const jobs = await Job.find(query).select('jobId').sort({ createdAt: 1 }).limit(BULK_LIMIT).lean();
+        const failed: Array<{ jobId: string; error: string }> = [];
+        for (const { jobId } of jobs) {
+            try {
+                await this.retry(jobId, userId);
+            } catch (error) {
+                failed.push({ jobId, error: (error as Error).message });
+            }
+        }
+
+        return { retried: jobs.length - failed.length, failed, hasMore: jobs.length === BULK_LIMIT };
+    }
 
+    /**
+     * Pages with an opaque cursor by default: the next page starts after the last
+     * job's sort value, with _id breaking ties, so it can use the scope indexes
+     * instead of skipping. Passing offset keeps the old skip/total behaviour.
+     */
+    private async list(scope: Record<string, unknown>, options: JobListOptions) {
+        const query = this.buildQuery(scope, options);
+        const sort = options.sort || 'createdAt';
+        const direction = options.order === 'asc' ? 1 : -1;
         const limit = Math.min(options.limit || 20, 100);
-        const offset = options.offset || 0;
 
-        const [jobs, total] = await Promise.all([
-            Job.find(query).sort({ createdAt: -1 }).skip(offset).limit(limit).lean(),
-            Job.countDocuments(query)
-        ]);
+        if (options.offset !== undefined) {
+            const offset = options.offset;
+            const [jobs, total] = await Promise.all([
+                Job.find(query).sort({ [sort]: direction, _id: direction }).skip(offset).limit(limit).lean(),
+                Job.countDocuments(query)
+            ]);
+            return {
+                jobs,
+                pagination: { total, limit, offset, hasMore: offset + jobs.length < total }
+            };
+        }
 
+        if (options.cursor) {
+            const after = decodeCursor(options.cursor, sort);
+            const op = direction === 1 ? '$gt' : '$lt';
+            query.$or = [{ [sort]: { [op]: after.value } }, { [sort]: after.value, _id: { [op]: after.id } }];
+        }
+
+        // One extra job tells whether there is a next page
+        const jobs = await Job.find(query).sort({ [sort]: direction, _id: direction }).limit(limit + 1).lean();
+        const hasMore = jobs.length > limit;
+        if (hasMore) jobs.pop();
+
+        const last = jobs[jobs.length - 1];
         return {
             jobs,
-            pagination: { total, limit, offset, hasMore: offset + jobs.length < total }
+            pagination: { limit, hasMore, nextCursor: hasMore ? encodeCursor(sort, last[sort], last._id) : null }
         };
     }
 
+    private buildQuery(scope: Record<string, unknown>, filter: JobFilter) {
+        const query: FilterQuery<IJob> = { ...scope };
+        if (filter.status) query.status = filter.status;
+        if (filter.type) query.type = filter.type;
+        if (filter.scheduleId) query.scheduleId = filter.scheduleId;
+        if (filter.minPriority !== undefined || filter.maxPriority !== undefined) {
+            query.priority = {
+                ...(filter.minPriority !== undefined && { $gte: filter.minPriority }),
+                ...(filter.maxPriority !== undefined && { $lte: filter.maxPriority })
+            };
+        }
+        if (filter.from || filter.to) {
+            query.createdAt = { ...(filter.from && { $gte: filter.from }), ...(filter.to && { $lte: filter.to }) };
+        }
+        if (filter.search) query.$text = { $search: filter.search };
+        return query;
+    }
+
+    /**
+     * Pending jobs are cancelled on the spot. Running jobs are signalled through
+     * Redis and become CANCELLED once the worker has stopped the executor.
+     */
     async cancel(jobId: string, userId: string) {
         const job = await Job.findOne({ jobId, userId });
         if (!job) throw new ApiError(404, 'Job not found');
-        if (job.status !== JobStatus.PENDING) throw new ApiError(400, 'Can only cancel pending jobs');
 
-        // Remove from BullMQ queue
+        if (job.status === JobStatus.PROCESSING) {
+            await requestCancellation(jobId);
+            job.cancelRequestedAt = new Date();
+            await job.save();
+            return { message: 'Cancellation requested' };
+        }
+        if (job.status !== JobStatus.PENDING) throw new ApiError(400, 'Can only cancel pending or processing jobs');
+
+        // Pipeline jobs still waiting on upstream jobs aren't in the queue yet
         try {
             const bullJob = await jobQueue.getJob(jobId);
-            if (bullJob) {
-                await bullJob.remove();
-            }
+            if (bullJob) await bullJob.remove();
         } catch (error) {
+            // Picked up by a worker in the meantime; make sure it stops
             console.error('Failed to remove job from queue:', error);
+            await requestCancellation(jobId);
         }
 
-        // Update MongoDB status
-        job.status = JobStatus.FAILED;
-        job.error = 'Cancelled by user';
+        job.status = JobStatus.CANCELLED;
         job.completedAt = new Date();
         await job.save();
+        await publishJobEvent({ type: 'status', jobId, userId, workspaceId: job.workspaceId, status: job.status });
 
+        await this.settleDownstream(jobId);
         return { message: 'Job cancelled' };
     }
 
@@ -84,14 +287,43 @@ export class JobService {
             getQueueStats()
         ]);
 
-        const user = userStats.reduce((acc, s) => ({ ...acc, [s._id]: s.count }), {} as Record<string, number>);
+        const user = Object.fromEntries(Object.values(JobStatus).map(status => [status, 0])) as Record<string, number>;
+        userStats.forEach(s => { user[s._id] = s.count; });
         return { user, queue: queueStats };
     }
 
+    /**
+     * Marks everything downstream of a failed or cancelled pipeline job as skipped
+     * or failed, following each job's onUpstreamFailure. Those jobs were never
+     * queued, as downstream jobs are only queued once their upstream jobs complete.
+     */
+    async settleDownstream(jobId: string) {
+        const upstream = await Job.findOne({ jobId }).select('pipelineId pipelineKey status').lean();
+        if (!upstream?.pipelineId) return;
+
+        const downstream = await Job.find({ pipelineId: upstream.pipelineId, dependsOn: jobId, status: JobStatus.PENDING });
+        for (const job of downstream) {
+            job.status = job.onUpstreamFailure === 'fail' ? JobStatus.FAILED : JobStatus.SKIPPED;
+            job.error = `Upstream job "${upstream.pipelineKey}" ${upstream.status}`;
+            job.completedAt = new Date();
+            await job.save();
+            await publishJobEvent({ type: 'status', jobId: job.jobId, userId: job.userId, workspaceId: job.workspaceId, status: job.status, error: job.error });
+
+            await this.settleDownstream(job.jobId);
+        }
+    }
+
     async retry(jobId: string, userId: string) {
         const job = await Job.findOne({ jobId, userId });
         if (!job) throw new ApiError(404, 'Job not found');
-        if (job.status !== JobStatus.FAILED) throw new ApiError(400, 'Can only retry failed jobs');
+        if (job.status !== JobStatus.FAILED && job.status !== JobStatus.CANCELLED) {
+            throw new ApiError(400, 'Can only retry failed or cancelled jobs');
+        }
+        // It would run without its upstream results; retrying the upstream job reopens it instead
+        if (job.dependsOn.length > 0) {
+            const unfinished = await Job.countDocuments({ jobId: { $in: job.dependsOn }, status: { $ne: JobStatus.COMPLETED } });
+            if (unfinished > 0) throw new ApiError(400, 'Can only retry a pipeline job once its upstream jobs have completed');
+        }
 
         job.status = JobStatus.PENDING;
         job.error = undefined;
@@ -99,12 +331,84 @@ export class JobService {
         job.attempts = 0;
         job.startedAt = undefined;
         job.completedAt = undefined;
+        job.progress = 0;
+        job.stage = undefined;
+        job.cancelRequestedAt = undefined;
         await job.save();
+        await clearCancellation(jobId);
+
+        const { projectId, workspaceId, pipelineId } = job;
+        const timeoutMs = job.timeoutMs ?? undefined;
+        await requeueJob({ jobId: job.jobId, type: job.type, payload: job.payload as Record<string, unknown>, userId, projectId, workspaceId, pipelineId, timeoutMs, idempotencyKey: job.idempotencyKey }, job.priority);
+        await publishJobEvent({ type: 'status', jobId, userId, workspaceId, status: JobStatus.PENDING });
 
-        await addJob({ jobId: job.jobId, type: job.type, payload: job.payload as Record<string, unknown>, userId, idempotencyKey: job.idempotencyKey }, job.priority);
+        // Queued again by the worker once this job completes
+        if (pipelineId) await this.reopenDownstream(jobId);
 
         return job;
     }
+
+    /**
+     * Undoes settleDownstream for a retried pipeline job: the jobs it settled go
+     * back to pending, unless another of their upstream jobs also failed.
+     * Jobs that ran and failed on their own are left alone.
+     */
+    async reopenDownstream(jobId: string) {
+        const downstream = await Job.find({ dependsOn: jobId, status: { $in: [JobStatus.SKIPPED, JobStatus.FAILED] }, startedAt: null });
+        for (const job of downstream) {
+            const blocked = await Job.countDocuments({
+                jobId: { $in: job.dependsOn.filter(id => id !== jobId) },
+                status: { $in: [JobStatus.FAILED, JobStatus.CANCELLED, JobStatus.SKIPPED] }
+            });
+            if (blocked > 0) continue;
+
+            job.status = JobStatus.PENDING;
+            job.error = undefined;
+            job.completedAt = undefined;
+            await job.save();
+            await publishJobEvent({ type: 'status', jobId: job.jobId, userId: job.userId, workspaceId: job.workspaceId, status: job.status });
+
+            await this.reopenDownstream(job.jobId);
+        }
+    }
+
+    /** Project access itself is checked by the route; this only validates the pairing. */
+    async ensureScope(input: { projectId?: string; workspaceId?: string }) {
+        if (!input.workspaceId) return;
+
+        const workspace = await prisma.workspace.findUnique({
+            where: { id: input.workspaceId },
+            select: { projectId: true }
+        });
+        if (!workspace || workspace.projectId !== input.projectId) {
+            throw new ApiError(400, 'Workspace does not belong to this project');
+        }
+    }
+
+    /** Jobs and pipelines are visible to their owner and, when project-scoped, to its members. */
+    async canView(resource: { userId: string; projectId?: string }, userId: string) {
+        if (resource.userId === userId) return true;
+        if (!resource.projectId) return false;
+        return (await getProjectRole(userId, resource.projectId)) !== null;
+    }
+}
+
+// Cursors carry the sort field so a cursor from one ordering can't be used with another
+function encodeCursor(sort: JobSortField, value: unknown, id: unknown) {
+    return Buffer.from(JSON.stringify([sort, value, String(id)])).toString('base64url');
+}
+
+function decodeCursor(cursor: string, sort: JobSortField) {
+    try {
+        const [field, value, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+        const after = sort === 'priority' ? Number(value) : new Date(value);
+        if (field === sort && value !== null && !isNaN(Number(after)) && Types.ObjectId.isValid(id)) {
+            return { value: after, id: new Types.ObjectId(id) };
+        }
+    } catch {
+        // Falls through to the 400 below
+    }
+    throw new ApiError(400, 'Invalid cursor');
 }
 
 export default new JobService();
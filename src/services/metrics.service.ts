@@ -0,0 +1,112 @@
+import { AccumulatorOperator, PipelineStage } from 'mongoose';
+import { Job, JobStatus, JobType } from '../models/job.model';
+import { ApiError } from '../middleware/error.middleware';
+
+export type MetricsInterval = 'hour' | 'day';
+
+export interface MetricsOptions {
+    interval?: MetricsInterval;
+    from?: Date;
+    to?: Date;
+    type?: JobType;
+}
+
+const INTERVAL_MS: Record<MetricsInterval, number> = { hour: 60 * 60 * 1000, day: 24 * 60 * 60 * 1000 };
+const DEFAULT_WINDOW_MS = 7 * INTERVAL_MS.day;
+// Per job type, so a window can't produce an unbounded response
+const MAX_BUCKETS = 744;
+
+interface BucketGroup {
+    _id: { type: JobType; start: Date };
+    submitted: number;
+    started: number;
+    retried: number;
+    completed: number;
+    failed: number;
+    cancelled: number;
+    queueWait: Array<number | null> | null;
+    runDuration: Array<number | null> | null;
+}
+
+/**
+ * Time-bucketed job analytics computed from the Job collection. Jobs are
+ * bucketed by creation time; queue wait is startedAt - createdAt and run
+ * duration completedAt - startedAt, both from the last attempt.
+ */
+export class MetricsService {
+    async getForUser(userId: string, options: MetricsOptions = {}) {
+        return this.compute({ userId }, options);
+    }
+
+    async getForProject(projectId: string, options: MetricsOptions = {}) {
+        return this.compute({ projectId }, options);
+    }
+
+    async getGlobal(options: MetricsOptions = {}) {
+        return this.compute({}, options);
+    }
+
+    private async compute(scope: Record<string, string>, options: MetricsOptions) {
+        const interval = options.interval || 'day';
+        const to = options.to || new Date();
+        const from = options.from || new Date(to.getTime() - DEFAULT_WINDOW_MS);
+        if (from >= to) throw new ApiError(400, 'from must be before to');
+        if ((to.getTime() - from.getTime()) / INTERVAL_MS[interval] > MAX_BUCKETS) {
+            throw new ApiError(400, `Window is too large, at most ${MAX_BUCKETS} ${interval} buckets`);
+        }
+
+        const match: Record<string, unknown> = { ...scope, createdAt: { $gte: from, $lt: to } };
+        if (options.type) match.type = options.type;
+
+        const countIf = (condition: unknown) => ({ $sum: { $cond: [condition, 1, 0] } });
+        // $percentile needs MongoDB 7, and Mongoose's typings don't know it yet
+        const percentiles = (input: unknown) => ({ $percentile: { input, p: [0.5, 0.95], method: 'approximate' } }) as unknown as AccumulatorOperator;
+
+        const pipeline: PipelineStage[] = [
+            { $match: match },
+            {
+                $group: {
+                    _id: { type: '$type', start: { $dateTrunc: { date: '$createdAt', unit: interval } } },
+                    submitted: { $sum: 1 },
+                    started: countIf({ $gt: ['$startedAt', null] }),
+                    retried: countIf({ $gt: ['$attempts', 1] }),
+                    completed: countIf({ $eq: ['$status', JobStatus.COMPLETED] }),
+                    failed: countIf({ $eq: ['$status', JobStatus.FAILED] }),
+                    cancelled: countIf({ $eq: ['$status', JobStatus.CANCELLED] }),
+                    // Non-numeric values (jobs that never started or finished) are ignored
+                    queueWait: percentiles({ $subtract: ['$startedAt', '$createdAt'] }),
+                    runDuration: percentiles({ $subtract: ['$completedAt', '$startedAt'] })
+                }
+            },
+            { $sort: { '_id.start': 1, '_id.type': 1 } }
+        ];
+
+        const groups = await Job.aggregate<BucketGroup>(pipeline);
+        return { interval, from, to, buckets: groups.map(group => this.toBucket(group)) };
+    }
+
+    private toBucket(group: BucketGroup) {
+        const finished = group.completed + group.failed;
+        const ms = (values: Array<number | null> | null) => ({ p50: round(values?.[0]), p95: round(values?.[1]) });
+
+        return {
+            start: group._id.start,
+            type: group._id.type,
+            submitted: group.submitted,
+            completed: group.completed,
+            failed: group.failed,
+            cancelled: group.cancelled,
+            // Cancelled jobs neither succeeded nor failed
+            successRate: finished ? group.completed / finished : null,
+            retryRate: group.started ? group.retried / group.started : null,
+            queueWaitMs: ms(group.queueWait),
+            runDurationMs: ms(group.runDuration)
+        };
+    }
+}
+
+function round(value: number | null | undefined) {
+    return typeof value === 'number' ? Math.round(value) : null;
+}
+
+export default new MetricsService();
@@ -0,0 +1,169 @@
+import bcrypt from 'bcrypt';
+import crypto from 'crypto';
+import prisma from '../config/prisma';
+import { ApiError } from '../middleware/error.middleware';
+
+const ISSUER = process.env.MFA_ISSUER || 'Collaborative Workspace';
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+// Also accept the neighbouring codes, for clock drift between the authenticator and the server
+const DRIFT_STEPS = 1;
+const RECOVERY_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export function base32Encode(buffer: Buffer) {
+    let bits = '';
+    for (const byte of buffer) bits += byte.toString(2).padStart(8, '0');
+
+    let output = '';
+    for (let i = 0; i < bits.length; i += 5) {
+        output += BASE32_ALPHABET[parseInt(bits.slice(i, i + 5).padEnd(5, '0'), 2)];
+    }
+    return output;
+}
+
+export function base32Decode(input: string) {
+    let bits = '';
+    for (const char of input.replace(/=+$/, '').toUpperCase()) {
+        const value = BASE32_ALPHABET.indexOf(char);
+        if (value === -1) throw new Error('Invalid base32 character');
+        bits += value.toString(2).padStart(5, '0');
+    }
+
+    const bytes = [];
+    for (let i = 0; i + 8 <= bits.length; i += 8) bytes.push(parseInt(bits.slice(i, i + 8), 2));
+    return Buffer.from(bytes);
+}
+
+/** RFC 6238 code for a time step: RFC 4226 HOTP with HMAC-SHA1 over the step counter. */
+export function generateTotp(secret: string, step: number) {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+
+    const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+    const offset = hmac[hmac.length - 1] & 0xf;
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+    return (binary % 10 ** DIGITS).toString().padStart(DIGITS, '0');
+}
+
+/** The time step the code belongs to within the drift window, or null if it matches none. */
+export function matchTotp(secret: string, code: string, now = Date.now()) {
+    if (!/^\d{6}$/.test(code)) return null;
+
+    const current = Math.floor(now / 1000 / STEP_SECONDS);
+    for (let step = current - DRIFT_STEPS; step <= current + DRIFT_STEPS; step++) {
+        if (crypto.timingSafeEqual(Buffer.from(generateTotp(secret, step)), Buffer.from(code))) return step;
+    }
+    return null;
+}
+
+/**
+ * TOTP second factor. Enrollment stores a secret that only takes effect once
+ * the user confirms a code from it; confirming also issues recovery codes,
+ * each usable once in place of a TOTP code.
+ */
+export class MfaService {
+    async enroll(userId: string) {
+        const user = await this.getUser(userId);
+        if (user.mfaEnabled) throw new ApiError(409, 'MFA is already enabled');
+
+        const secret = base32Encode(crypto.randomBytes(20));
+        await prisma.user.update({ where: { id: userId }, data: { mfaSecret: secret, mfaLastStep: null } });
+
+        const label = encodeURIComponent(`${ISSUER}:${user.email}`);
+        const otpauthUrl = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(ISSUER)}` +
+            `&algorithm=SHA1&digits=${DIGITS}&period=${STEP_SECONDS}`;
+        return { secret, otpauthUrl };
+    }
+
+    async confirm(userId: string, code: string) {
+        const user = await this.getUser(userId);
+        if (user.mfaEnabled) throw new ApiError(409, 'MFA is already enabled');
+        if (!user.mfaSecret) throw new ApiError(400, 'Start MFA enrollment first');
+
+        if (!(await this.consumeTotp(user.id, user.mfaSecret, code))) throw new ApiError(400, 'Invalid code');
+
+        await prisma.user.update({ where: { id: userId }, data: { mfaEnabled: true } });
+        const recoveryCodes = await this.issueRecoveryCodes(userId);
+        return { message: 'MFA enabled', recoveryCodes };
+    }
+
+    /** Checks a TOTP code or an unused recovery code; either is used up on success. */
+    async verifyCode(userId: string, code: string) {
+        const user = await this.getUser(userId);
+        if (!user.mfaEnabled || !user.mfaSecret) return false;
+
+        if (/^\d{6}$/.test(code)) return this.consumeTotp(user.id, user.mfaSecret, code);
+        return this.consumeRecoveryCode(user.id, code);
+    }
+
+    async disable(userId: string, password: string, code: string) {
+        const user = await this.getUser(userId);
+        if (!user.mfaEnabled) throw new ApiError(400, 'MFA is not enabled');
+
+        const valid = user.password !== null && await bcrypt.compare(password, user.password);
+        if (!valid) throw new ApiError(401, 'Password is incorrect');
+        if (!(await this.verifyCode(userId, code))) throw new ApiError(401, 'Invalid code');
+
+        await prisma.user.update({ where: { id: userId }, data: { mfaEnabled: false, mfaSecret: null, mfaLastStep: null } });
+        await prisma.recoveryCode.deleteMany({ where: { userId } });
+        return { message: 'MFA disabled' };
+    }
+
+    /** Replaces every recovery code, used or not. */
+    async regenerateRecoveryCodes(userId: string, code: string) {
+        const user = await this.getUser(userId);
+        if (!user.mfaEnabled) throw new ApiError(400, 'MFA is not enabled');
+        if (!(await this.verifyCode(userId, code))) throw new ApiError(401, 'Invalid code');
+
+        const recoveryCodes = await this.issueRecoveryCodes(userId);
+        return { recoveryCodes };
+    }
+
+    private async getUser(userId: string) {
+        const user = await prisma.user.findUnique({ where: { id: userId } });
+        if (!user) throw new ApiError(404, 'User not found');
+        return user;
+    }
+
+    // Conditional on the last used step, so the same code can't be accepted twice
+    private async consumeTotp(userId: string, secret: string, code: string) {
+        const step = matchTotp(secret, code);
+        if (step === null) return false;
+
+        const { count } = await prisma.user.updateMany({
+            where: { id: userId, OR: [{ mfaLastStep: null }, { mfaLastStep: { lt: step } }] },
+            data: { mfaLastStep: step }
+        });
+        return count === 1;
+    }
+
+    private async consumeRecoveryCode(userId: string, code: string) {
+        const { count } = await prisma.recoveryCode.updateMany({
+            where: { userId, codeHash: hashRecoveryCode(code), usedAt: null },
+            data: { usedAt: new Date() }
+        });
+        return count === 1;
+    }
+
+    private async issueRecoveryCodes(userId: string) {
+        const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+            const hex = crypto.randomBytes(5).toString('hex');
+            return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+        });
+
+        await prisma.$transaction([
+            prisma.recoveryCode.deleteMany({ where: { userId } }),
+            prisma.recoveryCode.createMany({ data: codes.map(code => ({ userId, codeHash: hashRecoveryCode(code) })) })
+        ]);
+        return codes;
+    }
+}
+
+// Codes are compared without the dash and case-insensitively, as users retype them
+function hashRecoveryCode(code: string) {
+    return crypto.createHash('sha256').update(code.replace(/[\s-]/g, '').toLowerCase()).digest('hex');
+}
+
+export default new MfaService();
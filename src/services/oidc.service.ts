@@ -0,0 +1,322 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import prisma from '../config/prisma';
+import redis from '../config/redis';
+import { ApiError } from '../middleware/error.middleware';
+import { normalizeEmail } from '../schemas/validation.schemas';
+import projectService from './project.service';
+
+// The client page the provider sends the user back to; it posts ?code and ?state to the API
+const REDIRECT_URI = process.env.OIDC_REDIRECT_URI || 'http://localhost:3000/oidc/callback';
+const STATE_TTL_SECONDS = parseInt(process.env.OIDC_STATE_TTL_SECONDS || '600');
+const HTTP_TIMEOUT_MS = 10000;
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512'];
+
+export interface OidcProvider {
+    id: string;
+    name: string;
+    issuer: string;
+    clientId: string;
+    clientSecret?: string;
+    scopes: string;
+}
+
+interface Discovery {
+    issuer: string;
+    authorization_endpoint: string;
+    token_endpoint: string;
+    jwks_uri: string;
+    userinfo_endpoint?: string;
+}
+
+interface PendingAuthorization {
+    provider: string;
+    codeVerifier: string;
+    nonce: string;
+    // Set when an authenticated user is linking an identity rather than signing in
+    userId?: string;
+}
+
+interface IdTokenClaims {
+    sub: string;
+    nonce?: string;
+    email?: string;
+    email_verified?: boolean | string;
+    name?: string;
+}
+
+interface ExternalProfile {
+    provider: string;
+    subject: string;
+    email?: string;
+    emailVerified: boolean;
+    name?: string;
+}
+
+/**
+ * OIDC_PROVIDERS lists provider ids, e.g. "google,corp"; each is configured with
+ * OIDC_<ID>_ISSUER, OIDC_<ID>_CLIENT_ID and optionally _CLIENT_SECRET, _NAME and _SCOPES.
+ */
+export function loadProviders(env: NodeJS.ProcessEnv = process.env): OidcProvider[] {
+    const ids = (env.OIDC_PROVIDERS || '').split(',').map(id => id.trim()).filter(Boolean);
+
+    return ids.map(id => {
+        const prefix = `OIDC_${id.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_`;
+        const issuer = env[`${prefix}ISSUER`];
+        const clientId = env[`${prefix}CLIENT_ID`];
+        if (!issuer || !clientId) throw new Error(`${prefix}ISSUER and ${prefix}CLIENT_ID are required for OIDC provider ${id}`);
+
+        return {
+            id,
+            name: env[`${prefix}NAME`] || id,
+            issuer,
+            clientId,
+            clientSecret: env[`${prefix}CLIENT_SECRET`] || undefined,
+            scopes: env[`${prefix}SCOPES`] || 'openid email profile'
+        };
+    });
+}
+
+const stateKey = (state: string) => `oidc:state:${state}`;
+
+const randomToken = () => crypto.randomBytes(32).toString('base64url');
+
+/**
+ * Sign-in through OpenID Connect providers with the authorization-code flow and
+ * PKCE. The pending state, nonce and code verifier are kept in Redis until the
+ * callback; the ID token is verified against the provider's published keys.
+ */
+export class OidcService {
+    private readonly providers: Map<string, OidcProvider>;
+    private readonly discoveries = new Map<string, Promise<Discovery>>();
+    private readonly keys = new Map<string, crypto.JsonWebKey[]>();
+
+    constructor(providers: OidcProvider[] = loadProviders()) {
+        this.providers = new Map(providers.map(provider => [provider.id, provider]));
+    }
+
+    listProviders() {
+        return [...this.providers.values()].map(({ id, name }) => ({ id, name }));
+    }
+
+    /** Builds the provider's authorization URL. Pass linkUserId to link the identity instead of signing in. */
+    async authorize(providerId: string, linkUserId?: string) {
+        const provider = this.getProvider(providerId);
+        const discovery = await this.discover(provider);
+
+        const state = randomToken();
+        const pending: PendingAuthorization = { provider: provider.id, codeVerifier: randomToken(), nonce: randomToken(), userId: linkUserId };
+        await redis.setex(stateKey(state), STATE_TTL_SECONDS, JSON.stringify(pending));
+
+        const url = new URL(discovery.authorization_endpoint);
+        url.searchParams.set('response_type', 'code');
+        url.searchParams.set('client_id', provider.clientId);
+        url.searchParams.set('redirect_uri', REDIRECT_URI);
+        url.searchParams.set('scope', provider.scopes);
+        url.searchParams.set('state', state);
+        url.searchParams.set('nonce', pending.nonce);
+        url.searchParams.set('code_challenge', crypto.createHash('sha256').update(pending.codeVerifier).digest('base64url'));
+        url.searchParams.set('code_challenge_method', 'S256');
+        return { authorizationUrl: url.toString() };
+    }
+
+    /**
+     * Completes a sign-in and returns the user. Unknown identities are linked to
+     * the account with the same email, or get a new account, but only when the
+     * provider says the email is verified.
+     */
+    async resolveUser(code: string, state: string) {
+        const profile = await this.complete(code, state);
+
+        const identity = await prisma.identity.findUnique({
+            where: { provider_subject: { provider: profile.provider, subject: profile.subject } },
+            include: { user: true }
+        });
+        if (identity) return identity.user;
+
+        if (!profile.email || !profile.emailVerified) {
+            throw new ApiError(403, 'The identity provider did not share a verified email');
+        }
+
+        // Whoever registered an unverified account may not own the address
+        const existing = await prisma.user.findUnique({ where: { email: profile.email } });
+        if (existing && !existing.emailVerified) {
+            throw new ApiError(409, 'An unverified account uses this email. Verify it or reset its password, then link the provider');
+        }
+
+        const user = existing ?? await prisma.user.create({
+            data: {
+                email: profile.email,
+                name: profile.name || profile.email.split('@')[0],
+                emailVerified: true,
+                emailVerifiedAt: new Date()
+            }
+        });
+        await prisma.identity.create({
+            data: { userId: user.id, provider: profile.provider, subject: profile.subject, email: profile.email }
+        });
+        if (!existing) await projectService.attachPendingInvitations(user.id, user.email);
+
+        return user;
+    }
+
+    /** Completes a link flow started by the same user. */
+    async link(userId: string, code: string, state: string) {
+        const profile = await this.complete(code, state, userId);
+
+        const existing = await prisma.identity.findUnique({
+            where: { provider_subject: { provider: profile.provider, subject: profile.subject } }
+        });
+        if (existing) {
+            if (existing.userId === userId) return existing;
+            throw new ApiError(409, 'This identity is linked to another account');
+        }
+
+        return prisma.identity.create({
+            data: { userId, provider: profile.provider, subject: profile.subject, email: profile.email }
+        });
+    }
+
+    async listIdentities(userId: string) {
+        return prisma.identity.findMany({
+            where: { userId },
+            select: { id: true, provider: true, email: true, createdAt: true },
+            orderBy: { createdAt: 'asc' }
+        });
+    }
+
+    /** Refuses to remove the last way to sign in. */
+    async unlink(userId: string, identityId: string) {
+        const identity = await prisma.identity.findFirst({ where: { id: identityId, userId } });
+        if (!identity) throw new ApiError(404, 'Identity not found');
+
+        const [user, identities] = await Promise.all([
+            prisma.user.findUnique({ where: { id: userId }, select: { password: true } }),
+            prisma.identity.count({ where: { userId } })
+        ]);
+        if (!user?.password && identities <= 1) {
+            throw new ApiError(400, 'Set a password before unlinking your only identity');
+        }
+
+        await prisma.identity.delete({ where: { id: identity.id } });
+        return { message: 'Identity unlinked' };
+    }
+
+    // Redeems the state, exchanges the code and returns who the provider says the user is
+    private async complete(code: string, state: string, userId?: string): Promise<ExternalProfile> {
+        const key = stateKey(state);
+        const stored = await redis.get(key);
+        if (!stored || (await redis.del(key)) === 0) throw new ApiError(400, 'Invalid or expired state');
+
+        const pending = JSON.parse(stored) as PendingAuthorization;
+        if (pending.userId !== userId) throw new ApiError(400, 'Invalid or expired state');
+
+        const provider = this.getProvider(pending.provider);
+        const discovery = await this.discover(provider);
+
+        const body = new URLSearchParams({
+            grant_type: 'authorization_code',
+            code,
+            redirect_uri: REDIRECT_URI,
+            client_id: provider.clientId,
+            code_verifier: pending.codeVerifier
+        });
+        if (provider.clientSecret) body.set('client_secret', provider.clientSecret);
+
+        const response = await fetch(discovery.token_endpoint, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+            body,
+            signal: AbortSignal.timeout(HTTP_TIMEOUT_MS)
+        });
+        if (!response.ok) throw new ApiError(401, 'The identity provider rejected the authorization code');
+
+        const tokens = await response.json() as { id_token?: string; access_token?: string };
+        if (!tokens.id_token) throw new ApiError(502, 'The identity provider returned no ID token');
+
+        const claims = await this.verifyIdToken(provider, discovery, tokens.id_token, pending.nonce);
+
+        // Some providers only put the email on the userinfo endpoint
+        if (!claims.email && discovery.userinfo_endpoint && tokens.access_token) {
+            const userinfo = await this.fetchJson<IdTokenClaims>(discovery.userinfo_endpoint, {
+                headers: { Authorization: `Bearer ${tokens.access_token}` }
+            });
+            if (userinfo.sub === claims.sub) {
+                claims.email = userinfo.email;
+                claims.email_verified = userinfo.email_verified;
+                claims.name ??= userinfo.name;
+            }
+        }
+
+        return {
+            provider: provider.id,
+            subject: claims.sub,
+            email: claims.email && normalizeEmail(claims.email),
+            emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+            name: claims.name
+        };
+    }
+
+    private async verifyIdToken(provider: OidcProvider, discovery: Discovery, idToken: string, nonce: string) {
+        const decoded = jwt.decode(idToken, { complete: true });
+        if (!decoded || typeof decoded.payload === 'string') throw new ApiError(401, 'Invalid ID token');
+
+        const key = await this.getSigningKey(discovery.jwks_uri, decoded.header.kid);
+        try {
+            const claims = jwt.verify(idToken, key, {
+                algorithms: ID_TOKEN_ALGORITHMS,
+                audience: provider.clientId,
+                issuer: discovery.issuer
+            }) as IdTokenClaims;
+            if (claims.nonce !== nonce) throw new ApiError(401, 'Invalid ID token');
+            return claims;
+        } catch (error) {
+            if (error instanceof jwt.JsonWebTokenError) throw new ApiError(401, 'Invalid ID token');
+            throw error;
+        }
+    }
+
+    // Keys are cached per JWKS URL and refetched when a token names an unknown key, e.g. after rotation
+    private async getSigningKey(jwksUri: string, kid?: string) {
+        const find = () => this.keys.get(jwksUri)?.find(key => !kid || key.kid === kid);
+
+        let jwk = find();
+        if (!jwk) {
+            const { keys } = await this.fetchJson<{ keys: crypto.JsonWebKey[] }>(jwksUri);
+            this.keys.set(jwksUri, keys);
+            jwk = find();
+        }
+        if (!jwk) throw new ApiError(401, 'Invalid ID token');
+
+        return crypto.createPublicKey({ key: jwk, format: 'jwk' });
+    }
+
+    private discover(provider: OidcProvider) {
+        let discovery = this.discoveries.get(provider.id);
+        if (!discovery) {
+            discovery = this.fetchJson<Discovery>(`${provider.issuer.replace(/\/$/, '')}/.well-known/openid-configuration`)
+                .then(document => {
+                    if (document.issuer !== provider.issuer) throw new ApiError(502, `OIDC provider ${provider.id} reports a different issuer`);
+                    return document;
+                });
+            // Retry on the next request rather than caching a failure
+            discovery.catch(() => this.discoveries.delete(provider.id));
+            this.discoveries.set(provider.id, discovery);
+        }
+        return discovery;
+    }
+
+    private getProvider(providerId: string) {
+        const provider = this.providers.get(providerId);
+        if (!provider) throw new ApiError(404, 'Unknown identity provider');
+        return provider;
+    }
+
+    private async fetchJson<T>(url: string, init: RequestInit = {}) {
+        const response = await fetch(url, { ...init, signal: AbortSignal.timeout(HTTP_TIMEOUT_MS) });
+        if (!response.ok) throw new ApiError(502, `Identity provider request failed with ${response.status}`);
+        return response.json() as Promise<T>;
+    }
+}
+
+export default new OidcService();
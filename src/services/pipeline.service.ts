@@ -0,0 +1,199 @@
+import { v4 as uuidv4 } from 'uuid';
+import { IJob, Job, JobStatus, JobType } from '../models/job.model';
+import { Pipeline } from '../models/pipeline.model';
+import { addJob, addJobs } from '../queues/job.queue';
+import { publishJobEvent } from '../queues/job.events';
+import { ApiError } from '../middleware/error.middleware';
+import { CreatePipelineInput } from '../schemas/validation.schemas';
+import jobService from './job.service';
+import quotaService from './quota.service';
+
+type PipelineJobInput = CreatePipelineInput['jobs'][number];
+
+export type PipelineState = 'pending' | 'running' | 'completed' | 'failed';
+
+/**
+ * Pipelines are graphs of jobs linked by dependsOn. Only the jobs without
+ * dependencies are queued up front; every other job is queued once all of
+ * its upstream jobs have completed, so a job can feed any number of others.
+ */
+export class PipelineService {
+    async create(userId: string, input: CreatePipelineInput) {
+        this.validateGraph(input.jobs);
+        await jobService.ensureScope(input);
+        // Checked at the pipeline's most urgent priority
+        await quotaService.check(userId, {
+            projectId: input.projectId,
+            priority: Math.min(...input.jobs.map(node => node.priority)),
+            count: input.jobs.length
+        });
+
+        const pipelineId = uuidv4();
+        const { projectId, workspaceId } = input;
+        const jobIds = new Map(input.jobs.map(node => [node.key, uuidv4()]));
+
+        const pipeline = await Pipeline.create({
+            pipelineId,
+            name: input.name,
+            userId,
+            projectId,
+            workspaceId,
+            nodes: input.jobs.map(node => ({ key: node.key, jobId: jobIds.get(node.key)!, dependsOn: node.dependsOn }))
+        });
+
+        const jobs = await Job.insertMany(input.jobs.map(node => ({
+            jobId: jobIds.get(node.key)!,
+            type: node.type as JobType,
+            status: JobStatus.PENDING,
+            payload: node.payload,
+            priority: node.priority,
+            timeoutMs: node.timeoutMs,
+            userId,
+            projectId,
+            workspaceId,
+            pipelineId,
+            pipelineKey: node.key,
+            dependsOn: node.dependsOn.map(key => jobIds.get(key)!),
+            onUpstreamFailure: node.onUpstreamFailure,
+            maxAttempts: 3
+        })));
+
+        try {
+            await addJobs(jobs.filter(job => job.dependsOn.length === 0).map(job => this.toQueuedJob(job)));
+        } catch (error) {
+            await Job.deleteMany({ pipelineId });
+            await Pipeline.deleteOne({ pipelineId });
+            throw error;
+        }
+
+        for (const job of jobs) {
+            await publishJobEvent({ type: 'status', jobId: job.jobId, userId, workspaceId, status: JobStatus.PENDING });
+        }
+
+        return { pipeline, jobs };
+    }
+
+    /** Aggregates the state of every node; visible to the owner and project members. */
+    async getStatus(pipelineId: string, userId: string) {
+        const pipeline = await Pipeline.findOne({ pipelineId }).lean();
+        if (!pipeline || !(await jobService.canView(pipeline, userId))) throw new ApiError(404, 'Pipeline not found');
+
+        const jobs = await Job.find({ pipelineId })
+            .select('jobId type status progress stage error startedAt completedAt')
+            .lean();
+        const jobsById = new Map(jobs.map(job => [job.jobId, job]));
+
+        const counts = Object.fromEntries(Object.values(JobStatus).map(status => [status, 0])) as Record<JobStatus, number>;
+        jobs.forEach(job => counts[job.status]++);
+
+        const nodes = pipeline.nodes.map(node => {
+            const job = jobsById.get(node.jobId);
+            return {
+                key: node.key,
+                jobId: node.jobId,
+                dependsOn: node.dependsOn,
+                type: job?.type,
+                status: job?.status,
+                progress: job?.progress,
+                stage: job?.stage,
+                error: job?.error,
+                startedAt: job?.startedAt,
+                completedAt: job?.completedAt
+            };
+        });
+
+        return {
+            pipelineId,
+            name: pipeline.name,
+            status: this.summarize(counts, jobs.length),
+            counts,
+            nodes,
+            createdAt: pipeline.createdAt
+        };
+    }
+
+    /** Results of a job's upstream jobs, keyed by node key, handed to its executor as input. */
+    async getUpstreamResults(jobId: string) {
+        const job = await Job.findOne({ jobId }).select('dependsOn').lean();
+        if (!job?.dependsOn?.length) return {};
+
+        const upstream = await Job.find({ jobId: { $in: job.dependsOn } }).select('pipelineKey result').lean();
+        return Object.fromEntries(upstream.map(parent => [parent.pipelineKey, parent.result]));
+    }
+
+    /**
+     * Queues the jobs downstream of a completed job whose upstream jobs have all
+     * completed. With two upstream jobs finishing at once both may queue the same
+     * job; BullMQ ignores the second add under the same id.
+     */
+    async releaseDownstream(jobId: string) {
+        const downstream = await Job.find({ dependsOn: jobId, status: JobStatus.PENDING }).lean<IJob[]>();
+        for (const job of downstream) {
+            if (!(await this.isReady(job))) continue;
+            const { data, priority } = this.toQueuedJob(job);
+            await addJob(data, priority);
+        }
+    }
+
+    /** Whether every upstream job of a pipeline job has completed. */
+    async isReady(job: { dependsOn: string[] }) {
+        const unfinished = await Job.countDocuments({ jobId: { $in: job.dependsOn }, status: { $ne: JobStatus.COMPLETED } });
+        return unfinished === 0;
+    }
+
+    /** Queues a pending pipeline job whose release was lost, e.g. to a worker crash. */
+    async enqueue(jobId: string) {
+        const job = await Job.findOne({ jobId, status: JobStatus.PENDING }).lean<IJob>();
+        if (!job) return;
+        const { data, priority } = this.toQueuedJob(job);
+        await addJob(data, priority);
+    }
+
+    private toQueuedJob(job: IJob) {
+        const { jobId, type, userId, projectId, workspaceId, pipelineId, priority } = job;
+        const timeoutMs = job.timeoutMs ?? undefined;
+        return { data: { jobId, type, payload: job.payload, userId, projectId, workspaceId, pipelineId, timeoutMs }, priority };
+    }
+
+    private validateGraph(nodes: PipelineJobInput[]) {
+        const byKey = new Map<string, PipelineJobInput>();
+        for (const node of nodes) {
+            if (byKey.has(node.key)) throw new ApiError(400, `Duplicate job key "${node.key}"`);
+            byKey.set(node.key, node);
+        }
+
+        for (const node of nodes) {
+            if (new Set(node.dependsOn).size !== node.dependsOn.length) {
+                throw new ApiError(400, `Job "${node.key}" lists a dependency twice`);
+            }
+            for (const dependency of node.dependsOn) {
+                if (!byKey.has(dependency) || dependency === node.key) {
+                    throw new ApiError(400, `Job "${node.key}" has an invalid dependency "${dependency}"`);
+                }
+            }
+        }
+
+        // Depth-first walk up the dependencies; meeting a job still on the path means a cycle
+        const visiting = new Set<string>();
+        const done = new Set<string>();
+        const visit = (key: string) => {
+            if (done.has(key)) return;
+            if (visiting.has(key)) throw new ApiError(400, 'Pipeline dependencies contain a cycle');
+            visiting.add(key);
+            byKey.get(key)!.dependsOn.forEach(visit);
+            visiting.delete(key);
+            done.add(key);
+        };
+        nodes.forEach(node => visit(node.key));
+    }
+
+    private summarize(counts: Record<JobStatus, number>, total: number): PipelineState {
+        const finished = counts[JobStatus.COMPLETED] + counts[JobStatus.FAILED] + counts[JobStatus.CANCELLED] + counts[JobStatus.SKIPPED];
+        if (finished < total) {
+            return counts[JobStatus.PENDING] === total ? 'pending' : 'running';
+        }
+        return counts[JobStatus.COMPLETED] === total ? 'completed' : 'failed';
+    }
+}
+
+export default new PipelineService();
@@ -0,0 +1,155 @@
+import prisma from '../config/prisma';
+import redis from '../config/redis';
+
+const PRESENCE_TTL_MS = parseInt(process.env.PRESENCE_TTL_MS || '30000');
+const HEARTBEAT_INTERVAL_MS = parseInt(process.env.PRESENCE_HEARTBEAT_MS || '10000');
+
+export interface PresenceUser {
+    userId: string;
+    name: string;
+    avatarUrl: string | null;
+    connections: number;
+}
+
+interface LocalConnection {
+    userId: string;
+    workspaces: Set<string>;
+}
+
+/**
+ * Cluster-wide presence. Each socket connection is an entry in a per-workspace
+ * sorted set scored by its expiry time; live nodes keep refreshing their own
+ * connections, so entries left behind by a crashed node simply age out.
+ */
+export class PresenceService {
+    // Connections held by this node, refreshed on every heartbeat
+    private localConnections = new Map<string, LocalConnection>();
+    private heartbeatTimer?: NodeJS.Timeout;
+
+    /** Registers a connection. Resolves true if it is the user's first one in the workspace. */
+    async join(workspaceId: string, socketId: string, userId: string): Promise<boolean> {
+        const local = this.localConnections.get(socketId) ?? { userId, workspaces: new Set<string>() };
+        local.workspaces.add(workspaceId);
+        this.localConnections.set(socketId, local);
+
+        const alreadyPresent = await this.hasOtherConnections(workspaceId, userId, socketId);
+        await this.touch(workspaceId, socketId, userId);
+        return !alreadyPresent;
+    }
+
+    /** Removes a connection. Resolves true if the user has no connections left in the workspace. */
+    async leave(workspaceId: string, socketId: string): Promise<boolean> {
+        const local = this.localConnections.get(socketId);
+        local?.workspaces.delete(workspaceId);
+        if (local && local.workspaces.size === 0) this.localConnections.delete(socketId);
+
+        const userId = await redis.hget(this.usersKey(workspaceId), socketId);
+        await redis.zrem(this.connectionsKey(workspaceId), socketId);
+        await redis.hdel(this.usersKey(workspaceId), socketId);
+
+        if (!userId) return false;
+        return !(await this.hasOtherConnections(workspaceId, userId, socketId));
+    }
+
+    /** Drops a closed socket from every workspace; returns the ones the user fully left. */
+    async disconnect(socketId: string): Promise<string[]> {
+        const local = this.localConnections.get(socketId);
+        if (!local) return [];
+        // Dropped first, so the heartbeat stops refreshing it even if Redis fails below
+        this.localConnections.delete(socketId);
+
+        const left: string[] = [];
+        for (const workspaceId of Array.from(local.workspaces)) {
+            try {
+                if (await this.leave(workspaceId, socketId)) left.push(workspaceId);
+            } catch (err) {
+                // Expires with PRESENCE_TTL_MS instead
+                console.error(`Failed to drop connection from workspace ${workspaceId}:`, err);
+            }
+        }
+        return left;
+    }
+
+    async getRoster(workspaceId: string): Promise<PresenceUser[]> {
+        const connections = await this.getConnections(workspaceId);
+
+        const counts = new Map<string, number>();
+        Object.values(connections).forEach(userId => counts.set(userId, (counts.get(userId) ?? 0) + 1));
+        if (counts.size === 0) return [];
+
+        const users = await prisma.user.findMany({
+            where: { id: { in: Array.from(counts.keys()) } },
+            select: { id: true, name: true, avatarUrl: true }
+        });
+
+        return users.map(user => ({
+            userId: user.id,
+            name: user.name,
+            avatarUrl: user.avatarUrl,
+            connections: counts.get(user.id)!
+        }));
+    }
+
+    startHeartbeat(intervalMs = HEARTBEAT_INTERVAL_MS) {
+        if (this.heartbeatTimer) return;
+
+        this.heartbeatTimer = setInterval(() => {
+            this.heartbeat().catch(err => console.error('Presence heartbeat failed:', err));
+        }, intervalMs);
+        this.heartbeatTimer.unref();
+    }
+
+    stopHeartbeat() {
+        if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+        this.heartbeatTimer = undefined;
+    }
+
+    async heartbeat() {
+        for (const [socketId, { userId, workspaces }] of this.localConnections.entries()) {
+            for (const workspaceId of workspaces) {
+                await this.touch(workspaceId, socketId, userId);
+            }
+        }
+    }
+
+    private async touch(workspaceId: string, socketId: string, userId: string) {
+        const connectionsKey = this.connectionsKey(workspaceId);
+        const usersKey = this.usersKey(workspaceId);
+
+        await redis.zadd(connectionsKey, Date.now() + PRESENCE_TTL_MS, socketId);
+        await redis.hset(usersKey, socketId, userId);
+
+        // Whole keys expire too, so an abandoned workspace leaves nothing behind
+        await redis.pexpire(connectionsKey, PRESENCE_TTL_MS);
+        await redis.pexpire(usersKey, PRESENCE_TTL_MS);
+    }
+
+    // Live connections as socketId -> userId, after dropping expired entries
+    private async getConnections(workspaceId: string): Promise<Record<string, string>> {
+        const connectionsKey = this.connectionsKey(workspaceId);
+        const usersKey = this.usersKey(workspaceId);
+
+        const expired = await redis.zrangebyscore(connectionsKey, 0, Date.now());
+        if (expired.length > 0) {
+            await redis.zrem(connectionsKey, ...expired);
+            await redis.hdel(usersKey, ...expired);
+        }
+
+        return redis.hgetall(usersKey);
+    }
+
+    private async hasOtherConnections(workspaceId: string, userId: string, socketId: string) {
+        const connections = await this.getConnections(workspaceId);
+        return Object.entries(connections).some(([id, owner]) => owner === userId && id !== socketId);
+    }
+
+    private connectionsKey(workspaceId: string) {
+        return `presence:${workspaceId}:connections`;
+    }
+
+    private usersKey(workspaceId: string) {
+        return `presence:${workspaceId}:users`;
+    }
+}
+
+export default new PresenceService();
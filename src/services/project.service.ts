@@ -1,12 +1,25 @@
 import prisma from '../config/prisma';
-import redis from '../config/redis';
+import redis, { redisPub } from '../config/redis';
 import { ApiError } from '../middleware/error.middleware';
+import { EMAIL_VERIFICATION_REQUIRED } from '../middleware/auth.middleware';
 import { Role } from '@prisma/client';
-import { CreateProjectInput, UpdateProjectInput } from '../schemas/validation.schemas';
+import { CreateProjectInput, UpdateProjectInput, normalizeEmail } from '../schemas/validation.schemas';
 import { v4 as uuidv4 } from 'uuid';
+import jobService from './job.service';
+import scheduleService from './schedule.service';
+import webhookService from './webhook.service';
 
 const CACHE_TTL = 300; // 5 minutes
 
+// Carries membership changes to every node so open sockets can be re-authorized
+export const ACCESS_CHANNEL = 'access-events';
+
+export interface AccessChangeEvent {
+    userId: string;
+    projectId: string;
+    role: Role | null; // null when access was revoked
+}
+
 export class ProjectService {
     async create(userId: string, input: CreateProjectInput) {
         return prisma.project.create({
@@ -95,21 +108,27 @@ export class ProjectService {
 
         // Invalidate cache
         await redis.del(`project:${projectId}`);
+        await webhookService.emit('project.updated', { projectId }, { project });
         return project;
     }
 
     async delete(projectId: string) {
         await prisma.project.delete({ where: { id: projectId } });
         await redis.del(`project:${projectId}`);
+        // Jobs live in Mongo, so they don't go with the cascade
+        await scheduleService.deleteForProject(projectId);
+        await jobService.deleteForProject(projectId);
 
         return { success: true, message: 'Project deleted' };
     }
 
-    async inviteCollaborator(projectId: string, email: string, role: Role = Role.COLLABORATOR) {
+    async inviteCollaborator(projectId: string, address: string, role: Role = Role.COLLABORATOR) {
+        const email = normalizeEmail(address);
         const user = await prisma.user.findUnique({ where: { email } });
 
-
-        if (user) {
+        // An unverified account may not own the address; it gets a pending invitation,
+        // attached once the address is confirmed
+        if (user && (user.emailVerified || !EMAIL_VERIFICATION_REQUIRED)) {
             const existing = await prisma.collaborator.findUnique({
                 where: { userId_projectId: { userId: user.id, projectId } }
             });
@@ -124,6 +143,7 @@ export class ProjectService {
             });
 
             await redis.del(`project:${projectId}`);
+            await webhookService.emit('collaborator.added', { projectId }, { projectId, collaborator });
             return { collaborator, invited: false };
         }
 
@@ -167,15 +187,127 @@ export class ProjectService {
         });
 
         await redis.del(`project:${projectId}`);
+        await this.publishAccessChange({ userId: collaborator.userId, projectId, role });
+        await webhookService.emit('collaborator.updated', { projectId }, { projectId, collaborator });
         return collaborator;
     }
 
     async removeCollaborator(projectId: string, collaboratorId: string) {
-        await prisma.collaborator.delete({ where: { id: collaboratorId } });
+        const collaborator = await prisma.collaborator.delete({ where: { id: collaboratorId } });
         await redis.del(`project:${projectId}`);
+        await this.publishAccessChange({ userId: collaborator.userId, projectId, role: null });
+        await webhookService.emit('collaborator.removed', { projectId }, { projectId, collaborator });
         return { success: true, message: 'Collaborator removed' };
     }
 
+    async getInvitation(token: string) {
+        const invitation = await prisma.invitation.findUnique({
+            where: { token },
+            include: { project: { select: { id: true, name: true, description: true } } }
+        });
+
+        if (!invitation) throw new ApiError(404, 'Invitation not found');
+
+        return { ...invitation, expired: invitation.expiresAt < new Date() };
+    }
+
+    async acceptInvitation(token: string, user: { id: string; email: string }) {
+        const invitation = await this.findInvitationForUser(token, user.email);
+        const { projectId } = invitation;
+
+        const existing = await prisma.collaborator.findUnique({
+            where: { userId_projectId: { userId: user.id, projectId } }
+        });
+
+        if (existing || invitation.project.ownerId === user.id) {
+            // Nothing left to accept, so the invitation is spent either way
+            await prisma.invitation.delete({ where: { id: invitation.id } });
+            throw new ApiError(409, 'User is already a collaborator');
+        }
+
+        const [collaborator] = await prisma.$transaction([
+            prisma.collaborator.create({
+                data: { userId: user.id, projectId, role: invitation.role },
+                include: { user: { select: { id: true, email: true, name: true, avatarUrl: true } } }
+            }),
+            prisma.invitation.delete({ where: { id: invitation.id } })
+        ]);
+
+        await redis.del(`project:${projectId}`);
+        await webhookService.emit('collaborator.added', { projectId }, { projectId, collaborator });
+        return { collaborator };
+    }
+
+    async declineInvitation(token: string, user: { id: string; email: string }) {
+        const invitation = await this.findInvitationForUser(token, user.email);
+        await prisma.invitation.delete({ where: { id: invitation.id } });
+        return { success: true, message: 'Invitation declined' };
+    }
+
+    async revokeInvitation(projectId: string, invitationId: string) {
+        const { count } = await prisma.invitation.deleteMany({ where: { id: invitationId, projectId } });
+        if (count === 0) throw new ApiError(404, 'Invitation not found');
+        return { success: true, message: 'Invitation revoked' };
+    }
+
+    async resendInvitation(projectId: string, invitationId: string) {
+        const existing = await prisma.invitation.findFirst({ where: { id: invitationId, projectId } });
+        if (!existing) throw new ApiError(404, 'Invitation not found');
+
+        // Rotate the token so any previously shared link stops working
+        const invitation = await prisma.invitation.update({
+            where: { id: existing.id },
+            data: {
+                token: uuidv4(),
+                expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)
+            }
+        });
+
+        return { invitation, message: 'Invitation resent' };
+    }
+
+    /**
+     * Turns every pending invitation for this email into a collaborator row.
+     * Called right after registration so invites sent before signup are not lost.
+     */
+    async attachPendingInvitations(userId: string, email: string) {
+        const invitations = await prisma.invitation.findMany({
+            where: { email: normalizeEmail(email), expiresAt: { gt: new Date() } }
+        });
+
+        if (invitations.length === 0) return [];
+
+        await prisma.$transaction([
+            ...invitations.map(invitation => prisma.collaborator.create({
+                data: { userId, projectId: invitation.projectId, role: invitation.role }
+            })),
+            prisma.invitation.deleteMany({ where: { id: { in: invitations.map(i => i.id) } } })
+        ]);
+
+        await Promise.all(invitations.map(invitation => redis.del(`project:${invitation.projectId}`)));
+        for (const { projectId, role } of invitations) {
+            await webhookService.emit('collaborator.added', { projectId }, { projectId, collaborator: { userId, projectId, role } });
+        }
+        return invitations.map(invitation => invitation.projectId);
+    }
+
+    private async publishAccessChange(event: AccessChangeEvent) {
+        await redisPub.publish(ACCESS_CHANNEL, JSON.stringify(event));
+    }
+
+    private async findInvitationForUser(token: string, email: string) {
+        const invitation = await prisma.invitation.findUnique({
+            where: { token },
+            include: { project: { select: { ownerId: true } } }
+        });
+
+        if (!invitation) throw new ApiError(404, 'Invitation not found');
+        if (normalizeEmail(invitation.email) !== normalizeEmail(email)) throw new ApiError(403, 'Invitation was sent to a different email');
+        if (invitation.expiresAt < new Date()) throw new ApiError(410, 'Invitation has expired');
+
+        return invitation;
+    }
+
     async getCollaborators(projectId: string) {
         const [collaborators, pendingInvitations] = await Promise.all([
             prisma.collaborator.findMany({
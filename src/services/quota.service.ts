@@ -0,0 +1,75 @@
+import { Job, JobStatus } from '../models/job.model';
+import { ApiError } from '../middleware/error.middleware';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface QuotaLimits {
+    /** Pending plus processing jobs at any one time; 0 means unlimited. */
+    concurrent: number;
+    /** Jobs submitted over a rolling 24 hours; 0 means unlimited. */
+    daily: number;
+    /** Most urgent priority that may be requested. As in BullMQ, 1 is the most urgent. */
+    maxPriority: number;
+}
+
+type QuotaScope = 'user' | 'project';
+
+const limit = (name: string, fallback: number) => parseInt(process.env[name] || String(fallback));
+
+export const QUOTAS: Record<QuotaScope, QuotaLimits> = {
+    user: {
+        concurrent: limit('JOB_QUOTA_USER_CONCURRENT', 20),
+        daily: limit('JOB_QUOTA_USER_DAILY', 1000),
+        maxPriority: limit('JOB_QUOTA_USER_MAX_PRIORITY', 1)
+    },
+    project: {
+        concurrent: limit('JOB_QUOTA_PROJECT_CONCURRENT', 50),
+        daily: limit('JOB_QUOTA_PROJECT_DAILY', 5000),
+        maxPriority: limit('JOB_QUOTA_PROJECT_MAX_PRIORITY', 1)
+    }
+};
+
+/**
+ * Job submission quotas, counted from the Job collection. Each limit applies to
+ * the submitting user and, for project-scoped jobs, to the project as a whole.
+ */
+export class QuotaService {
+    /** Throws a 429 if submitting `count` jobs at `priority` would exceed a quota. */
+    async check(userId: string, request: { projectId?: string; priority?: number; count?: number }) {
+        const count = request.count ?? 1;
+        const priority = request.priority ?? 5;
+
+        await this.checkScope('user', { userId }, count, priority);
+        if (request.projectId) await this.checkScope('project', { projectId: request.projectId }, count, priority);
+    }
+
+    async getUsage(userId: string) {
+        return { limits: QUOTAS.user, usage: await this.usage({ userId }) };
+    }
+
+    private async checkScope(scope: QuotaScope, filter: Record<string, string>, count: number, priority: number) {
+        const limits = QUOTAS[scope];
+        if (priority < limits.maxPriority) {
+            throw new ApiError(429, `Priority ${priority} is above the ${scope} quota, the most urgent allowed is ${limits.maxPriority}`);
+        }
+        if (count === 0 || (!limits.concurrent && !limits.daily)) return;
+
+        const usage = await this.usage(filter);
+        if (limits.concurrent && usage.concurrent + count > limits.concurrent) {
+            throw new ApiError(429, `Concurrent job quota exceeded for this ${scope} (${limits.concurrent} pending or running)`);
+        }
+        if (limits.daily && usage.daily + count > limits.daily) {
+            throw new ApiError(429, `Daily job quota exceeded for this ${scope} (${limits.daily} per 24 hours)`);
+        }
+    }
+
+    private async usage(filter: Record<string, string>) {
+        const [concurrent, daily] = await Promise.all([
+            Job.countDocuments({ ...filter, status: { $in: [JobStatus.PENDING, JobStatus.PROCESSING] } }),
+            Job.countDocuments({ ...filter, createdAt: { $gte: new Date(Date.now() - DAY_MS) } })
+        ]);
+        return { concurrent, daily };
+    }
+}
+
+export default new QuotaService();
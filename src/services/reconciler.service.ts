@@ -0,0 +1,146 @@
+import { Job as BullJob, JobType as QueueState } from 'bullmq';
+import { Job, JobStatus } from '../models/job.model';
+import { jobQueue } from '../queues/job.queue';
+import { publishJobEvent } from '../queues/job.events';
+import jobService from './job.service';
+import pipelineService from './pipeline.service';
+
+// Leaves recently updated records alone, so in-flight transitions aren't mistaken for drift
+const GRACE_MS = parseInt(process.env.JOB_RECONCILE_GRACE_MS || '60000');
+const INTERVAL_MS = parseInt(process.env.JOB_RECONCILE_INTERVAL_MS || '60000');
+const SCAN_LIMIT = 1000;
+
+const QUEUED_STATES: QueueState[] = ['waiting', 'delayed', 'prioritized', 'waiting-children'];
+
+export type InconsistencyKind = 'stalled' | 'missing' | 'orphaned' | 'out_of_sync';
+
+export interface Inconsistency {
+    kind: InconsistencyKind;
+    jobId: string;
+    mongoStatus: JobStatus | null;
+    queueState: string | null;
+    repair: string;
+}
+
+interface UnfinishedJob {
+    jobId: string;
+    status: JobStatus;
+    userId: string;
+    workspaceId?: string;
+    queueJobId?: string;
+    dependsOn?: string[];
+}
+
+/**
+ * Compares unfinished Job records with their BullMQ jobs and repairs drift,
+ * e.g. a record left PROCESSING by a worker that died mid-job:
+ * - stalled: PROCESSING in Mongo but waiting in BullMQ, which will run it again
+ * - missing: unfinished in Mongo with no BullMQ job, so it would never finish;
+ *   pipeline jobs count once their upstream jobs have completed
+ * - out_of_sync: BullMQ finished the job but the record was never updated
+ * - orphaned: queued in BullMQ with no Job record
+ */
+export class ReconcilerService {
+    private timer?: NodeJS.Timeout;
+
+    /** Lists inconsistencies without changing anything. */
+    async inspect() {
+        return this.scan(false);
+    }
+
+    /** Repairs every inconsistency found and returns them. */
+    async reconcile() {
+        return this.scan(true);
+    }
+
+    start(intervalMs = INTERVAL_MS) {
+        if (this.timer) return;
+
+        this.timer = setInterval(() => {
+            this.reconcile()
+                .then(repaired => repaired.length && console.log(`Reconciled ${repaired.length} inconsistent jobs`))
+                .catch(err => console.error('Job reconciliation failed:', err));
+        }, intervalMs);
+        this.timer.unref();
+    }
+
+    stop() {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = undefined;
+    }
+
+    private async scan(apply: boolean) {
+        const found: Inconsistency[] = [];
+        const report = (issue: Inconsistency) => found.push(issue);
+
+        const cutoff = new Date(Date.now() - GRACE_MS);
+        const unfinished = await Job.find({ status: { $in: [JobStatus.PENDING, JobStatus.PROCESSING] }, updatedAt: { $lt: cutoff } })
+            .select('jobId status userId workspaceId queueJobId dependsOn')
+            .limit(SCAN_LIMIT)
+            .lean<UnfinishedJob[]>();
+
+        for (const job of unfinished) {
+            const bullJob = await jobQueue.getJob(job.queueJobId || job.jobId);
+            const state = bullJob ? await bullJob.getState() : null;
+            const issue = { jobId: job.jobId, mongoStatus: job.status, queueState: state };
+
+            if (!bullJob && job.status === JobStatus.PENDING && job.dependsOn?.length) {
+                // Pipeline jobs aren't queued until their upstream jobs have completed
+                if (await pipelineService.isReady({ dependsOn: job.dependsOn })) {
+                    report({ ...issue, kind: 'missing', repair: 'Queued, its upstream jobs have completed' });
+                    if (apply) await pipelineService.enqueue(job.jobId);
+                }
+            } else if (!bullJob || state === 'unknown') {
+                report({ ...issue, kind: 'missing', repair: 'Marked failed' });
+                if (apply) await this.settle(job, JobStatus.FAILED, { error: 'Job was lost from the queue' });
+            } else if (state === 'completed') {
+                report({ ...issue, kind: 'out_of_sync', repair: 'Marked completed with the queue result' });
+                if (apply) await this.settle(job, JobStatus.COMPLETED, { result: bullJob.returnvalue, progress: 100 });
+            } else if (state === 'failed') {
+                report({ ...issue, kind: 'out_of_sync', repair: 'Marked failed with the queue error' });
+                if (apply) await this.settle(job, JobStatus.FAILED, { error: bullJob.failedReason || 'Job failed' });
+            } else if (job.status === JobStatus.PROCESSING && QUEUED_STATES.includes(state as QueueState)) {
+                report({ ...issue, kind: 'stalled', repair: 'Marked pending; the queue will run it again' });
+                if (apply) await this.settle(job, JobStatus.PENDING, {});
+            }
+        }
+
+        for (const bullJob of await this.findOrphans()) {
+            const state = await bullJob.getState();
+            report({ kind: 'orphaned', jobId: bullJob.data.jobId, mongoStatus: null, queueState: state, repair: 'Removed from the queue' });
+            if (apply) {
+                await bullJob.remove().catch(err => console.error(`Failed to remove orphaned job ${bullJob.id}:`, err));
+            }
+        }
+
+        return found;
+    }
+
+    // Queued jobs whose record is gone, e.g. deleted with its project while the job was being added
+    private async findOrphans(): Promise<BullJob[]> {
+        const queued = await jobQueue.getJobs(['active', ...QUEUED_STATES], 0, SCAN_LIMIT - 1);
+        // Schedule occurrences carry no jobId until they start
+        const tracked = queued.filter(bullJob => bullJob?.data?.jobId);
+        if (tracked.length === 0) return [];
+
+        const known = await Job.find({ jobId: { $in: tracked.map(bullJob => bullJob.data.jobId) } }).select('jobId').lean();
+        const knownIds = new Set(known.map(job => job.jobId));
+        return tracked.filter(bullJob => !knownIds.has(bullJob.data.jobId) && bullJob.timestamp < Date.now() - GRACE_MS);
+    }
+
+    // Only applies if the record hasn't moved on since it was read
+    private async settle(job: UnfinishedJob, status: JobStatus, update: Record<string, unknown>) {
+        const finished = status !== JobStatus.PENDING;
+        const { modifiedCount } = await Job.updateOne(
+            { jobId: job.jobId, status: job.status },
+            { status, ...update, ...(finished && { completedAt: new Date() }) }
+        );
+        if (!modifiedCount) return;
+
+        const error = typeof update.error === 'string' ? update.error : undefined;
+        await publishJobEvent({ type: 'status', jobId: job.jobId, userId: job.userId, workspaceId: job.workspaceId, status, error });
+        if (status === JobStatus.FAILED) await jobService.settleDownstream(job.jobId);
+    }
+}
+
+export default new ReconcilerService();
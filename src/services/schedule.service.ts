@@ -0,0 +1,211 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Role } from '@prisma/client';
+import { Job, JobStatus, JobType } from '../models/job.model';
+import { ISchedule, Schedule, ScheduleStatus } from '../models/schedule.model';
+import { addSchedule, getNextScheduledRun, removeSchedule, ScheduledJobData } from '../queues/job.queue';
+import { publishJobEvent } from '../queues/job.events';
+import { ApiError } from '../middleware/error.middleware';
+import { getProjectRole, hasRole } from '../middleware/auth.middleware';
+import { CreateJobInput } from '../schemas/validation.schemas';
+import jobService from './job.service';
+import quotaService from './quota.service';
+
+// Active plus paused schedules per user; 0 means unlimited
+const MAX_SCHEDULES_PER_USER = parseInt(process.env.SCHEDULE_QUOTA_USER || '50');
+
+/**
+ * Schedules live in Mongo and are mirrored into BullMQ as delayed jobs (runAt)
+ * or job schedulers (cron). Nothing is run here: each time BullMQ fires, the
+ * worker asks startOccurrence for a fresh Job record and processes that.
+ */
+export class ScheduleService {
+    async create(userId: string, input: CreateJobInput) {
+        if (input.runAt && input.runAt.getTime() <= Date.now()) {
+            throw new ApiError(400, 'runAt must be in the future');
+        }
+        await jobService.ensureScope(input);
+        // Only the priority limit applies here; each occurrence is checked as it starts
+        await quotaService.check(userId, { projectId: input.projectId, priority: input.priority, count: 0 });
+        await this.ensureScheduleQuota(userId);
+
+        const schedule = await Schedule.create({
+            scheduleId: uuidv4(),
+            type: input.type as JobType,
+            payload: input.payload,
+            priority: input.priority || 5,
+            timeoutMs: input.timeoutMs,
+            runAt: input.runAt,
+            cron: input.cron,
+            timezone: input.timezone,
+            userId,
+            projectId: input.projectId,
+            workspaceId: input.workspaceId
+        });
+
+        try {
+            schedule.nextRunAt = await this.register(schedule);
+        } catch (error) {
+            await Schedule.deleteOne({ scheduleId: schedule.scheduleId });
+            // BullMQ parses the pattern on registration, so a bad one surfaces here
+            if (schedule.cron) throw new ApiError(400, 'Invalid cron expression');
+            throw error;
+        }
+
+        await schedule.save();
+        return schedule;
+    }
+
+    async getAllForUser(userId: string, status?: ScheduleStatus) {
+        const query: Record<string, unknown> = { userId };
+        if (status) query.status = status;
+        return Schedule.find(query).sort({ createdAt: -1 }).lean();
+    }
+
+    async getById(scheduleId: string, userId: string) {
+        const schedule = await Schedule.findOne({ scheduleId, userId });
+        if (!schedule) throw new ApiError(404, 'Schedule not found');
+        return schedule;
+    }
+
+    async pause(scheduleId: string, userId: string) {
+        const schedule = await this.getById(scheduleId, userId);
+        if (schedule.status !== ScheduleStatus.ACTIVE) throw new ApiError(400, 'Can only pause active schedules');
+
+        await this.unregister(scheduleId);
+        schedule.status = ScheduleStatus.PAUSED;
+        schedule.nextRunAt = undefined;
+        await schedule.save();
+        return schedule;
+    }
+
+    /** A one-off schedule whose runAt passed while paused runs right away. */
+    async resume(scheduleId: string, userId: string) {
+        const schedule = await this.getById(scheduleId, userId);
+        if (schedule.status !== ScheduleStatus.PAUSED) throw new ApiError(400, 'Can only resume paused schedules');
+
+        schedule.nextRunAt = await this.register(schedule);
+        schedule.status = ScheduleStatus.ACTIVE;
+        await schedule.save();
+        return schedule;
+    }
+
+    /** Past occurrences are kept; they still reference the schedule id. */
+    async delete(scheduleId: string, userId: string) {
+        const schedule = await this.getById(scheduleId, userId);
+        if (schedule.status === ScheduleStatus.ACTIVE) await this.unregister(scheduleId);
+
+        await Schedule.deleteOne({ scheduleId });
+        return { message: 'Schedule deleted' };
+    }
+
+    async deleteForProject(projectId: string) {
+        const active = await Schedule.find({ projectId, status: ScheduleStatus.ACTIVE }).select('scheduleId').lean();
+        for (const { scheduleId } of active) {
+            await this.unregister(scheduleId);
+        }
+        await Schedule.deleteMany({ projectId });
+    }
+
+    /**
+     * Called by the worker when BullMQ fires a schedule. Creates the Job record
+     * for this occurrence and resolves its id, or null if the schedule was
+     * paused or deleted after the run was queued. Occurrences count against the
+     * job quotas like submissions; one over quota is recorded as skipped and
+     * also resolves null. So is one whose owner is no longer a collaborator on
+     * the schedule's project, and the schedule is paused until they resume it.
+     */
+    async startOccurrence(data: ScheduledJobData): Promise<string | null> {
+        const schedule = await Schedule.findOne({ scheduleId: data.scheduleId, status: ScheduleStatus.ACTIVE });
+        if (!schedule) return null;
+
+        const lostAccess = !(await this.canRun(schedule));
+        let skipReason = lostAccess ? 'Schedule owner is no longer a collaborator on this project' : undefined;
+        if (!skipReason) {
+            try {
+                await quotaService.check(schedule.userId, { projectId: schedule.projectId ?? undefined, priority: schedule.priority });
+            } catch (error) {
+                if (!(error instanceof ApiError && error.statusCode === 429)) throw error;
+                skipReason = error.message;
+            }
+        }
+        const status = skipReason ? JobStatus.SKIPPED : JobStatus.PENDING;
+
+        const jobId = uuidv4();
+        await Job.create({
+            jobId,
+            type: schedule.type,
+            status,
+            ...(skipReason && { error: `Skipped: ${skipReason}`, completedAt: new Date() }),
+            payload: schedule.payload,
+            priority: schedule.priority,
+            timeoutMs: schedule.timeoutMs,
+            userId: schedule.userId,
+            projectId: schedule.projectId,
+            workspaceId: schedule.workspaceId,
+            scheduleId: schedule.scheduleId,
+            maxAttempts: 3
+        });
+
+        schedule.runCount += 1;
+        schedule.lastRunAt = new Date();
+        if (lostAccess) {
+            await this.unregister(schedule.scheduleId);
+            schedule.status = ScheduleStatus.PAUSED;
+            schedule.nextRunAt = undefined;
+        } else if (schedule.cron) {
+            schedule.nextRunAt = await getNextScheduledRun(schedule.scheduleId);
+        } else {
+            schedule.status = ScheduleStatus.COMPLETED;
+            schedule.nextRunAt = undefined;
+        }
+        await schedule.save();
+
+        await publishJobEvent({ type: 'status', jobId, userId: schedule.userId, workspaceId: schedule.workspaceId, status });
+        return skipReason ? null : jobId;
+    }
+
+    // Access is checked when the schedule is created, but the owner may have been removed since
+    private async canRun(schedule: ISchedule) {
+        if (!schedule.projectId) return true;
+        try {
+            const role = await getProjectRole(schedule.userId, schedule.projectId);
+            return !!role && hasRole(role, Role.COLLABORATOR);
+        } catch (error) {
+            if (error instanceof ApiError && error.statusCode === 404) return false;
+            throw error;
+        }
+    }
+
+    private async ensureScheduleQuota(userId: string) {
+        if (!MAX_SCHEDULES_PER_USER) return;
+
+        const count = await Schedule.countDocuments({ userId, status: { $in: [ScheduleStatus.ACTIVE, ScheduleStatus.PAUSED] } });
+        if (count >= MAX_SCHEDULES_PER_USER) {
+            throw new ApiError(429, `Schedule quota exceeded (${MAX_SCHEDULES_PER_USER} active or paused schedules)`);
+        }
+    }
+
+    private register(schedule: ISchedule) {
+        const data: ScheduledJobData = {
+            scheduleId: schedule.scheduleId,
+            type: schedule.type,
+            payload: schedule.payload,
+            userId: schedule.userId,
+            projectId: schedule.projectId,
+            workspaceId: schedule.workspaceId,
+            timeoutMs: schedule.timeoutMs ?? undefined
+        };
+        return addSchedule(data, { runAt: schedule.runAt, cron: schedule.cron, timezone: schedule.timezone }, schedule.priority);
+    }
+
+    private async unregister(scheduleId: string) {
+        try {
+            await removeSchedule(scheduleId);
+        } catch (error) {
+            // An occurrence that is already running can't be removed; startOccurrence ignores the rest
+            console.error('Failed to remove schedule from queue:', error);
+        }
+    }
+}
+
+export default new ScheduleService();
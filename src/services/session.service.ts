@@ -0,0 +1,111 @@
+import prisma from '../config/prisma';
+import redis from '../config/redis';
+import { ApiError } from '../middleware/error.middleware';
+
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+const PURGE_INTERVAL_MS = parseInt(process.env.SESSION_PURGE_INTERVAL_MS || '3600000');
+
+/** Where a session was signed in from, recorded on each of its refresh tokens. */
+export interface ClientInfo {
+    device?: string;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+// Access tokens are stateless, so a revoked session is remembered until its last one expires
+export const revokedSessionKey = (sessionId: string) => `session:revoked:${sessionId}`;
+
+/**
+ * A session is a refresh-token family: every token rotated from the same login
+ * shares its familyId, and the latest unused one is the session's live token.
+ */
+export class SessionService {
+    private purgeTimer?: NodeJS.Timeout;
+
+    async list(userId: string, currentSessionId?: string) {
+        const tokens = await prisma.refreshToken.findMany({
+            where: { userId, usedAt: null, revokedAt: null, expiresAt: { gt: new Date() } },
+            orderBy: { createdAt: 'desc' }
+        });
+
+        return tokens.map(token => ({
+            id: token.familyId,
+            device: token.device,
+            ipAddress: token.ipAddress,
+            userAgent: token.userAgent,
+            createdAt: token.sessionStartedAt,
+            lastActiveAt: token.createdAt,
+            expiresAt: token.expiresAt,
+            current: token.familyId === currentSessionId
+        }));
+    }
+
+    async revoke(userId: string, sessionId: string) {
+        const revoked = await this.revokeFamily(sessionId, userId);
+        if (!revoked) throw new ApiError(404, 'Session not found');
+        return { message: 'Session revoked' };
+    }
+
+    /** Logs out everywhere, including the calling session. */
+    async revokeAll(userId: string) {
+        const families = await prisma.refreshToken.findMany({
+            where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+            select: { familyId: true },
+            distinct: ['familyId']
+        });
+        for (const { familyId } of families) {
+            await this.revokeFamily(familyId, userId);
+        }
+        return { message: 'Logged out of all sessions', revoked: families.length };
+    }
+
+    /** Revokes every token in the family and the access tokens issued with them. */
+    async revokeFamily(familyId: string, userId?: string) {
+        const { count } = await prisma.refreshToken.updateMany({
+            where: { familyId, revokedAt: null, ...(userId && { userId }) },
+            data: { revokedAt: new Date() }
+        });
+        if (count > 0) await redis.setex(revokedSessionKey(familyId), ACCESS_TOKEN_TTL_SECONDS, '1');
+        return count;
+    }
+
+    async isRevoked(sessionId: string) {
+        return Boolean(await redis.get(revokedSessionKey(sessionId)));
+    }
+
+    /** Rows are kept past rotation for reuse detection, until the family would have expired anyway. */
+    async purgeExpired() {
+        const { count } = await prisma.refreshToken.deleteMany({ where: { expiresAt: { lt: new Date() } } });
+        return count;
+    }
+
+    startPurge(intervalMs = PURGE_INTERVAL_MS) {
+        if (this.purgeTimer) return;
+
+        this.purgeTimer = setInterval(() => {
+            this.purgeExpired().catch(err => console.error('Refresh token purge failed:', err));
+        }, intervalMs);
+        this.purgeTimer.unref();
+    }
+
+    stopPurge() {
+        if (this.purgeTimer) clearInterval(this.purgeTimer);
+        this.purgeTimer = undefined;
+    }
+}
+
+/** A short label such as "Chrome on macOS" for clients that don't name themselves. */
+export function describeDevice(userAgent?: string) {
+    if (!userAgent) return undefined;
+
+    const browser = [['Edg/', 'Edge'], ['OPR/', 'Opera'], ['Firefox/', 'Firefox'], ['Chrome/', 'Chrome'], ['Safari/', 'Safari']]
+        .find(([token]) => userAgent.includes(token))?.[1];
+    const os = [['iPhone', 'iOS'], ['iPad', 'iOS'], ['Android', 'Android'], ['Windows', 'Windows'], ['Mac OS X', 'macOS'], ['Linux', 'Linux']]
+        .find(([token]) => userAgent.includes(token))?.[1];
+
+    if (browser) return os ? `${browser} on ${os}` : browser;
+    // Scripts and SDKs, e.g. "curl/8.4.0"
+    return userAgent.split(/[/\s]/)[0].slice(0, 50) || undefined;
+}
+
+export default new SessionService();
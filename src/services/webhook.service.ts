@@ -0,0 +1,327 @@
+import crypto from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { v4 as uuidv4 } from 'uuid';
+import { Role } from '@prisma/client';
+import prisma from '../config/prisma';
+import { Job, JobStatus } from '../models/job.model';
+import { DeliveryStatus, WebhookDelivery } from '../models/webhookDelivery.model';
+import { addDelivery } from '../queues/webhook.queue';
+import { ApiError } from '../middleware/error.middleware';
+import { getProjectRole } from '../middleware/auth.middleware';
+import { CreateWebhookInput, UpdateWebhookInput, WebhookEvent } from '../schemas/validation.schemas';
+
+const TIMEOUT_MS = parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000');
+// Only for local development against receivers on this machine or network
+const ALLOW_PRIVATE_URLS = process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true';
+
+// Loopback, private, link-local (cloud metadata), shared, multicast and reserved ranges
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+    ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+] as const) {
+    BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+// IPv4-mapped addresses (::ffff:a.b.c.d) are checked against the IPv4 ranges above
+for (const [network, prefix] of [
+    ['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const) {
+    BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+// The secret is only returned when the webhook is created
+const WEBHOOK_FIELDS = {
+    id: true, userId: true, projectId: true, url: true, events: true,
+    description: true, active: true, createdAt: true, updatedAt: true
+} as const;
+
+const JOB_EVENTS: Partial<Record<JobStatus, WebhookEvent>> = {
+    [JobStatus.COMPLETED]: 'job.completed',
+    [JobStatus.FAILED]: 'job.failed',
+    [JobStatus.CANCELLED]: 'job.cancelled'
+};
+
+/**
+ * Receivers recompute HMAC-SHA256(secret, `${timestamp}.${body}`) and compare it
+ * with v1 in the X-Webhook-Signature header; the timestamp guards against replays.
+ */
+export function signPayload(secret: string, timestamp: number, body: string) {
+    return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+export function isPublicAddress(address: string) {
+    const family = net.isIP(address);
+    return family !== 0 && !BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+// URL hostnames keep the brackets around IPv6 literals
+const hostOf = (url: URL) => url.hostname.replace(/^\[|\]$/g, '');
+
+// Used as the socket's DNS lookup, so the addresses checked are the ones connected to
+const publicLookup = ((hostname: string, options: dns.LookupOptions, callback: (...args: unknown[]) => void) => {
+    dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+        if (err) return callback(err);
+        if (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address))) {
+            return callback(new Error(`${hostname} does not resolve to a public address`));
+        }
+        if (options.all) return callback(null, addresses);
+        callback(null, addresses[0].address, addresses[0].family);
+    });
+}) as net.LookupFunction;
+
+/**
+ * Outgoing webhooks. Personal webhooks receive events for the user's own jobs;
+ * project webhooks, managed by the owner, receive project, collaborator and
+ * workspace events plus events for jobs scoped to the project. Each matching
+ * webhook gets a WebhookDelivery record, delivered by the worker through BullMQ.
+ * URLs must resolve to public addresses, checked on save and on every delivery.
+ */
+export class WebhookService {
+    constructor(private readonly allowPrivateUrls = ALLOW_PRIVATE_URLS) {}
+
+    async create(userId: string, input: CreateWebhookInput) {
+        this.ensureEvents(input.projectId, input.events);
+        await this.ensurePublicUrl(input.url);
+
+        return prisma.webhook.create({
+            data: {
+                userId,
+                projectId: input.projectId,
+                url: input.url,
+                events: input.events,
+                description: input.description,
+                secret: `whsec_${crypto.randomBytes(24).toString('hex')}`
+            }
+        });
+    }
+
+    /** Personal webhooks, or the webhooks of a project the user owns. */
+    async list(userId: string, projectId?: string) {
+        if (projectId) await this.ensureOwner(userId, projectId);
+
+        return prisma.webhook.findMany({
+            where: projectId ? { projectId } : { userId, projectId: null },
+            select: WEBHOOK_FIELDS,
+            orderBy: { createdAt: 'desc' }
+        });
+    }
+
+    async getById(webhookId: string, userId: string) {
+        const webhook = await prisma.webhook.findUnique({ where: { id: webhookId }, select: WEBHOOK_FIELDS });
+        if (!webhook || !(await this.canManage(webhook, userId))) throw new ApiError(404, 'Webhook not found');
+        return webhook;
+    }
+
+    async update(webhookId: string, userId: string, input: UpdateWebhookInput) {
+        const webhook = await this.getById(webhookId, userId);
+        if (input.events) this.ensureEvents(webhook.projectId, input.events);
+        if (input.url) await this.ensurePublicUrl(input.url);
+
+        return prisma.webhook.update({ where: { id: webhookId }, data: input, select: WEBHOOK_FIELDS });
+    }
+
+    /** The delivery log is kept until it expires. */
+    async delete(webhookId: string, userId: string) {
+        await this.getById(webhookId, userId);
+        await prisma.webhook.delete({ where: { id: webhookId } });
+        return { message: 'Webhook deleted' };
+    }
+
+    async listDeliveries(webhookId: string, userId: string, options: { limit?: number; offset?: number } = {}) {
+        await this.getById(webhookId, userId);
+
+        const limit = Math.min(options.limit || 20, 100);
+        const offset = options.offset || 0;
+
+        const [deliveries, total] = await Promise.all([
+            // Older entries may still hold a response body; it is never shown
+            WebhookDelivery.find({ webhookId }).select('-responseBody').sort({ createdAt: -1 }).skip(offset).limit(limit).lean(),
+            WebhookDelivery.countDocuments({ webhookId })
+        ]);
+
+        return {
+            deliveries,
+            pagination: { total, limit, offset, hasMore: offset + deliveries.length < total }
+        };
+    }
+
+    /** Sends a logged event again as a new delivery; the event id stays the same. */
+    async redeliver(webhookId: string, deliveryId: string, userId: string) {
+        await this.getById(webhookId, userId);
+
+        const original = await WebhookDelivery.findOne({ deliveryId, webhookId }).lean();
+        if (!original) throw new ApiError(404, 'Delivery not found');
+
+        return this.queueDelivery(webhookId, original.eventId, original.event, original.payload, deliveryId);
+    }
+
+    /**
+     * Queues a delivery to every active webhook subscribed to the event in scope.
+     * Never throws: a webhook problem must not fail the change that triggered it.
+     */
+    async emit(event: WebhookEvent, scope: { userId?: string; projectId?: string | null }, data: Record<string, unknown>) {
+        try {
+            const owners = [];
+            if (scope.userId) owners.push({ userId: scope.userId, projectId: null });
+            if (scope.projectId) owners.push({ projectId: scope.projectId });
+            if (owners.length === 0) return;
+
+            const webhooks = await prisma.webhook.findMany({
+                where: { active: true, events: { has: event }, OR: owners },
+                select: { id: true }
+            });
+            if (webhooks.length === 0) return;
+
+            const eventId = uuidv4();
+            const payload = { id: eventId, event, createdAt: new Date().toISOString(), data };
+            for (const webhook of webhooks) {
+                await this.queueDelivery(webhook.id, eventId, event, payload);
+            }
+        } catch (error) {
+            console.error(`Failed to queue ${event} webhooks:`, error);
+        }
+    }
+
+    /** Emits job.completed, job.failed or job.cancelled once a job has settled. */
+    async emitJobStatus(jobId: string, status: JobStatus) {
+        const event = JOB_EVENTS[status];
+        if (!event) return;
+
+        try {
+            const job = await Job.findOne({ jobId })
+                .select('-_id jobId type status userId projectId workspaceId pipelineId scheduleId result error createdAt completedAt')
+                .lean();
+            if (job) await this.emit(event, { userId: job.userId, projectId: job.projectId }, job);
+        } catch (error) {
+            console.error(`Failed to emit ${event} for job ${jobId}:`, error);
+        }
+    }
+
+    /**
+     * Makes one delivery attempt and logs it. Throws on failure so BullMQ retries;
+     * a failed last attempt also marks the delivery failed.
+     */
+    async deliver(deliveryId: string, attempt: number, lastAttempt: boolean) {
+        const delivery = await WebhookDelivery.findOne({ deliveryId }).lean();
+        if (!delivery || delivery.status !== DeliveryStatus.PENDING) return;
+
+        const webhook = await prisma.webhook.findUnique({ where: { id: delivery.webhookId } });
+        if (!webhook || !webhook.active) {
+            const error = webhook ? 'Webhook is disabled' : 'Webhook was deleted';
+            await WebhookDelivery.updateOne({ deliveryId }, { status: DeliveryStatus.FAILED, error });
+            return;
+        }
+
+        const body = JSON.stringify(delivery.payload);
+        const timestamp = Math.floor(Date.now() / 1000);
+        const startedAt = Date.now();
+        let statusCode: number | undefined;
+        let error: string | undefined;
+
+        try {
+            statusCode = await this.post(new URL(webhook.url), body, {
+                'Content-Type': 'application/json',
+                'User-Agent': 'collaborative-workspace-webhooks',
+                'X-Webhook-Id': delivery.eventId,
+                'X-Webhook-Delivery': deliveryId,
+                'X-Webhook-Event': delivery.event,
+                'X-Webhook-Signature': `t=${timestamp},v1=${signPayload(webhook.secret, timestamp, body)}`
+            });
+            if (statusCode < 200 || statusCode >= 300) error = `Endpoint responded with ${statusCode}`;
+        } catch (err) {
+            error = err instanceof Error ? err.message : 'Delivery failed';
+        }
+
+        const durationMs = Date.now() - startedAt;
+        const status = !error ? DeliveryStatus.DELIVERED : lastAttempt ? DeliveryStatus.FAILED : DeliveryStatus.PENDING;
+        await WebhookDelivery.updateOne({ deliveryId }, {
+            status,
+            responseStatus: statusCode ?? null,
+            error: error ?? null,
+            ...(!error && { deliveredAt: new Date() }),
+            $push: { attempts: { attempt, timestamp: new Date(), statusCode, error, durationMs } }
+        });
+
+        if (error) throw new Error(error);
+    }
+
+    /**
+     * POSTs the body and resolves with the status code. Redirects are not followed,
+     * as they would send the signed payload somewhere else, and the response body
+     * is discarded so the delivery log can't be used to read internal services.
+     */
+    private post(url: URL, body: string, headers: Record<string, string>) {
+        return new Promise<number>((resolve, reject) => {
+            if (!this.allowPrivateUrls && net.isIP(hostOf(url)) && !isPublicAddress(hostOf(url))) {
+                return reject(new Error(`${url.hostname} is not a public address`));
+            }
+
+            const request = (url.protocol === 'https:' ? https : http).request(url, {
+                method: 'POST',
+                headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+                lookup: this.allowPrivateUrls ? undefined : publicLookup
+            }, response => {
+                clearTimeout(timer);
+                response.destroy();
+                resolve(response.statusCode ?? 0);
+            });
+            const timer = setTimeout(() => request.destroy(new Error(`No response within ${TIMEOUT_MS}ms`)), TIMEOUT_MS);
+            request.on('error', err => {
+                clearTimeout(timer);
+                reject(err);
+            });
+            request.end(body);
+        });
+    }
+
+    private async ensurePublicUrl(url: string) {
+        if (this.allowPrivateUrls) return;
+
+        const host = hostOf(new URL(url));
+        const addresses = net.isIP(host)
+            ? [{ address: host }]
+            : await dns.promises.lookup(host, { all: true }).catch(() => {
+                throw new ApiError(400, 'Webhook URL host could not be resolved');
+            });
+        if (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address))) {
+            throw new ApiError(400, 'Webhook URL must point to a public address');
+        }
+    }
+
+    private async queueDelivery(webhookId: string, eventId: string, event: string, payload: Record<string, unknown>, redeliveryOf?: string) {
+        const delivery = await WebhookDelivery.create({
+            deliveryId: uuidv4(),
+            eventId,
+            webhookId,
+            event,
+            payload,
+            status: DeliveryStatus.PENDING,
+            redeliveryOf
+        });
+        await addDelivery(delivery.deliveryId);
+        return delivery;
+    }
+
+    // Personal webhooks only ever see the user's own jobs
+    private ensureEvents(projectId: string | null | undefined, events: WebhookEvent[]) {
+        if (!projectId && events.some(event => !event.startsWith('job.'))) {
+            throw new ApiError(400, 'Only project webhooks can subscribe to project, collaborator and workspace events');
+        }
+    }
+
+    private async ensureOwner(userId: string, projectId: string) {
+        if ((await getProjectRole(userId, projectId)) !== Role.OWNER) {
+            throw new ApiError(403, 'Only the project owner can manage its webhooks');
+        }
+    }
+
+    private async canManage(webhook: { userId: string; projectId: string | null }, userId: string) {
+        if (!webhook.projectId) return webhook.userId === userId;
+        return (await getProjectRole(userId, webhook.projectId)) === Role.OWNER;
+    }
+}
+
+export default new WebhookService();
@@ -2,6 +2,8 @@ import prisma from '../config/prisma';
 import redis from '../config/redis';
 import { ApiError } from '../middleware/error.middleware';
 import { CreateWorkspaceInput, UpdateWorkspaceInput } from '../schemas/validation.schemas';
+import documentService from './document.service';
+import webhookService from './webhook.service';
 
 const CACHE_TTL = 300;
 
@@ -17,10 +19,12 @@ export class WorkspaceService {
             throw new ApiError(403, 'Access denied');
         }
 
-        return prisma.workspace.create({
+        const workspace = await prisma.workspace.create({
             data: { name: input.name, description: input.description, projectId: input.projectId },
             include: { project: { select: { id: true, name: true } } }
         });
+        await webhookService.emit('workspace.created', { projectId: workspace.projectId }, { workspace });
+        return workspace;
     }
 
     async getById(workspaceId: string) {
@@ -52,12 +56,17 @@ export class WorkspaceService {
             include: { project: { select: { id: true, name: true } } }
         });
         await redis.del(`workspace:${workspaceId}`);
+        await webhookService.emit('workspace.updated', { projectId: workspace.projectId }, { workspace });
         return workspace;
     }
 
     async delete(workspaceId: string) {
-        await prisma.workspace.delete({ where: { id: workspaceId } });
+        const files = await prisma.file.findMany({ where: { workspaceId }, select: { id: true } });
+        const workspace = await prisma.workspace.delete({ where: { id: workspaceId } });
         await redis.del(`workspace:${workspaceId}`);
+        // Files cascade with the workspace; their documents are only in memory and Redis
+        await documentService.discard(workspaceId, files.map(file => file.id));
+        await webhookService.emit('workspace.deleted', { projectId: workspace.projectId }, { workspace });
         return { message: 'Workspace deleted' };
     }
 }
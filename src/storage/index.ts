@@ -0,0 +1,31 @@
+import { LocalStorageDriver } from './local.driver';
+import { S3StorageDriver } from './s3.driver';
+import { StorageDriver } from './types';
+
+export * from './types';
+
+// STORAGE_DRIVER picks the backend: 'local' (default) or 's3'
+export function createStorage(): StorageDriver {
+    const driver = process.env.STORAGE_DRIVER || 'local';
+
+    if (driver === 'local') {
+        return new LocalStorageDriver(process.env.STORAGE_LOCAL_DIR || 'storage');
+    }
+    if (driver === 's3') {
+        if (!process.env.S3_BUCKET) throw new Error('S3_BUCKET is required for the s3 storage driver');
+        return new S3StorageDriver(process.env.S3_BUCKET, {
+            region: process.env.S3_REGION || 'us-east-1',
+            endpoint: process.env.S3_ENDPOINT || undefined,
+            forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+            credentials: process.env.S3_ACCESS_KEY_ID ? {
+                accessKeyId: process.env.S3_ACCESS_KEY_ID,
+                secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || ''
+            } : undefined
+        });
+    }
+    throw new Error(`Unknown storage driver: ${driver}`);
+}
+
+const storage = createStorage();
+
+export default storage;
@@ -0,0 +1,40 @@
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+import { StorageDriver, StoredObject } from './types';
+
+/** Stores objects as files under a root directory, one file per key. */
+export class LocalStorageDriver implements StorageDriver {
+    private readonly root: string;
+
+    constructor(root: string) {
+        this.root = path.resolve(root);
+    }
+
+    async put(key: string, body: Buffer) {
+        const filePath = this.resolve(key);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, body);
+    }
+
+    async get(key: string): Promise<StoredObject | null> {
+        const filePath = this.resolve(key);
+        try {
+            const { size } = await fs.stat(filePath);
+            return { stream: createReadStream(filePath), size };
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+            throw error;
+        }
+    }
+
+    async delete(key: string) {
+        await fs.rm(this.resolve(key), { force: true });
+    }
+
+    // Keys come from our own code, but never let one point outside the root
+    private resolve(key: string) {
+        const filePath = path.resolve(this.root, key);
+        if (!filePath.startsWith(this.root + path.sep)) throw new Error(`Invalid storage key: ${key}`);
+        return filePath;
+    }
+}
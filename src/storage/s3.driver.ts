@@ -0,0 +1,33 @@
+import { Readable } from 'stream';
+import { DeleteObjectCommand, GetObjectCommand, NoSuchKey, PutObjectCommand, S3Client, S3ClientConfig } from '@aws-sdk/client-s3';
+import { StorageDriver, StoredObject } from './types';
+
+/**
+ * Stores objects in an S3 bucket. With an endpoint and path-style addressing
+ * it works against S3-compatible servers such as MinIO.
+ */
+export class S3StorageDriver implements StorageDriver {
+    private readonly client: S3Client;
+
+    constructor(private readonly bucket: string, config: S3ClientConfig) {
+        this.client = new S3Client(config);
+    }
+
+    async put(key: string, body: Buffer, contentType: string) {
+        await this.client.send(new PutObjectCommand({ Bucket: this.bucket, Key: key, Body: body, ContentType: contentType }));
+    }
+
+    async get(key: string): Promise<StoredObject | null> {
+        try {
+            const object = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+            return { stream: object.Body as Readable, size: object.ContentLength };
+        } catch (error) {
+            if (error instanceof NoSuchKey) return null;
+            throw error;
+        }
+    }
+
+    async delete(key: string) {
+        await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+    }
+}
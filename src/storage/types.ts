@@ -0,0 +1,15 @@
+import { Readable } from 'stream';
+
+export interface StoredObject {
+    stream: Readable;
+    size?: number;
+}
+
+/** Flat key/value blob store; keys are '/'-separated paths like `jobs/<jobId>/<name>`. */
+export interface StorageDriver {
+    put(key: string, body: Buffer, contentType: string): Promise<void>;
+    /** Resolves null when there is no object under the key. */
+    get(key: string): Promise<StoredObject | null>;
+    /** Deleting a missing object is not an error. */
+    delete(key: string): Promise<void>;
+}
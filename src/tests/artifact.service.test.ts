@@ -0,0 +1,93 @@
+import { Readable } from 'stream';
+
+jest.mock('../storage', () => ({ __esModule: true, default: { put: jest.fn(), get: jest.fn(), delete: jest.fn() } }));
+jest.mock('../models/job.model', () => ({
+    Job: { updateOne: jest.fn(), findOne: jest.fn(), find: jest.fn() }
+}));
+
+import storage from '../storage';
+import { Job } from '../models/job.model';
+import { ArtifactService } from '../services/artifact.service';
+
+// Mongoose query stand-in supporting .select().lean()
+const query = (value: unknown) => ({ select: () => ({ lean: () => Promise.resolve(value) }) });
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('ArtifactService', () => {
+    const artifactService = new ArtifactService();
+
+    beforeEach(() => jest.clearAllMocks());
+
+    describe('attach', () => {
+        it('should store the content and replace an artifact with the same name', async () => {
+            const artifact = await artifactService.attach('job-1', 'export.csv', 'a,b\n', 'text/csv');
+
+            expect(storage.put).toHaveBeenCalledWith('jobs/job-1/export.csv', Buffer.from('a,b\n'), 'text/csv');
+            expect(Job.updateOne).toHaveBeenNthCalledWith(1, { jobId: 'job-1' }, { $pull: { artifacts: { name: 'export.csv' } } });
+            expect(Job.updateOne).toHaveBeenNthCalledWith(2, { jobId: 'job-1' }, { $push: { artifacts: artifact } });
+            expect(artifact).toMatchObject({ size: 4, contentType: 'text/csv' });
+            expect(artifact.expiresAt.getTime()).toBeGreaterThan(Date.now());
+        });
+
+        it('should refuse names that are not a single path segment', async () => {
+            await expect(artifactService.attach('job-1', '../secrets', 'x')).rejects.toThrow('Invalid artifact name');
+            expect(storage.put).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('signed links', () => {
+        it('should accept its own links and nothing else', () => {
+            const { url } = artifactService.createLink('job-1', 'export.csv');
+            const params = new URL(url, 'http://localhost').searchParams;
+            const expires = Number(params.get('expires'));
+            const signature = params.get('signature')!;
+
+            expect(artifactService.verifyLink('job-1', 'export.csv', expires, signature)).toBe(true);
+            expect(artifactService.verifyLink('job-2', 'export.csv', expires, signature)).toBe(false);
+            expect(artifactService.verifyLink('job-1', 'export.csv', expires + 60, signature)).toBe(false);
+        });
+
+        it('should reject expired links', () => {
+            const past = Math.floor(Date.now() / 1000) - 1;
+            expect(artifactService.verifyLink('job-1', 'export.csv', past, 'anything')).toBe(false);
+        });
+    });
+
+    describe('open', () => {
+        it('should stream a stored artifact', async () => {
+            const artifact = { name: 'export.csv', key: 'jobs/job-1/export.csv', expiresAt: new Date(Date.now() + HOUR_MS) };
+            const object = { stream: Readable.from(['a,b\n']), size: 4 };
+            (Job.findOne as jest.Mock).mockReturnValue(query({ artifacts: [artifact] }));
+            (storage.get as jest.Mock).mockResolvedValue(object);
+
+            const result = await artifactService.open('job-1', 'export.csv');
+
+            expect(result.object).toBe(object);
+            expect(storage.get).toHaveBeenCalledWith('jobs/job-1/export.csv');
+        });
+
+        it('should 404 once retention has run out', async () => {
+            const artifact = { name: 'export.csv', key: 'jobs/job-1/export.csv', expiresAt: new Date(Date.now() - HOUR_MS) };
+            (Job.findOne as jest.Mock).mockReturnValue(query({ artifacts: [artifact] }));
+
+            await expect(artifactService.open('job-1', 'export.csv')).rejects.toThrow('Artifact not found');
+            expect(storage.get).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('cleanupExpired', () => {
+        it('should delete expired content and keep the rest', async () => {
+            const expired = { key: 'jobs/job-1/old.json', expiresAt: new Date(Date.now() - HOUR_MS) };
+            const current = { key: 'jobs/job-1/new.json', expiresAt: new Date(Date.now() + HOUR_MS) };
+            (Job.find as jest.Mock).mockReturnValue(query([{ jobId: 'job-1', artifacts: [expired, current] }]));
+
+            const removed = await artifactService.cleanupExpired();
+
+            expect(removed).toBe(1);
+            expect(storage.delete).toHaveBeenCalledTimes(1);
+            expect(storage.delete).toHaveBeenCalledWith('jobs/job-1/old.json');
+            expect(Job.updateOne).toHaveBeenCalledWith({ jobId: 'job-1' }, { $pull: { artifacts: { expiresAt: { $lte: expect.any(Date) } } } });
+        });
+    });
+});
@@ -0,0 +1,40 @@
+jest.mock('../config/prisma', () => ({ __esModule: true, default: { user: { findUnique: jest.fn() } } }));
+jest.mock('../config/redis', () => ({ __esModule: true, default: { get: jest.fn() } }));
+jest.mock('../services/session.service', () => ({ __esModule: true, default: { isRevoked: jest.fn() } }));
+
+import jwt from 'jsonwebtoken';
+import redis from '../config/redis';
+import sessionService from '../services/session.service';
+import { verifyAccessToken } from '../middleware/auth.middleware';
+
+describe('verifyAccessToken', () => {
+    const token = jwt.sign({ userId: 'user-1', email: 'jane@example.com', name: 'Jane', sid: 'family-1' }, 'test-secret');
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (redis.get as jest.Mock).mockResolvedValue(null);
+        (sessionService.isRevoked as jest.Mock).mockResolvedValue(false);
+    });
+
+    it('should return the claims of a live token', async () => {
+        await expect(verifyAccessToken(token)).resolves.toMatchObject({ userId: 'user-1', sid: 'family-1' });
+    });
+
+    it('should reject logged-out tokens', async () => {
+        (redis.get as jest.Mock).mockResolvedValue('1');
+
+        await expect(verifyAccessToken(token)).rejects.toMatchObject({ statusCode: 401, message: 'Token has been invalidated' });
+        expect(redis.get).toHaveBeenCalledWith(`blacklist:${token}`);
+    });
+
+    it('should reject tokens of revoked sessions', async () => {
+        (sessionService.isRevoked as jest.Mock).mockResolvedValue(true);
+
+        await expect(verifyAccessToken(token)).rejects.toMatchObject({ statusCode: 401, message: 'Session has been revoked' });
+        expect(sessionService.isRevoked).toHaveBeenCalledWith('family-1');
+    });
+
+    it('should reject tokens with a bad signature', async () => {
+        await expect(verifyAccessToken(jwt.sign({ userId: 'user-1' }, 'other-secret'))).rejects.toMatchObject({ statusCode: 401, message: 'Invalid token' });
+    });
+});
@@ -1,15 +1,37 @@
 import bcrypt from 'bcrypt';
+import jwt from 'jsonwebtoken';
 
 // Mock database
 jest.mock('../config/prisma', () => ({
     __esModule: true,
     default: {
-        user: { findUnique: jest.fn(), create: jest.fn() },
-        refreshToken: { create: jest.fn(), deleteMany: jest.fn() }
+        user: { findUnique: jest.fn(), create: jest.fn(), update: jest.fn(), updateMany: jest.fn() },
+        refreshToken: { create: jest.fn(), findUnique: jest.fn(), updateMany: jest.fn() },
+        passwordResetToken: { create: jest.fn(), findUnique: jest.fn(), updateMany: jest.fn(), deleteMany: jest.fn() },
+        emailVerificationToken: { create: jest.fn(), findUnique: jest.fn(), deleteMany: jest.fn() },
+        invitation: { findMany: jest.fn() }
     }
 }));
 
+// Pulled in through ProjectService; keeps the real BullMQ queue out of the test
+jest.mock('../services/job.service', () => ({ __esModule: true, default: {} }));
+jest.mock('../services/schedule.service', () => ({ __esModule: true, default: {} }));
+jest.mock('../services/webhook.service', () => ({ __esModule: true, default: {} }));
+jest.mock('../services/session.service', () => ({ __esModule: true, ACCESS_TOKEN_TTL_SECONDS: 900, default: { revokeFamily: jest.fn(), revokeAll: jest.fn() } }));
+jest.mock('../services/mfa.service', () => ({ __esModule: true, default: { verifyCode: jest.fn() } }));
+jest.mock('../services/oidc.service', () => ({ __esModule: true, default: { resolveUser: jest.fn() } }));
+jest.mock('../mail', () => ({ __esModule: true, default: { send: jest.fn() } }));
+jest.mock('../config/redis', () => ({
+    __esModule: true,
+    default: { get: jest.fn(), set: jest.fn(), setex: jest.fn(), del: jest.fn() }
+}));
+
 import prisma from '../config/prisma';
+import sessionService from '../services/session.service';
+import mfaService from '../services/mfa.service';
+import oidcService from '../services/oidc.service';
+import mailer from '../mail';
+import redis from '../config/redis';
 import { AuthService } from '../services/auth.service';
 
 describe('AuthService', () => {
@@ -18,12 +40,13 @@ describe('AuthService', () => {
     beforeEach(() => jest.clearAllMocks());
 
     describe('register', () => {
-        it('should create a new user and return tokens', async () => {
+        it('should create a new user, return tokens and send a verification link', async () => {
             const newUser = { id: 'user-1', email: 'john@example.com', name: 'John', createdAt: new Date() };
 
             (prisma.user.findUnique as jest.Mock).mockResolvedValue(null);
             (prisma.user.create as jest.Mock).mockResolvedValue(newUser);
             (prisma.refreshToken.create as jest.Mock).mockResolvedValue({});
+            (prisma.invitation.findMany as jest.Mock).mockResolvedValue([]);
 
             const result = await authService.register({
                 email: 'john@example.com',
@@ -34,6 +57,9 @@ describe('AuthService', () => {
             expect(result.user.email).toBe('john@example.com');
             expect(result.accessToken).toBeDefined();
             expect(result.refreshToken).toBeDefined();
+            expect(mailer.send).toHaveBeenCalledWith(expect.objectContaining({ to: 'john@example.com', text: expect.stringMatching(/verify-email\?token=[0-9a-f]+/) }));
+            // Invitations wait until the address is verified
+            expect(prisma.invitation.findMany).not.toHaveBeenCalled();
         });
 
         it('should reject if email is already taken', async () => {
@@ -55,8 +81,21 @@ describe('AuthService', () => {
 
             const result = await authService.login({ email: 'jane@example.com', password: 'MyPassword123' });
 
-            expect(result.accessToken).toBeDefined();
-            expect(result.user.email).toBe('jane@example.com');
+            expect(result).toMatchObject({ accessToken: expect.any(String), user: { email: 'jane@example.com' } });
+        });
+
+        it('should start a new session with the client metadata', async () => {
+            const hashedPassword = await bcrypt.hash('MyPassword123', 10);
+            (prisma.user.findUnique as jest.Mock).mockResolvedValue({ id: 'user-1', email: 'jane@example.com', password: hashedPassword, name: 'Jane' });
+
+            const result = await authService.login(
+                { email: 'jane@example.com', password: 'MyPassword123' },
+                { device: 'Firefox on Linux', ipAddress: '10.0.0.1', userAgent: 'Mozilla/5.0' }
+            );
+
+            const { data } = (prisma.refreshToken.create as jest.Mock).mock.calls[0][0];
+            expect(data).toMatchObject({ userId: 'user-1', device: 'Firefox on Linux', ipAddress: '10.0.0.1', userAgent: 'Mozilla/5.0' });
+            expect(jwt.decode((result as { accessToken: string }).accessToken)).toMatchObject({ sid: data.familyId });
         });
 
         it('should reject invalid credentials', async () => {
@@ -67,4 +106,219 @@ describe('AuthService', () => {
             ).rejects.toThrow('Invalid credentials');
         });
     });
+
+    describe('refreshToken', () => {
+        const user = { id: 'user-1', email: 'jane@example.com', name: 'Jane' };
+        const refreshToken = jwt.sign({ userId: 'user-1', tokenId: 'token-1' }, 'test-refresh-secret');
+        const stored = {
+            id: 'rt-1', token: refreshToken, user, familyId: 'family-1', sessionStartedAt: new Date('2024-01-01'),
+            device: 'Chrome on macOS', usedAt: null, revokedAt: null, expiresAt: new Date(Date.now() + 60000)
+        };
+
+        it('should rotate the token within the same session', async () => {
+            (prisma.refreshToken.findUnique as jest.Mock).mockResolvedValue(stored);
+            (prisma.refreshToken.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+            const result = await authService.refreshToken(refreshToken, { ipAddress: '10.0.0.2' });
+
+            expect(prisma.refreshToken.updateMany).toHaveBeenCalledWith({
+                where: { id: 'rt-1', usedAt: null },
+                data: { usedAt: expect.any(Date) }
+            });
+            expect((prisma.refreshToken.create as jest.Mock).mock.calls[0][0].data).toMatchObject({
+                familyId: 'family-1', sessionStartedAt: stored.sessionStartedAt, device: 'Chrome on macOS', ipAddress: '10.0.0.2'
+            });
+            expect(jwt.decode(result.accessToken)).toMatchObject({ sid: 'family-1' });
+        });
+
+        it('should revoke the whole session when a rotated token is reused', async () => {
+            (prisma.refreshToken.findUnique as jest.Mock).mockResolvedValue({ ...stored, usedAt: new Date() });
+
+            await expect(authService.refreshToken(refreshToken)).rejects.toThrow('Refresh token reuse detected, session revoked');
+            expect(sessionService.revokeFamily).toHaveBeenCalledWith('family-1');
+            expect(prisma.refreshToken.create).not.toHaveBeenCalled();
+        });
+
+        it('should treat losing a rotation race as reuse', async () => {
+            (prisma.refreshToken.findUnique as jest.Mock).mockResolvedValue(stored);
+            (prisma.refreshToken.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+            await expect(authService.refreshToken(refreshToken)).rejects.toMatchObject({ statusCode: 401 });
+            expect(sessionService.revokeFamily).toHaveBeenCalledWith('family-1');
+        });
+
+        it('should reject tokens of revoked sessions', async () => {
+            (prisma.refreshToken.findUnique as jest.Mock).mockResolvedValue({ ...stored, revokedAt: new Date() });
+
+            await expect(authService.refreshToken(refreshToken)).rejects.toThrow('Session has been revoked');
+            expect(prisma.refreshToken.updateMany).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('password reset', () => {
+        it('should email a reset link and store only a hash of the token', async () => {
+            (prisma.user.findUnique as jest.Mock).mockResolvedValue({ id: 'user-1', email: 'jane@example.com', name: 'Jane' });
+
+            await authService.forgotPassword('jane@example.com');
+
+            const { text } = (mailer.send as jest.Mock).mock.calls[0][0];
+            const token = text.match(/token=([0-9a-f]+)/)[1];
+            const { data } = (prisma.passwordResetToken.create as jest.Mock).mock.calls[0][0];
+            expect(data.tokenHash).toHaveLength(64);
+            expect(data.tokenHash).not.toBe(token);
+            expect(prisma.passwordResetToken.deleteMany).toHaveBeenCalledWith({ where: { userId: 'user-1' } });
+        });
+
+        it('should answer the same for unknown emails', async () => {
+            (prisma.user.findUnique as jest.Mock).mockResolvedValue(null);
+
+            const result = await authService.forgotPassword('nobody@example.com');
+
+            expect(result.message).toMatch(/If the email is registered/);
+            expect(mailer.send).not.toHaveBeenCalled();
+        });
+
+        it('should set the password once and sign out every session', async () => {
+            (prisma.passwordResetToken.findUnique as jest.Mock).mockResolvedValue({ id: 'reset-1', userId: 'user-1', usedAt: null, expiresAt: new Date(Date.now() + 60000) });
+            (prisma.passwordResetToken.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+            (prisma.user.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+            await authService.resetPassword({ token: 'abc', password: 'NewPassword1' });
+
+            const { data } = (prisma.user.update as jest.Mock).mock.calls[0][0];
+            expect(await bcrypt.compare('NewPassword1', data.password)).toBe(true);
+            expect(sessionService.revokeAll).toHaveBeenCalledWith('user-1');
+        });
+
+        it('should reject used or expired tokens', async () => {
+            (prisma.passwordResetToken.findUnique as jest.Mock).mockResolvedValue({ id: 'reset-1', userId: 'user-1', usedAt: null, expiresAt: new Date(Date.now() - 1000) });
+
+            await expect(authService.resetPassword({ token: 'abc', password: 'NewPassword1' })).rejects.toMatchObject({ statusCode: 400 });
+            expect(prisma.user.update).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('changePassword', () => {
+        it('should require the current password', async () => {
+            (prisma.user.findUnique as jest.Mock).mockResolvedValue({ id: 'user-1', password: await bcrypt.hash('OldPassword1', 10) });
+
+            await expect(authService.changePassword('user-1', { currentPassword: 'wrong', newPassword: 'NewPassword1' }))
+                .rejects.toThrow('Current password is incorrect');
+            expect(sessionService.revokeAll).not.toHaveBeenCalled();
+        });
+
+        it('should revoke existing sessions and start a new one', async () => {
+            (prisma.user.findUnique as jest.Mock).mockResolvedValue({ id: 'user-1', email: 'jane@example.com', name: 'Jane', password: await bcrypt.hash('OldPassword1', 10) });
+
+            const result = await authService.changePassword('user-1', { currentPassword: 'OldPassword1', newPassword: 'NewPassword1' });
+
+            expect(sessionService.revokeAll).toHaveBeenCalledWith('user-1');
+            expect(result.accessToken).toBeDefined();
+            expect((sessionService.revokeAll as jest.Mock).mock.invocationCallOrder[0])
+                .toBeLessThan((prisma.refreshToken.create as jest.Mock).mock.invocationCallOrder[0]);
+        });
+    });
+
+    describe('email verification', () => {
+        it('should verify the user and join projects they were invited to', async () => {
+            (prisma.emailVerificationToken.findUnique as jest.Mock).mockResolvedValue({ userId: 'user-1', expiresAt: new Date(Date.now() + 60000) });
+            (prisma.user.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+            (prisma.user.findUnique as jest.Mock).mockResolvedValue({ email: 'john@example.com' });
+            (prisma.invitation.findMany as jest.Mock).mockResolvedValue([]);
+
+            await authService.verifyEmail('abc');
+
+            expect(prisma.user.updateMany).toHaveBeenCalledWith({
+                where: { id: 'user-1', emailVerified: false },
+                data: { emailVerified: true, emailVerifiedAt: expect.any(Date) }
+            });
+            expect(prisma.emailVerificationToken.deleteMany).toHaveBeenCalledWith({ where: { userId: 'user-1' } });
+            expect(prisma.invitation.findMany).toHaveBeenCalledWith(expect.objectContaining({
+                where: expect.objectContaining({ email: 'john@example.com' })
+            }));
+        });
+
+        it('should reject expired tokens', async () => {
+            (prisma.emailVerificationToken.findUnique as jest.Mock).mockResolvedValue({ userId: 'user-1', expiresAt: new Date(Date.now() - 1000) });
+
+            await expect(authService.verifyEmail('abc')).rejects.toMatchObject({ statusCode: 400 });
+            expect(prisma.user.updateMany).not.toHaveBeenCalled();
+        });
+
+        it('should not resend to verified users', async () => {
+            (prisma.user.findUnique as jest.Mock).mockResolvedValue({ id: 'user-1', emailVerified: true });
+
+            await expect(authService.resendVerification('user-1')).rejects.toThrow('Email is already verified');
+            expect(mailer.send).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('MFA login', () => {
+        const challenge = (attempts = 0) => JSON.stringify({ userId: 'user-1', attempts });
+
+        it('should hold back tokens until the second factor is verified', async () => {
+            const hashedPassword = await bcrypt.hash('MyPassword123', 10);
+            (prisma.user.findUnique as jest.Mock).mockResolvedValue({ id: 'user-1', email: 'jane@example.com', password: hashedPassword, name: 'Jane', mfaEnabled: true });
+
+            const result = await authService.login({ email: 'jane@example.com', password: 'MyPassword123' });
+
+            expect(result).toEqual({ mfaRequired: true, challengeToken: expect.stringMatching(/^[0-9a-f]{64}$/) });
+            expect(redis.setex).toHaveBeenCalledWith(expect.stringMatching(/^mfa:challenge:/), 300, challenge());
+            expect(prisma.refreshToken.create).not.toHaveBeenCalled();
+        });
+
+        it('should exchange the challenge and a valid code for tokens once', async () => {
+            (redis.get as jest.Mock).mockResolvedValue(challenge());
+            (redis.del as jest.Mock).mockResolvedValue(1);
+            (mfaService.verifyCode as jest.Mock).mockResolvedValue(true);
+            (prisma.user.findUnique as jest.Mock).mockResolvedValue({ id: 'user-1', email: 'jane@example.com', name: 'Jane' });
+
+            const result = await authService.verifyMfaChallenge('challenge-1', '123456');
+
+            expect(mfaService.verifyCode).toHaveBeenCalledWith('user-1', '123456');
+            expect(redis.del).toHaveBeenCalledWith('mfa:challenge:challenge-1');
+            expect(result.accessToken).toBeDefined();
+        });
+
+        it('should count wrong codes and drop the challenge after too many', async () => {
+            (mfaService.verifyCode as jest.Mock).mockResolvedValue(false);
+
+            (redis.get as jest.Mock).mockResolvedValue(challenge(0));
+            await expect(authService.verifyMfaChallenge('challenge-1', '000000')).rejects.toThrow('Invalid code');
+            expect(redis.set).toHaveBeenCalledWith('mfa:challenge:challenge-1', challenge(1), 'KEEPTTL');
+
+            (redis.get as jest.Mock).mockResolvedValue(challenge(4));
+            await expect(authService.verifyMfaChallenge('challenge-1', '000000')).rejects.toThrow('Invalid code');
+            expect(redis.del).toHaveBeenCalledWith('mfa:challenge:challenge-1');
+            expect(prisma.refreshToken.create).not.toHaveBeenCalled();
+        });
+
+        it('should reject unknown or expired challenges', async () => {
+            (redis.get as jest.Mock).mockResolvedValue(null);
+
+            await expect(authService.verifyMfaChallenge('challenge-1', '123456')).rejects.toMatchObject({ statusCode: 401 });
+            expect(mfaService.verifyCode).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('loginWithOidc', () => {
+        it('should issue tokens for the user the provider resolves to', async () => {
+            (oidcService.resolveUser as jest.Mock).mockResolvedValue({ id: 'user-1', email: 'jane@example.com', name: 'Jane', mfaEnabled: false });
+
+            const result = await authService.loginWithOidc('code-1', 'state-1');
+
+            expect(oidcService.resolveUser).toHaveBeenCalledWith('code-1', 'state-1');
+            expect(result).toMatchObject({ user: { id: 'user-1' }, accessToken: expect.any(String) });
+            expect(prisma.refreshToken.create).toHaveBeenCalled();
+        });
+
+        it('should still ask MFA users for their second factor', async () => {
+            (oidcService.resolveUser as jest.Mock).mockResolvedValue({ id: 'user-1', email: 'jane@example.com', name: 'Jane', mfaEnabled: true });
+
+            const result = await authService.loginWithOidc('code-1', 'state-1');
+
+            expect(result).toEqual({ mfaRequired: true, challengeToken: expect.any(String) });
+            expect(prisma.refreshToken.create).not.toHaveBeenCalled();
+        });
+    });
 });
@@ -0,0 +1,62 @@
+jest.mock('../config/redis', () => ({
+    __esModule: true,
+    redisPub: { publish: jest.fn() },
+    default: { hset: jest.fn(), hdel: jest.fn(), hgetall: jest.fn(), pexpire: jest.fn() }
+}));
+
+import redis, { redisPub } from '../config/redis';
+import { CursorService } from '../services/cursor.service';
+
+describe('CursorService', () => {
+    let cursorService: CursorService;
+    const alice = { id: 'user-1', name: 'Alice', socketId: 'socket-1' };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        cursorService = new CursorService();
+    });
+
+    describe('flush', () => {
+        it('should coalesce many moves into one published cursor per user', async () => {
+            cursorService.update('ws-1', alice, { fileId: 'file-1', position: { line: 1, column: 1 } });
+            cursorService.update('ws-1', alice, { fileId: 'file-1', position: { line: 1, column: 2 } });
+            cursorService.update('ws-1', alice, { fileId: 'file-1', position: { line: 1, column: 3 } });
+
+            await cursorService.flush();
+
+            expect(redisPub.publish).toHaveBeenCalledTimes(1);
+            const message = JSON.parse((redisPub.publish as jest.Mock).mock.calls[0][1]);
+            expect(message.cursors).toHaveLength(1);
+            expect(message.cursors[0].position).toEqual({ line: 1, column: 3 });
+        });
+
+        it('should keep the selection when only the position moves', async () => {
+            cursorService.update('ws-1', alice, { fileId: 'file-1', selection: { from: 0, to: 5 } });
+            cursorService.update('ws-1', alice, { fileId: 'file-1', position: { line: 2, column: 0 } });
+
+            await cursorService.flush();
+
+            const message = JSON.parse((redisPub.publish as jest.Mock).mock.calls[0][1]);
+            expect(message.cursors[0]).toMatchObject({ selection: { from: 0, to: 5 }, position: { line: 2, column: 0 } });
+        });
+
+        it('should store last known cursors and publish nothing when idle', async () => {
+            cursorService.update('ws-1', alice, { fileId: 'file-1' });
+            await cursorService.flush();
+            await cursorService.flush();
+
+            expect(redis.hset).toHaveBeenCalledWith('cursors:ws-1', 'user-1', expect.any(String));
+            expect(redisPub.publish).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('getCursors', () => {
+        it('should return parsed cursors keyed by user', async () => {
+            (redis.hgetall as jest.Mock).mockResolvedValue({ 'user-1': JSON.stringify({ userId: 'user-1', fileId: 'file-1' }) });
+
+            const cursors = await cursorService.getCursors('ws-1');
+
+            expect(cursors['user-1'].fileId).toBe('file-1');
+        });
+    });
+});
@@ -0,0 +1,116 @@
+jest.mock('../queues/job.queue', () => ({
+    deadLetterQueue: { getJobs: jest.fn(), getWaitingCount: jest.fn(), getJob: jest.fn(), drain: jest.fn() },
+    requeueJob: jest.fn()
+}));
+jest.mock('../queues/job.events', () => ({ publishJobEvent: jest.fn() }));
+jest.mock('../queues/job.cancellation', () => ({ clearCancellation: jest.fn() }));
+jest.mock('../services/job.service', () => ({ __esModule: true, default: { reopenDownstream: jest.fn() } }));
+jest.mock('../models/job.model', () => ({
+    Job: { findOne: jest.fn() },
+    JobStatus: { PENDING: 'pending', FAILED: 'failed' }
+}));
+
+import { Job, JobStatus } from '../models/job.model';
+import { deadLetterQueue, requeueJob } from '../queues/job.queue';
+import { clearCancellation } from '../queues/job.cancellation';
+import jobService from '../services/job.service';
+import { DeadLetterService } from '../services/deadLetter.service';
+
+const entry = (overrides: Record<string, unknown> = {}) => ({
+    data: {
+        jobId: 'job-1',
+        type: 'EXPORT',
+        payload: { format: 'json' },
+        userId: 'user-1',
+        failedReason: 'Disk full',
+        attemptsMade: 3,
+        failedAt: '2026-01-01T00:00:00.000Z',
+        ...overrides
+    },
+    remove: jest.fn()
+});
+
+describe('DeadLetterService', () => {
+    const deadLetterService = new DeadLetterService();
+
+    beforeEach(() => jest.clearAllMocks());
+
+    describe('list', () => {
+        it('should page through dead-letter entries', async () => {
+            (deadLetterQueue.getJobs as jest.Mock).mockResolvedValue([entry()]);
+            (deadLetterQueue.getWaitingCount as jest.Mock).mockResolvedValue(1);
+
+            const result = await deadLetterService.list({ limit: 10 });
+
+            expect(deadLetterQueue.getJobs).toHaveBeenCalledWith(['waiting'], 0, 9);
+            expect(result.entries[0]).toEqual(expect.objectContaining({ jobId: 'job-1', failedReason: 'Disk full', attemptsMade: 3 }));
+            expect(result.pagination.hasMore).toBe(false);
+        });
+    });
+
+    describe('requeue', () => {
+        it('should reset the job and put it back on the main queue', async () => {
+            const job = { jobId: 'job-1', userId: 'user-1', status: JobStatus.FAILED, error: 'Disk full', attempts: 3, priority: 7, save: jest.fn() };
+            (deadLetterQueue.getJob as jest.Mock).mockResolvedValue(entry());
+            (Job.findOne as jest.Mock).mockResolvedValue(job);
+
+            await deadLetterService.requeue('job-1');
+
+            expect(job.status).toBe(JobStatus.PENDING);
+            expect(job.error).toBeUndefined();
+            expect(job.attempts).toBe(0);
+            expect(requeueJob).toHaveBeenCalledWith(expect.not.objectContaining({ failedReason: expect.anything() }), 7);
+            expect(requeueJob).toHaveBeenCalledWith(expect.objectContaining({ jobId: 'job-1', type: 'EXPORT' }), 7);
+        });
+
+        it('should clear an old cancellation and reopen the jobs downstream of a pipeline job', async () => {
+            const job = { jobId: 'job-1', userId: 'user-1', status: JobStatus.FAILED, priority: 5, cancelRequestedAt: new Date(), save: jest.fn() };
+            (deadLetterQueue.getJob as jest.Mock).mockResolvedValue(entry({ pipelineId: 'pipe-1' }));
+            (Job.findOne as jest.Mock).mockResolvedValue(job);
+
+            await deadLetterService.requeue('job-1');
+
+            expect(job.cancelRequestedAt).toBeUndefined();
+            expect(clearCancellation).toHaveBeenCalledWith('job-1');
+            expect(requeueJob).toHaveBeenCalledWith(expect.objectContaining({ jobId: 'job-1', pipelineId: 'pipe-1' }), 5);
+            expect(jobService.reopenDownstream).toHaveBeenCalledWith('job-1');
+        });
+
+        it('should drop entries whose job no longer exists', async () => {
+            const stale = entry();
+            (deadLetterQueue.getJob as jest.Mock).mockResolvedValue(stale);
+            (Job.findOne as jest.Mock).mockResolvedValue(null);
+
+            await expect(deadLetterService.requeue('job-1')).rejects.toThrow('Job not found');
+            expect(stale.remove).toHaveBeenCalled();
+            expect(requeueJob).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('purge', () => {
+        it('should purge a single entry', async () => {
+            const target = entry();
+            (deadLetterQueue.getJob as jest.Mock).mockResolvedValue(target);
+
+            const result = await deadLetterService.purge('job-1');
+
+            expect(target.remove).toHaveBeenCalled();
+            expect(result.purged).toBe(1);
+        });
+
+        it('should drain the whole queue', async () => {
+            (deadLetterQueue.getWaitingCount as jest.Mock).mockResolvedValue(4);
+
+            const result = await deadLetterService.purge();
+
+            expect(deadLetterQueue.drain).toHaveBeenCalled();
+            expect(result.purged).toBe(4);
+        });
+
+        it('should 404 on unknown entries', async () => {
+            (deadLetterQueue.getJob as jest.Mock).mockResolvedValue(null);
+
+            await expect(deadLetterService.purge('missing')).rejects.toThrow('Dead-letter entry not found');
+        });
+    });
+});
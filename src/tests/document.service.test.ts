@@ -0,0 +1,178 @@
+import * as Y from 'yjs';
+
+// Mock database and cache
+jest.mock('../config/prisma', () => ({
+    __esModule: true,
+    default: {
+        document: { findUnique: jest.fn(), upsert: jest.fn() },
+        file: { count: jest.fn() }
+    }
+}));
+
+jest.mock('../config/redis', () => ({
+    __esModule: true,
+    nodeId: 'node-1',
+    redisPub: { publish: jest.fn() },
+    default: { rpush: jest.fn(), lrange: jest.fn(), ltrim: jest.fn(), set: jest.fn(), eval: jest.fn(), del: jest.fn() }
+}));
+
+import prisma from '../config/prisma';
+import redis, { redisPub } from '../config/redis';
+import { DocumentService } from '../services/document.service';
+
+describe('DocumentService', () => {
+    let documentService: DocumentService;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        documentService = new DocumentService();
+        (redis.lrange as jest.Mock).mockResolvedValue([]);
+        (redis.set as jest.Mock).mockResolvedValue('OK');
+        (prisma.document.findUnique as jest.Mock).mockResolvedValue(null);
+    });
+
+    // Simulates a client editing its own replica and returning the update it produced
+    const edit = (doc: Y.Doc, fn: (text: Y.Text) => void) => {
+        let captured: Uint8Array | undefined;
+        doc.once('update', (update: Uint8Array) => { captured = update; });
+        fn(doc.getText('content'));
+        return captured!;
+    };
+
+    describe('applyUpdate', () => {
+        it('should converge concurrent edits from two clients', async () => {
+            const alice = new Y.Doc();
+            const bob = new Y.Doc();
+
+            const aliceUpdate = edit(alice, text => text.insert(0, 'Hello'));
+            const bobUpdate = edit(bob, text => text.insert(0, 'World'));
+
+            await documentService.applyUpdate('ws-1', 'file-1', aliceUpdate);
+            await documentService.applyUpdate('ws-1', 'file-1', bobUpdate);
+
+            // Each client syncs what it is missing from the server
+            Y.applyUpdate(alice, (await documentService.sync('ws-1', 'file-1', Y.encodeStateVector(alice))).update);
+            Y.applyUpdate(bob, (await documentService.sync('ws-1', 'file-1', Y.encodeStateVector(bob))).update);
+
+            expect(alice.getText('content').toString()).toBe(bob.getText('content').toString());
+            expect(alice.getText('content').toString()).toHaveLength(10);
+        });
+
+        it('should keep the update in Redis and publish it to other nodes', async () => {
+            const update = edit(new Y.Doc(), text => text.insert(0, 'x'));
+
+            await documentService.applyUpdate('ws-1', 'file-1', update, 'socket-1');
+
+            expect(redis.rpush).toHaveBeenCalledWith('document:pending:ws-1:file-1', expect.any(String));
+            const message = JSON.parse((redisPub.publish as jest.Mock).mock.calls[0][1]);
+            expect(message).toMatchObject({ type: 'update', nodeId: 'node-1', socketId: 'socket-1', fileId: 'file-1' });
+        });
+    });
+
+    describe('sync', () => {
+        it('should restore stored snapshot and pending updates when loading', async () => {
+            const source = new Y.Doc();
+            source.getText('content').insert(0, 'saved');
+            const snapshot = Y.encodeStateAsUpdate(source);
+            const pending = edit(source, text => text.insert(5, ' draft'));
+
+            (prisma.document.findUnique as jest.Mock).mockResolvedValue({ state: Buffer.from(snapshot) });
+            (redis.lrange as jest.Mock).mockResolvedValue([Buffer.from(pending).toString('base64')]);
+
+            const client = new Y.Doc();
+            Y.applyUpdate(client, (await documentService.sync('ws-1', 'file-1')).update);
+
+            expect(client.getText('content').toString()).toBe('saved draft');
+        });
+    });
+
+    describe('setText', () => {
+        it('should replace content as an update that other replicas can apply', async () => {
+            const client = new Y.Doc();
+            edit(client, text => text.insert(0, 'old'));
+            await documentService.applyUpdate('ws-1', 'file-1', Y.encodeStateAsUpdate(client));
+
+            await documentService.setText('ws-1', 'file-1', 'new content');
+
+            const message = JSON.parse((redisPub.publish as jest.Mock).mock.calls[1][1]);
+            Y.applyUpdate(client, Buffer.from(message.data, 'base64'));
+            expect(client.getText('content').toString()).toBe('new content');
+            expect(await documentService.getText('ws-1', 'file-1')).toBe('new content');
+        });
+    });
+
+    describe('flush', () => {
+        it('should snapshot dirty documents and trim absorbed updates', async () => {
+            const update = edit(new Y.Doc(), text => text.insert(0, 'persist me'));
+            await documentService.applyUpdate('ws-1', 'file-1', update);
+            (redis.lrange as jest.Mock).mockResolvedValue([Buffer.from(update).toString('base64')]);
+
+            await documentService.flush();
+
+            expect(prisma.document.upsert).toHaveBeenCalledWith(expect.objectContaining({
+                where: { workspaceId_fileId: { workspaceId: 'ws-1', fileId: 'file-1' } }
+            }));
+            expect(redis.ltrim).toHaveBeenCalledWith('document:pending:ws-1:file-1', 1, -1);
+            const [, token] = (redis.set as jest.Mock).mock.calls[0];
+            expect(redis.set).toHaveBeenCalledWith('document:snapshot-lock:ws-1:file-1', token, 'PX', 30000, 'NX');
+            expect(redis.eval).toHaveBeenCalledWith(expect.any(String), 1, 'document:snapshot-lock:ws-1:file-1', token);
+        });
+
+        it('should leave the document dirty while another node is snapshotting it', async () => {
+            await documentService.applyUpdate('ws-1', 'file-1', edit(new Y.Doc(), text => text.insert(0, 'later')));
+            (redis.set as jest.Mock).mockResolvedValue(null);
+
+            await documentService.flush();
+
+            expect(prisma.document.upsert).not.toHaveBeenCalled();
+            expect(redis.ltrim).not.toHaveBeenCalled();
+
+            (redis.set as jest.Mock).mockResolvedValue('OK');
+            await documentService.flush();
+            expect(prisma.document.upsert).toHaveBeenCalled();
+        });
+
+        it('should keep saving other documents when one fails', async () => {
+            await documentService.applyUpdate('ws-1', 'file-1', edit(new Y.Doc(), text => text.insert(0, 'a')));
+            await documentService.applyUpdate('ws-1', 'file-2', edit(new Y.Doc(), text => text.insert(0, 'b')));
+            (prisma.document.upsert as jest.Mock).mockRejectedValueOnce(new Error('Database unavailable')).mockResolvedValue({});
+            (prisma.file.count as jest.Mock).mockResolvedValue(1);
+            const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+            await documentService.flush();
+
+            expect(prisma.document.upsert).toHaveBeenCalledTimes(2);
+            expect(consoleError).toHaveBeenCalled();
+            consoleError.mockRestore();
+
+            // The failed one stays dirty and is saved on the next pass
+            await documentService.flush();
+            expect(prisma.document.upsert).toHaveBeenCalledTimes(3);
+        });
+
+        it('should unload a document whose file was deleted', async () => {
+            await documentService.applyUpdate('ws-1', 'file-1', edit(new Y.Doc(), text => text.insert(0, 'gone')));
+            (prisma.document.upsert as jest.Mock).mockRejectedValueOnce(new Error('Foreign key constraint failed'));
+            (prisma.file.count as jest.Mock).mockResolvedValue(0);
+
+            await documentService.flush();
+            await documentService.flush();
+
+            expect(prisma.document.upsert).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('discard', () => {
+        it('should drop pending updates and tell every node to unload the documents', async () => {
+            await documentService.applyUpdate('ws-1', 'file-1', edit(new Y.Doc(), text => text.insert(0, 'x')));
+
+            await documentService.discard('ws-1', ['file-1', 'file-2']);
+            await documentService.flush();
+
+            expect(redis.del).toHaveBeenCalledWith('document:pending:ws-1:file-1', 'document:pending:ws-1:file-2');
+            const message = JSON.parse((redisPub.publish as jest.Mock).mock.calls[1][1]);
+            expect(message).toEqual({ type: 'discard', nodeId: 'node-1', workspaceId: 'ws-1', fileIds: ['file-1', 'file-2'] });
+            expect(prisma.document.upsert).not.toHaveBeenCalled();
+        });
+    });
+});
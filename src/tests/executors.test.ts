@@ -0,0 +1,143 @@
+jest.mock('../config/prisma', () => ({
+    __esModule: true,
+    default: {
+        file: { findFirst: jest.fn(), findMany: jest.fn() }
+    }
+}));
+
+jest.mock('../middleware/auth.middleware', () => ({ getWorkspaceAccess: jest.fn() }));
+jest.mock('../services/document.service', () => ({ __esModule: true, default: { readText: jest.fn() } }));
+
+import prisma from '../config/prisma';
+import { getWorkspaceAccess } from '../middleware/auth.middleware';
+import documentService from '../services/document.service';
+import { JobType } from '../models/job.model';
+import { getExecutor } from '../workers/executors';
+import { parseCsv, toCsv } from '../workers/executors/csv';
+
+describe('Job executors', () => {
+    const context = {
+        jobId: 'job-1',
+        userId: 'user-1',
+        signal: new AbortController().signal,
+        reportProgress: jest.fn(),
+        log: jest.fn(),
+        attachArtifact: jest.fn(async (name: string, body: Buffer | string, contentType = 'application/octet-stream') => ({
+            name, key: `jobs/job-1/${name}`, contentType, size: Buffer.byteLength(body), checksum: 'sha256:test', createdAt: new Date(), expiresAt: new Date()
+        }))
+    };
+
+    beforeEach(() => jest.clearAllMocks());
+
+    describe('CODE_EXECUTION', () => {
+        const execute = getExecutor(JobType.CODE_EXECUTION);
+
+        it('should capture stdout and stderr of the snippet', async () => {
+            const result = await execute({ code: 'console.log("sum", 1 + 2); console.error("oops")' }, context);
+
+            expect(result.exitCode).toBe(0);
+            expect(result.stdout).toBe('sum 3\n');
+            expect(result.stderr).toBe('oops\n');
+        });
+
+        it('should not expose require or process to the snippet', async () => {
+            const result = await execute({ code: 'console.log(typeof require, typeof process)' }, context);
+
+            expect(result.stdout).toBe('undefined undefined\n');
+        });
+
+        it('should not let the snippet reach the host through its console', async () => {
+            const result = await execute({ code: 'console.log(console.log.constructor("return typeof process")())' }, context);
+
+            expect(result.stdout).toBe('undefined\n');
+        });
+
+        it('should stop snippets that exceed the memory limit', async () => {
+            const result = await execute({ code: 'const a = []; while (true) a.push(new Array(1e6).fill(1))', memoryMb: 16 }, context);
+
+            expect(result.memoryExceeded).toBe(true);
+            expect(result.exitCode).not.toBe(0);
+        });
+
+        it('should stop snippets that exceed the time limit', async () => {
+            const result = await execute({ code: 'while (true) {}', timeoutMs: 200 }, context);
+
+            expect(result.timedOut).toBe(true);
+            expect(result.exitCode).not.toBe(0);
+        });
+
+        it('should kill the sandbox when the job is cancelled', async () => {
+            const controller = new AbortController();
+            const running = execute({ code: 'while (true) {}', timeoutMs: 10000 }, { ...context, signal: controller.signal });
+            setTimeout(() => controller.abort(new Error('Job cancelled')), 200);
+
+            await expect(running).rejects.toThrow('Job cancelled');
+        });
+
+        it('should reject unsupported languages', async () => {
+            await expect(execute({ code: 'print(1)', language: 'python' }, context)).rejects.toThrow('Unsupported language');
+        });
+    });
+
+    describe('FILE_PROCESSING', () => {
+        const execute = getExecutor(JobType.FILE_PROCESSING);
+
+        it('should checksum the file content', async () => {
+            (getWorkspaceAccess as jest.Mock).mockResolvedValue({ projectId: 'proj-1', role: 'VIEWER' });
+            (prisma.file.findFirst as jest.Mock).mockResolvedValue({ id: 'file-1', name: 'empty.txt', type: 'FILE' });
+            (documentService.readText as jest.Mock).mockResolvedValue('');
+
+            const result = await execute({ workspaceId: 'ws-1', fileId: 'file-1' }, context);
+
+            expect(result.checksum).toBe('sha256:e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+            expect(result.fileSize).toBe(0);
+        });
+
+        it('should refuse files in workspaces the user cannot access', async () => {
+            (getWorkspaceAccess as jest.Mock).mockResolvedValue(null);
+
+            await expect(execute({ workspaceId: 'ws-1', fileId: 'file-1' }, context)).rejects.toThrow('access denied');
+        });
+    });
+
+    describe('DATA_ANALYSIS', () => {
+        const execute = getExecutor(JobType.DATA_ANALYSIS);
+
+        it('should profile numeric and categorical CSV columns', async () => {
+            const data = 'city,temp\nParis,10\n"Rome, IT",20\nParis,\n';
+
+            const result = await execute({ format: 'csv', data }, context);
+            const [city, temp] = result.columns as Array<Record<string, unknown>>;
+
+            expect(result.rowsProcessed).toBe(3);
+            expect(city).toMatchObject({ type: 'categorical', distinct: 2, topValues: [{ value: 'Paris', count: 2 }, { value: 'Rome, IT', count: 1 }] });
+            expect(temp).toMatchObject({ type: 'numeric', missing: 1, min: 10, max: 20, mean: 15 });
+        });
+    });
+
+    describe('EXPORT', () => {
+        const execute = getExecutor(JobType.EXPORT);
+
+        it('should write rows as a CSV artifact', async () => {
+            const result = await execute({ format: 'csv', data: [{ a: 1, b: 'x' }, { a: 2, b: 'y' }] }, context);
+
+            expect(context.attachArtifact).toHaveBeenCalledWith('export.csv', 'a,b\n1,x\n2,y\n', 'text/csv');
+            expect(result).toMatchObject({ artifact: 'export.csv', format: 'csv', bytes: 12 });
+        });
+
+        it('should export the upstream result of a pipeline', async () => {
+            await execute({ upstream: { analyze: { rowCount: 2 } } }, context);
+
+            const [name, body] = context.attachArtifact.mock.calls[0];
+            expect(name).toBe('export.json');
+            expect(JSON.parse(body as string)).toEqual({ rowCount: 2 });
+        });
+    });
+
+    describe('csv helpers', () => {
+        it('should round-trip quoted fields', () => {
+            const rows = [{ name: 'He said "hi"', note: 'a,b' }];
+            expect(parseCsv(toCsv(rows))).toEqual(rows);
+        });
+    });
+});
@@ -0,0 +1,52 @@
+jest.mock('../models/job.model', () => ({
+    Job: { countDocuments: jest.fn(), aggregate: jest.fn() },
+    JobStatus: { PENDING: 'pending', PROCESSING: 'processing' }
+}));
+jest.mock('../queues/job.queue', () => ({ jobQueue: { getJobs: jest.fn() } }));
+
+import { Job } from '../models/job.model';
+import { jobQueue } from '../queues/job.queue';
+import { shouldYield } from '../workers/fairness';
+
+const queued = (...userIds: string[]) => userIds.map(userId => ({ data: { userId } }));
+
+describe('shouldYield', () => {
+    beforeEach(() => jest.clearAllMocks());
+
+    it('should let a user with nothing running go first', async () => {
+        (Job.countDocuments as jest.Mock).mockResolvedValue(0);
+
+        expect(await shouldYield('user-1')).toBe(false);
+        expect(jobQueue.getJobs).not.toHaveBeenCalled();
+    });
+
+    it('should hand the slot to a waiting user with fewer running jobs', async () => {
+        (Job.countDocuments as jest.Mock).mockResolvedValue(2);
+        (jobQueue.getJobs as jest.Mock).mockResolvedValue(queued('user-1', 'user-2', 'user-1'));
+        (Job.aggregate as jest.Mock).mockResolvedValue([{ _id: 'user-2', running: 1 }]);
+
+        expect(await shouldYield('user-1')).toBe(true);
+        expect(jobQueue.getJobs).toHaveBeenCalledWith(['prioritized', 'wait'], 0, 99, true);
+        expect(Job.aggregate).toHaveBeenCalledWith([
+            { $match: { userId: { $in: ['user-2'] }, status: 'processing' } },
+            { $group: { _id: '$userId', running: { $sum: 1 } } }
+        ]);
+    });
+
+    it('should keep going when nobody else has a runnable job', async () => {
+        (Job.countDocuments as jest.Mock).mockResolvedValue(4);
+        // Delayed, backing-off and blocked pipeline jobs are never in these states
+        (jobQueue.getJobs as jest.Mock).mockResolvedValue(queued('user-1', 'user-1'));
+
+        expect(await shouldYield('user-1')).toBe(false);
+        expect(Job.aggregate).not.toHaveBeenCalled();
+    });
+
+    it('should not yield to users running as many jobs', async () => {
+        (Job.countDocuments as jest.Mock).mockResolvedValue(1);
+        (jobQueue.getJobs as jest.Mock).mockResolvedValue(queued('user-2'));
+        (Job.aggregate as jest.Mock).mockResolvedValue([{ _id: 'user-2', running: 1 }]);
+
+        expect(await shouldYield('user-1')).toBe(false);
+    });
+});
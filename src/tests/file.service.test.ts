@@ -0,0 +1,120 @@
+// Mock database, cache and document store
+jest.mock('../config/prisma', () => ({
+    __esModule: true,
+    default: {
+        file: { findFirst: jest.fn(), findUnique: jest.fn(), findMany: jest.fn(), create: jest.fn(), update: jest.fn(), delete: jest.fn() }
+    }
+}));
+
+jest.mock('../config/redis', () => ({
+    __esModule: true,
+    redisPub: { publish: jest.fn() },
+    default: {}
+}));
+
+jest.mock('../services/document.service', () => ({
+    __esModule: true,
+    default: { getText: jest.fn(), setText: jest.fn(), discard: jest.fn() }
+}));
+
+import { Prisma } from '@prisma/client';
+import prisma from '../config/prisma';
+import { redisPub } from '../config/redis';
+import documentService from '../services/document.service';
+import { FileService } from '../services/file.service';
+
+describe('FileService', () => {
+    const fileService = new FileService();
+    const actor = { id: 'user-1', name: 'Alice' };
+
+    beforeEach(() => jest.clearAllMocks());
+
+    const publishedEvent = () => JSON.parse((redisPub.publish as jest.Mock).mock.calls[0][1]);
+
+    describe('create', () => {
+        it('should create a file with content and emit FILE_CREATE', async () => {
+            (prisma.file.findFirst as jest.Mock).mockResolvedValue(null);
+            (prisma.file.create as jest.Mock).mockResolvedValue({ id: 'file-1', name: 'index.ts', type: 'FILE' });
+
+            const file = await fileService.create('ws-1', actor, { name: 'index.ts', type: 'FILE', content: 'hello' });
+
+            expect(file.id).toBe('file-1');
+            expect(documentService.setText).toHaveBeenCalledWith('ws-1', 'file-1', 'hello');
+            expect(publishedEvent()).toMatchObject({ type: 'FILE_CREATE', workspaceId: 'ws-1', fileId: 'file-1', userId: 'user-1' });
+        });
+
+        it('should reject duplicate names in the same folder', async () => {
+            (prisma.file.findFirst as jest.Mock).mockResolvedValue({ id: 'existing' });
+
+            await expect(
+                fileService.create('ws-1', actor, { name: 'index.ts', type: 'FILE' })
+            ).rejects.toThrow('A file with this name already exists here');
+        });
+
+        it('should turn a root name taken in the meantime into a conflict', async () => {
+            (prisma.file.findFirst as jest.Mock).mockResolvedValue(null);
+            (prisma.file.create as jest.Mock).mockRejectedValue(
+                new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' })
+            );
+
+            await expect(
+                fileService.create('ws-1', actor, { name: 'index.ts', type: 'FILE' })
+            ).rejects.toMatchObject({ statusCode: 409, message: 'A file with this name already exists here' });
+        });
+
+        it('should reject a parent that is not a folder', async () => {
+            (prisma.file.findFirst as jest.Mock).mockResolvedValue({ id: 'file-1', type: 'FILE' });
+
+            await expect(
+                fileService.create('ws-1', actor, { name: 'a.ts', type: 'FILE', parentId: 'file-1' })
+            ).rejects.toThrow('Parent must be a folder');
+        });
+    });
+
+    describe('update', () => {
+        it('should refuse to move a folder into its own subtree', async () => {
+            (prisma.file.findFirst as jest.Mock)
+                .mockResolvedValueOnce({ id: 'folder-1', name: 'src', type: 'FOLDER', parentId: null })
+                .mockResolvedValueOnce({ id: 'folder-2', type: 'FOLDER' });
+            (prisma.file.findUnique as jest.Mock).mockResolvedValue({ parentId: 'folder-1' });
+
+            await expect(
+                fileService.update('ws-1', 'folder-1', actor, { parentId: 'folder-2' })
+            ).rejects.toThrow('Cannot move a folder into itself');
+        });
+
+        it('should emit FILE_RENAME when only the name changes', async () => {
+            (prisma.file.findFirst as jest.Mock)
+                .mockResolvedValueOnce({ id: 'file-1', name: 'old.ts', type: 'FILE', parentId: null })
+                .mockResolvedValueOnce(null);
+            (prisma.file.update as jest.Mock).mockResolvedValue({ id: 'file-1', name: 'new.ts' });
+
+            await fileService.update('ws-1', 'file-1', actor, { name: 'new.ts' });
+
+            expect(publishedEvent()).toMatchObject({ type: 'FILE_RENAME', previousName: 'old.ts' });
+        });
+    });
+
+    describe('delete', () => {
+        it('should delete the subtree and discard its documents', async () => {
+            (prisma.file.findFirst as jest.Mock).mockResolvedValue({ id: 'folder-1', type: 'FOLDER' });
+            (prisma.file.findMany as jest.Mock)
+                .mockResolvedValueOnce([{ id: 'file-1' }, { id: 'file-2' }])
+                .mockResolvedValueOnce([]);
+
+            const result = await fileService.delete('ws-1', 'folder-1', actor);
+
+            expect(result.removedIds).toEqual(['folder-1', 'file-1', 'file-2']);
+            expect(documentService.discard).toHaveBeenCalledWith('ws-1', ['folder-1', 'file-1', 'file-2']);
+            expect(publishedEvent().type).toBe('FILE_DELETE');
+        });
+    });
+
+    describe('getContent', () => {
+        it('should reject reading content of a folder', async () => {
+            (prisma.file.findFirst as jest.Mock).mockResolvedValue({ id: 'folder-1', type: 'FOLDER' });
+
+            await expect(fileService.getContent('ws-1', 'folder-1')).rejects.toThrow('Folders have no content');
+        });
+    });
+});
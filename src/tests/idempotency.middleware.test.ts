@@ -0,0 +1,85 @@
+jest.mock('../config/redis', () => ({ __esModule: true, default: { set: jest.fn(), get: jest.fn(), del: jest.fn() } }));
+
+import { Request, Response } from 'express';
+import redis from '../config/redis';
+import { fingerprint, idempotent } from '../middleware/idempotency.middleware';
+
+const request = (key: string | undefined, body: Record<string, unknown>) => ({
+    header: (name: string) => (name === 'Idempotency-Key' ? key : undefined),
+    user: { id: 'user-1' },
+    originalUrl: '/api/v1/projects',
+    body
+}) as unknown as Request;
+
+const response = () => {
+    const res = { statusCode: 201, setHeader: jest.fn(), json: jest.fn() } as Record<string, jest.Mock | number>;
+    res.status = jest.fn((code: number) => { res.statusCode = code; return res; });
+    return res as unknown as Response & { json: jest.Mock; setHeader: jest.Mock };
+};
+
+describe('idempotent', () => {
+    const middleware = idempotent('projects');
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (redis.set as jest.Mock).mockResolvedValue('OK');
+        (redis.del as jest.Mock).mockResolvedValue(1);
+    });
+
+    it('should pass through requests without a key', async () => {
+        const next = jest.fn();
+        await middleware(request(undefined, {}), response(), next);
+
+        expect(next).toHaveBeenCalledWith();
+        expect(redis.set).not.toHaveBeenCalled();
+    });
+
+    it('should claim the key and store the successful response', async () => {
+        const next = jest.fn();
+        const res = response();
+        await middleware(request('key-1', { name: 'Apollo' }), res, next);
+        res.json({ id: 'proj-1' });
+
+        expect(redis.set).toHaveBeenNthCalledWith(1, 'idempotency:projects:user-1:key-1', expect.any(String), 'EX', expect.any(Number), 'NX');
+        expect(JSON.parse((redis.set as jest.Mock).mock.calls[1][1])).toMatchObject({ statusCode: 201, body: { id: 'proj-1' } });
+    });
+
+    it('should release the key when the request fails', async () => {
+        const res = response();
+        await middleware(request('key-1', { name: 'Apollo' }), res, jest.fn());
+        res.status(403).json({ error: 'Access denied' });
+
+        expect(redis.del).toHaveBeenCalledWith('idempotency:projects:user-1:key-1');
+    });
+
+    it('should replay the stored response for a repeat', async () => {
+        const stored = { fingerprint: fingerprint({ url: '/api/v1/projects', body: { name: 'Apollo' } }), statusCode: 201, body: { id: 'proj-1' } };
+        (redis.set as jest.Mock).mockResolvedValue(null);
+        (redis.get as jest.Mock).mockResolvedValue(JSON.stringify(stored));
+        const next = jest.fn();
+        const res = response();
+
+        await middleware(request('key-1', { name: 'Apollo' }), res, next);
+
+        expect(next).not.toHaveBeenCalled();
+        expect(res.setHeader).toHaveBeenCalledWith('Idempotent-Replayed', 'true');
+        expect(res.json).toHaveBeenCalledWith({ id: 'proj-1' });
+    });
+
+    it('should 409 when the key was used with a different body', async () => {
+        (redis.set as jest.Mock).mockResolvedValue(null);
+        (redis.get as jest.Mock).mockResolvedValue(JSON.stringify({ fingerprint: 'other', statusCode: 201, body: {} }));
+        const next = jest.fn();
+
+        await middleware(request('key-1', { name: 'Apollo' }), response(), next);
+
+        expect(next).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 409 }));
+    });
+});
+
+describe('fingerprint', () => {
+    it('should ignore object key order', () => {
+        expect(fingerprint({ a: 1, b: { c: 2, d: 3 } })).toBe(fingerprint({ b: { d: 3, c: 2 }, a: 1 }));
+        expect(fingerprint({ a: 1 })).not.toBe(fingerprint({ a: 2 }));
+    });
+});
@@ -2,6 +2,7 @@ import request from 'supertest';
 import jwt from 'jsonwebtoken';
 import { app } from '../index';
 import authService from '../services/auth.service';
+import jobService from '../services/job.service';
 
 // Mock dependencies
 jest.mock('../config/prisma', () => ({
@@ -17,12 +18,14 @@ jest.mock('../services/auth.service');
 jest.mock('../services/project.service');
 jest.mock('../services/job.service');
 jest.mock('../config/redis', () => ({
+    __esModule: true,
     redisPub: { publish: jest.fn() },
     redisSub: { subscribe: jest.fn(), on: jest.fn() },
     default: { get: jest.fn(), setex: jest.fn(), del: jest.fn() }
 }));
 jest.mock('../config/mongodb', () => ({ connectMongoDB: jest.fn() }));
 jest.mock('../queues/job.queue', () => ({ addJob: jest.fn(), getQueueStats: jest.fn() }));
+jest.mock('../queues/webhook.queue', () => ({ addDelivery: jest.fn() }));
 
 describe('API Integration Tests', () => {
     beforeEach(() => jest.clearAllMocks());
@@ -57,6 +60,38 @@ describe('API Integration Tests', () => {
         });
     });
 
+    describe('Email verification policy', () => {
+        const token = jwt.sign({ userId: 'user-1', email: 'test@test.com', name: 'Test' }, 'test-secret');
+
+        it('POST /jobs - should refuse users with an unverified email', async () => {
+            const prisma = jest.requireMock('../config/prisma').default;
+            prisma.user.findUnique.mockResolvedValue({ id: 'user-1', email: 'test@test.com', name: 'Test', isAdmin: false, emailVerified: false });
+
+            const res = await request(app)
+                .post('/api/v1/jobs')
+                .set('Authorization', `Bearer ${token}`)
+                .send({ type: 'EXPORT', payload: {} });
+
+            expect(res.status).toBe(403);
+            expect(res.body.error).toBe('Verify your email address first');
+        });
+
+        it('should refuse unverified users that retry jobs or resume schedules', async () => {
+            const prisma = jest.requireMock('../config/prisma').default;
+            prisma.user.findUnique.mockResolvedValue({ id: 'user-1', email: 'test@test.com', name: 'Test', isAdmin: false, emailVerified: false });
+
+            const responses = await Promise.all([
+                request(app).post('/api/v1/jobs/job-1/retry').set('Authorization', `Bearer ${token}`),
+                request(app).post('/api/v1/jobs/schedules/sched-1/resume').set('Authorization', `Bearer ${token}`),
+                request(app).post('/api/v1/jobs/bulk').set('Authorization', `Bearer ${token}`).send({ action: 'retry', filter: { status: 'failed' } })
+            ]);
+
+            expect(responses.map(res => res.status)).toEqual([403, 403, 403]);
+            expect(jobService.retry).not.toHaveBeenCalled();
+            expect(jobService.bulkRetry).not.toHaveBeenCalled();
+        });
+    });
+
     describe('Health Check', () => {
         it('GET /health - should return OK', async () => {
             const res = await request(app).get('/health');
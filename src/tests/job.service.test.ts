@@ -1,15 +1,39 @@
 // Mock dependencies
 jest.mock('../config/redis', () => ({ __esModule: true, default: { get: jest.fn(), del: jest.fn() } }));
-jest.mock('../queues/job.queue', () => ({ addJob: jest.fn(), getQueueStats: jest.fn() }));
+jest.mock('../config/prisma', () => ({ __esModule: true, default: { workspace: { findUnique: jest.fn() } } }));
+jest.mock('../middleware/auth.middleware', () => ({ getProjectRole: jest.fn() }));
+jest.mock('../queues/job.queue', () => ({ addJob: jest.fn(), requeueJob: jest.fn(), getQueueStats: jest.fn(), jobQueue: { getJob: jest.fn() } }));
+jest.mock('../queues/job.events', () => ({ publishJobEvent: jest.fn() }));
+jest.mock('../queues/job.cancellation', () => ({ requestCancellation: jest.fn(), clearCancellation: jest.fn() }));
+jest.mock('../services/quota.service', () => ({ __esModule: true, default: { check: jest.fn() } }));
+jest.mock('../services/artifact.service', () => ({ __esModule: true, default: { remove: jest.fn() } }));
+jest.mock('../models/pipeline.model', () => ({ Pipeline: { deleteMany: jest.fn() } }));
 jest.mock('../models/job.model', () => ({
-    Job: { create: jest.fn(), findOne: jest.fn(), find: jest.fn(), countDocuments: jest.fn(), aggregate: jest.fn() },
-    JobStatus: { PENDING: 'pending', PROCESSING: 'processing', COMPLETED: 'completed', FAILED: 'failed' },
+    Job: { create: jest.fn(), findOne: jest.fn(), find: jest.fn(), countDocuments: jest.fn(), aggregate: jest.fn(), deleteMany: jest.fn(), updateOne: jest.fn() },
+    JobStatus: { PENDING: 'pending', PROCESSING: 'processing', COMPLETED: 'completed', FAILED: 'failed', CANCELLED: 'cancelled', SKIPPED: 'skipped' },
     JobType: { CODE_EXECUTION: 'CODE_EXECUTION', FILE_PROCESSING: 'FILE_PROCESSING' }
 }));
 
+import prisma from '../config/prisma';
+import { getProjectRole } from '../middleware/auth.middleware';
 import { Job, JobStatus, JobType } from '../models/job.model';
-import { addJob } from '../queues/job.queue';
+import { Pipeline } from '../models/pipeline.model';
+import { addJob, jobQueue, requeueJob } from '../queues/job.queue';
+import { publishJobEvent } from '../queues/job.events';
+import { requestCancellation } from '../queues/job.cancellation';
 import { JobService } from '../services/job.service';
+import quotaService from '../services/quota.service';
+import { fingerprint } from '../middleware/idempotency.middleware';
+import artifactService from '../services/artifact.service';
+import { ApiError } from '../middleware/error.middleware';
+
+// Chainable Mongoose query stand-in resolving on .lean()
+const query = (value: unknown) => {
+    const chain: Record<string, jest.Mock> = {};
+    for (const method of ['select', 'sort', 'skip', 'limit']) chain[method] = jest.fn(() => chain);
+    chain.lean = jest.fn(() => Promise.resolve(value));
+    return chain;
+};
 
 describe('JobService', () => {
     const jobService = new JobService();
@@ -30,10 +54,20 @@ describe('JobService', () => {
 
             expect(result.duplicate).toBe(false);
             expect(result.job.status).toBe('pending');
+            expect(publishJobEvent).toHaveBeenCalledWith(expect.objectContaining({ type: 'status', status: 'pending', userId: 'user-1' }));
+        });
+
+        it('should not queue anything when a quota is exceeded', async () => {
+            (quotaService.check as jest.Mock).mockRejectedValueOnce(new ApiError(429, 'Daily job quota exceeded for this user (1000 per 24 hours)'));
+
+            await expect(jobService.create('user-1', { type: 'CODE_EXECUTION', payload: {}, priority: 5 }))
+                .rejects.toMatchObject({ statusCode: 429 });
+            expect(Job.create).not.toHaveBeenCalled();
+            expect(addJob).not.toHaveBeenCalled();
         });
 
         it('should return existing job for duplicate idempotency key', async () => {
-            const existingJob = { jobId: 'existing-job', idempotencyKey: 'unique-key' };
+            const existingJob = { jobId: 'existing-job', idempotencyKey: 'unique-key', createdAt: new Date() };
             (Job.findOne as jest.Mock).mockResolvedValue(existingJob);
 
             const result = await jobService.create('user-1', {
@@ -45,11 +79,63 @@ describe('JobService', () => {
 
             expect(result.duplicate).toBe(true);
         });
+
+        it('should reject a reused idempotency key with a different payload', async () => {
+            const idempotencyHash = fingerprint({ type: 'CODE_EXECUTION', payload: { code: '1' }, priority: 5 });
+            (Job.findOne as jest.Mock).mockResolvedValue({ jobId: 'existing-job', idempotencyHash, createdAt: new Date() });
+
+            await expect(jobService.create('user-1', { type: 'CODE_EXECUTION', payload: { code: '2' }, priority: 5, idempotencyKey: 'unique-key' }))
+                .rejects.toMatchObject({ statusCode: 409 });
+            expect(Job.create).not.toHaveBeenCalled();
+        });
+
+        it('should release an expired idempotency key and create a new job', async () => {
+            const lastWeek = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+            (Job.findOne as jest.Mock).mockResolvedValue({ jobId: 'old-job', createdAt: lastWeek });
+            (Job.create as jest.Mock).mockResolvedValue({ jobId: 'job-1' });
+
+            const result = await jobService.create('user-1', { type: 'CODE_EXECUTION', payload: {}, priority: 5, idempotencyKey: 'unique-key' });
+
+            expect(Job.updateOne).toHaveBeenCalledWith({ jobId: 'old-job' }, { $unset: { idempotencyKey: 1, idempotencyHash: 1 } });
+            expect(result.duplicate).toBe(false);
+        });
+
+        it('should return the winner when a concurrent request claims the key first', async () => {
+            const winner = { jobId: 'winner', idempotencyHash: fingerprint({ type: 'CODE_EXECUTION', payload: {}, priority: 5 }), createdAt: new Date() };
+            (Job.findOne as jest.Mock).mockResolvedValueOnce(null).mockResolvedValueOnce(winner);
+            (Job.create as jest.Mock).mockRejectedValue(Object.assign(new Error('E11000 duplicate key'), { code: 11000 }));
+
+            const result = await jobService.create('user-1', { type: 'CODE_EXECUTION', payload: {}, priority: 5, idempotencyKey: 'unique-key' });
+
+            expect(result).toEqual({ job: winner, duplicate: true });
+            expect(addJob).not.toHaveBeenCalled();
+        });
+
+        it('should scope a job to a workspace of the project', async () => {
+            (Job.findOne as jest.Mock).mockResolvedValue(null);
+            (prisma.workspace.findUnique as jest.Mock).mockResolvedValue({ projectId: 'proj-1' });
+            (Job.create as jest.Mock).mockResolvedValue({ jobId: 'job-1' });
+
+            await jobService.create('user-1', { type: 'EXPORT', payload: {}, priority: 5, projectId: 'proj-1', workspaceId: 'ws-1' });
+
+            expect(Job.create).toHaveBeenCalledWith(expect.objectContaining({ projectId: 'proj-1', workspaceId: 'ws-1' }));
+            expect(addJob).toHaveBeenCalledWith(expect.objectContaining({ projectId: 'proj-1', workspaceId: 'ws-1' }), 5);
+            expect(publishJobEvent).toHaveBeenCalledWith(expect.objectContaining({ workspaceId: 'ws-1' }));
+        });
+
+        it('should reject a workspace from another project', async () => {
+            (Job.findOne as jest.Mock).mockResolvedValue(null);
+            (prisma.workspace.findUnique as jest.Mock).mockResolvedValue({ projectId: 'proj-2' });
+
+            await expect(jobService.create('user-1', { type: 'EXPORT', payload: {}, priority: 5, projectId: 'proj-1', workspaceId: 'ws-1' }))
+                .rejects.toThrow('Workspace does not belong to this project');
+            expect(Job.create).not.toHaveBeenCalled();
+        });
     });
 
     describe('getById', () => {
         it('should return job details', async () => {
-            const job = { jobId: 'job-1', status: 'completed' };
+            const job = { jobId: 'job-1', status: 'completed', userId: 'user-1' };
             (Job.findOne as jest.Mock).mockResolvedValue(job);
 
             const result = await jobService.getById('job-1', 'user-1');
@@ -57,6 +143,22 @@ describe('JobService', () => {
             expect(result.jobId).toBe('job-1');
         });
 
+        it('should let project members see scoped jobs', async () => {
+            (Job.findOne as jest.Mock).mockResolvedValue({ jobId: 'job-1', userId: 'user-2', projectId: 'proj-1' });
+            (getProjectRole as jest.Mock).mockResolvedValue('VIEWER');
+
+            const result = await jobService.getById('job-1', 'user-1');
+
+            expect(result.jobId).toBe('job-1');
+        });
+
+        it('should hide other users\' personal jobs', async () => {
+            (Job.findOne as jest.Mock).mockResolvedValue({ jobId: 'job-1', userId: 'user-2', projectId: null });
+
+            await expect(jobService.getById('job-1', 'user-1')).rejects.toThrow('Job not found');
+            expect(getProjectRole).not.toHaveBeenCalled();
+        });
+
         it('should throw error if job not found', async () => {
             (Job.findOne as jest.Mock).mockResolvedValue(null);
 
@@ -66,13 +168,220 @@ describe('JobService', () => {
 
     describe('cancel', () => {
         it('should cancel a pending job', async () => {
+            const remove = jest.fn();
             const job = { jobId: 'job-1', status: JobStatus.PENDING, save: jest.fn() };
-            (Job.findOne as jest.Mock).mockResolvedValue(job);
+            (Job.findOne as jest.Mock).mockResolvedValueOnce(job).mockReturnValueOnce(query({ pipelineId: null }));
+            (jobQueue.getJob as jest.Mock).mockResolvedValue({ remove });
 
             const result = await jobService.cancel('job-1', 'user-1');
 
             expect(result.message).toBe('Job cancelled');
-            expect(job.status).toBe(JobStatus.FAILED);
+            expect(remove).toHaveBeenCalled();
+            expect(job.status).toBe(JobStatus.CANCELLED);
+            expect(publishJobEvent).toHaveBeenCalledWith(expect.objectContaining({ status: JobStatus.CANCELLED }));
+            expect(requestCancellation).not.toHaveBeenCalled();
+        });
+
+        it('should signal the worker to stop a processing job', async () => {
+            const job = { jobId: 'job-1', status: JobStatus.PROCESSING, save: jest.fn() } as Record<string, unknown>;
+            (Job.findOne as jest.Mock).mockResolvedValue(job);
+
+            const result = await jobService.cancel('job-1', 'user-1');
+
+            expect(result.message).toBe('Cancellation requested');
+            expect(requestCancellation).toHaveBeenCalledWith('job-1');
+            expect(job.status).toBe(JobStatus.PROCESSING);
+            expect(job.cancelRequestedAt).toBeInstanceOf(Date);
+        });
+
+        it('should reject finished jobs', async () => {
+            (Job.findOne as jest.Mock).mockResolvedValue({ jobId: 'job-1', status: JobStatus.COMPLETED });
+
+            await expect(jobService.cancel('job-1', 'user-1')).rejects.toThrow('Can only cancel pending or processing jobs');
+        });
+    });
+
+    describe('getStats', () => {
+        it('should report every status, cancelled included', async () => {
+            (Job.aggregate as jest.Mock).mockResolvedValue([{ _id: 'completed', count: 4 }, { _id: 'cancelled', count: 2 }]);
+
+            const { user } = await jobService.getStats('user-1');
+
+            expect(user).toEqual({ pending: 0, processing: 0, completed: 4, failed: 0, cancelled: 2, skipped: 0 });
+        });
+    });
+
+    describe('settleDownstream', () => {
+        it('should skip or fail dependents according to their policy, transitively', async () => {
+            const skipped = { jobId: 'job-b', userId: 'user-1', onUpstreamFailure: 'skip', save: jest.fn() } as Record<string, unknown>;
+            const failed = { jobId: 'job-c', userId: 'user-1', onUpstreamFailure: 'fail', save: jest.fn() } as Record<string, unknown>;
+
+            (Job.findOne as jest.Mock)
+                .mockReturnValueOnce(query({ pipelineId: 'pipe-1', pipelineKey: 'a', status: 'cancelled' }))
+                .mockReturnValueOnce(query({ pipelineId: 'pipe-1', pipelineKey: 'b', status: 'skipped' }))
+                .mockReturnValueOnce(query({ pipelineId: 'pipe-1', pipelineKey: 'c', status: 'failed' }));
+            (Job.find as jest.Mock)
+                .mockResolvedValueOnce([skipped])
+                .mockResolvedValueOnce([failed])
+                .mockResolvedValueOnce([]);
+
+            await jobService.settleDownstream('job-a');
+
+            expect(skipped.status).toBe('skipped');
+            expect(skipped.error).toBe('Upstream job "a" cancelled');
+            expect(failed.status).toBe('failed');
+            expect(failed.error).toBe('Upstream job "b" skipped');
+        });
+    });
+
+    describe('retry', () => {
+        const failedJob = (extra: Record<string, unknown> = {}) => ({
+            jobId: 'job-a', type: 'CODE_EXECUTION', status: 'failed', payload: {}, priority: 5, userId: 'user-1',
+            dependsOn: [], save: jest.fn(), ...extra
+        });
+
+        it('should requeue a pipeline job with its pipeline and reopen the jobs it settled', async () => {
+            const skipped = { jobId: 'job-b', userId: 'user-1', status: 'skipped', error: 'Upstream job "a" failed', dependsOn: ['job-a'], save: jest.fn() };
+            const blocked = { jobId: 'job-c', userId: 'user-1', status: 'skipped', dependsOn: ['job-a', 'job-x'], save: jest.fn() };
+            (Job.findOne as jest.Mock).mockResolvedValue(failedJob({ pipelineId: 'pipe-1' }));
+            (Job.find as jest.Mock).mockResolvedValueOnce([skipped, blocked]).mockResolvedValueOnce([]);
+            // job-c's other upstream job failed too
+            (Job.countDocuments as jest.Mock).mockResolvedValueOnce(0).mockResolvedValueOnce(1);
+
+            await jobService.retry('job-a', 'user-1');
+
+            expect(requeueJob).toHaveBeenCalledWith(expect.objectContaining({ jobId: 'job-a', pipelineId: 'pipe-1' }), 5);
+            expect(Job.find).toHaveBeenCalledWith({ dependsOn: 'job-a', status: { $in: ['skipped', 'failed'] }, startedAt: null });
+            expect(skipped.status).toBe('pending');
+            expect(skipped.error).toBeUndefined();
+            expect(blocked.status).toBe('skipped');
+            expect(blocked.save).not.toHaveBeenCalled();
+        });
+
+        it('should refuse a pipeline job whose upstream jobs have not completed', async () => {
+            (Job.findOne as jest.Mock).mockResolvedValue(failedJob({ pipelineId: 'pipe-1', dependsOn: ['job-z'] }));
+            (Job.countDocuments as jest.Mock).mockResolvedValue(1);
+
+            await expect(jobService.retry('job-a', 'user-1')).rejects.toThrow('Can only retry a pipeline job once its upstream jobs have completed');
+            expect(requeueJob).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('getAllForUser', () => {
+        const jobs = [
+            { _id: '652f1c1e8b3e4a0012345601', jobId: 'job-1', createdAt: new Date('2024-01-03T00:00:00Z') },
+            { _id: '652f1c1e8b3e4a0012345602', jobId: 'job-2', createdAt: new Date('2024-01-02T00:00:00Z') },
+            { _id: '652f1c1e8b3e4a0012345603', jobId: 'job-3', createdAt: new Date('2024-01-01T00:00:00Z') }
+        ];
+
+        it('should combine filters into one query', async () => {
+            (Job.find as jest.Mock).mockReturnValue(query([]));
+            const from = new Date('2024-01-01T00:00:00Z');
+
+            await jobService.getAllForUser('user-1', { status: JobStatus.FAILED, minPriority: 2, maxPriority: 4, from, search: 'timeout' });
+
+            expect(Job.find).toHaveBeenCalledWith({
+                userId: 'user-1',
+                status: 'failed',
+                priority: { $gte: 2, $lte: 4 },
+                createdAt: { $gte: from },
+                $text: { $search: 'timeout' }
+            });
+        });
+
+        it('should return a cursor that continues after the last job', async () => {
+            const first = query(jobs);
+            (Job.find as jest.Mock).mockReturnValueOnce(first).mockReturnValueOnce(query([]));
+
+            const page = await jobService.getAllForUser('user-1', { limit: 2 });
+
+            expect(first.limit).toHaveBeenCalledWith(3);
+            expect(page.jobs.map(job => job.jobId)).toEqual(['job-1', 'job-2']);
+            expect(page.pagination).toMatchObject({ limit: 2, hasMore: true });
+
+            await jobService.getAllForUser('user-1', { limit: 2, cursor: (page.pagination as { nextCursor: string }).nextCursor });
+
+            const [next] = (Job.find as jest.Mock).mock.calls[1];
+            expect(next.$or[0]).toEqual({ createdAt: { $lt: jobs[1].createdAt } });
+            expect(String(next.$or[1]._id.$lt)).toBe(jobs[1]._id);
+        });
+
+        it('should reject a cursor issued for a different sort', async () => {
+            (Job.find as jest.Mock).mockReturnValue(query(jobs));
+            const page = await jobService.getAllForUser('user-1', { limit: 1 });
+
+            await expect(jobService.getAllForUser('user-1', { sort: 'priority', cursor: (page.pagination as { nextCursor: string }).nextCursor }))
+                .rejects.toMatchObject({ statusCode: 400 });
+            await expect(jobService.getAllForUser('user-1', { cursor: 'not-a-cursor' })).rejects.toMatchObject({ statusCode: 400 });
+        });
+
+        it('should keep offset paging with a total for existing clients', async () => {
+            (Job.find as jest.Mock).mockReturnValue(query(jobs.slice(0, 2)));
+            (Job.countDocuments as jest.Mock).mockResolvedValue(3);
+
+            const page = await jobService.getAllForUser('user-1', { limit: 2, offset: 0 });
+
+            expect(page.pagination).toEqual({ total: 3, limit: 2, offset: 0, hasMore: true });
+        });
+    });
+
+    describe('bulkDelete', () => {
+        it('should only delete finished jobs and their artifacts', async () => {
+            const artifact = { name: 'export.csv', key: 'jobs/job-1/export.csv' };
+            (Job.find as jest.Mock).mockReturnValue(query([{ jobId: 'job-1', artifacts: [artifact] }, { jobId: 'job-2', artifacts: [] }]));
+            (Job.deleteMany as jest.Mock).mockResolvedValue({ deletedCount: 2 });
+
+            const result = await jobService.bulkDelete('user-1', { type: JobType.CODE_EXECUTION });
+
+            expect(Job.find).toHaveBeenCalledWith({
+                userId: 'user-1',
+                type: 'CODE_EXECUTION',
+                status: { $in: ['completed', 'failed', 'cancelled', 'skipped'] }
+            });
+            expect(artifactService.remove).toHaveBeenCalledWith([artifact]);
+            expect(Job.deleteMany).toHaveBeenCalledWith({ jobId: { $in: ['job-1', 'job-2'] } });
+            expect(result).toEqual({ deleted: 2, hasMore: false });
+        });
+
+        it('should refuse to delete unfinished jobs', async () => {
+            await expect(jobService.bulkDelete('user-1', { status: JobStatus.PROCESSING })).rejects.toMatchObject({ statusCode: 400 });
+            expect(Job.deleteMany).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('bulkRetry', () => {
+        it('should retry each matching job and report the ones that failed', async () => {
+            (Job.find as jest.Mock).mockReturnValue(query([{ jobId: 'job-1' }, { jobId: 'job-2' }]));
+            const retry = jest.spyOn(jobService, 'retry')
+                .mockResolvedValueOnce({} as Awaited<ReturnType<JobService['retry']>>)
+                .mockRejectedValueOnce(new ApiError(400, 'Can only retry failed or cancelled jobs'));
+
+            const result = await jobService.bulkRetry('user-1', {});
+
+            expect(Job.find).toHaveBeenCalledWith({ userId: 'user-1', status: { $in: ['failed', 'cancelled'] } });
+            expect(retry).toHaveBeenCalledTimes(2);
+            expect(result).toEqual({ retried: 1, failed: [{ jobId: 'job-2', error: 'Can only retry failed or cancelled jobs' }], hasMore: false });
+            retry.mockRestore();
+        });
+    });
+
+    describe('deleteForProject', () => {
+        it('should dequeue pending jobs and delete all project jobs', async () => {
+            const remove = jest.fn();
+            const artifact = { name: 'export.json', key: 'jobs/job-2/export.json' };
+            (Job.find as jest.Mock)
+                .mockReturnValueOnce(query([{ jobId: 'job-1' }]))
+                .mockReturnValueOnce(query([{ jobId: 'job-2', artifacts: [artifact] }]));
+            (jobQueue.getJob as jest.Mock).mockResolvedValue({ remove });
+            (Job.deleteMany as jest.Mock).mockResolvedValue({ deletedCount: 3 });
+
+            const deleted = await jobService.deleteForProject('proj-1');
+
+            expect(remove).toHaveBeenCalled();
+            expect(artifactService.remove).toHaveBeenCalledWith([artifact]);
+            expect(Job.deleteMany).toHaveBeenCalledWith({ projectId: 'proj-1' });
+            expect(Pipeline.deleteMany).toHaveBeenCalledWith({ projectId: 'proj-1' });
+            expect(deleted).toBe(3);
         });
     });
 });
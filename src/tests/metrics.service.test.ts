@@ -0,0 +1,71 @@
+jest.mock('../models/job.model', () => ({
+    Job: { aggregate: jest.fn() },
+    JobStatus: { PENDING: 'pending', PROCESSING: 'processing', COMPLETED: 'completed', FAILED: 'failed', CANCELLED: 'cancelled', SKIPPED: 'skipped' },
+    JobType: { CODE_EXECUTION: 'CODE_EXECUTION', EXPORT: 'EXPORT' }
+}));
+
+import { Job, JobType } from '../models/job.model';
+import { MetricsService } from '../services/metrics.service';
+
+describe('MetricsService', () => {
+    const metricsService = new MetricsService();
+    const from = new Date('2024-01-01T00:00:00Z');
+    const to = new Date('2024-01-03T00:00:00Z');
+
+    beforeEach(() => jest.clearAllMocks());
+
+    it('should aggregate the scope by job type and time bucket', async () => {
+        (Job.aggregate as jest.Mock).mockResolvedValue([]);
+
+        const metrics = await metricsService.getForProject('proj-1', { interval: 'hour', from, to, type: JobType.EXPORT });
+
+        const [[match, group]] = (Job.aggregate as jest.Mock).mock.calls[0];
+        expect(match.$match).toEqual({ projectId: 'proj-1', type: 'EXPORT', createdAt: { $gte: from, $lt: to } });
+        expect(group.$group._id.start).toEqual({ $dateTrunc: { date: '$createdAt', unit: 'hour' } });
+        expect(metrics).toEqual({ interval: 'hour', from, to, buckets: [] });
+    });
+
+    it('should derive rates and round percentiles', async () => {
+        (Job.aggregate as jest.Mock).mockResolvedValue([{
+            _id: { type: 'CODE_EXECUTION', start: from },
+            submitted: 10, started: 8, retried: 2, completed: 6, failed: 2, cancelled: 1,
+            queueWait: [120.4, 950.6],
+            runDuration: [null, null]
+        }]);
+
+        const { buckets } = await metricsService.getForUser('user-1', { from, to });
+
+        expect(buckets).toEqual([{
+            start: from,
+            type: 'CODE_EXECUTION',
+            submitted: 10,
+            completed: 6,
+            failed: 2,
+            cancelled: 1,
+            successRate: 0.75,
+            retryRate: 0.25,
+            queueWaitMs: { p50: 120, p95: 951 },
+            runDurationMs: { p50: null, p95: null }
+        }]);
+    });
+
+    it('should not report rates for buckets with nothing finished', async () => {
+        (Job.aggregate as jest.Mock).mockResolvedValue([{
+            _id: { type: 'EXPORT', start: from },
+            submitted: 1, started: 0, retried: 0, completed: 0, failed: 0, cancelled: 0,
+            queueWait: null,
+            runDuration: null
+        }]);
+
+        const { buckets } = await metricsService.getGlobal({ from, to });
+
+        expect(buckets[0]).toMatchObject({ successRate: null, retryRate: null, queueWaitMs: { p50: null, p95: null } });
+    });
+
+    it('should reject empty or oversized windows', async () => {
+        await expect(metricsService.getGlobal({ from: to, to: from })).rejects.toMatchObject({ statusCode: 400 });
+        await expect(metricsService.getGlobal({ interval: 'hour', from: new Date('2023-01-01T00:00:00Z'), to }))
+            .rejects.toMatchObject({ statusCode: 400 });
+        expect(Job.aggregate).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,97 @@
+jest.mock('../config/prisma', () => ({
+    __esModule: true,
+    default: {
+        user: { findUnique: jest.fn(), update: jest.fn(), updateMany: jest.fn() },
+        recoveryCode: { deleteMany: jest.fn(), createMany: jest.fn(), updateMany: jest.fn() },
+        $transaction: jest.fn()
+    }
+}));
+
+import bcrypt from 'bcrypt';
+import prisma from '../config/prisma';
+import { base32Decode, base32Encode, generateTotp, matchTotp, MfaService } from '../services/mfa.service';
+
+// RFC 6238 test secret, the ASCII bytes "12345678901234567890"
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('TOTP', () => {
+    it('should match the RFC 6238 test vectors', () => {
+        expect(generateTotp(SECRET, Math.floor(59 / 30))).toBe('287082');
+        expect(generateTotp(SECRET, Math.floor(1111111109 / 30))).toBe('081804');
+    });
+
+    it('should accept codes from the neighbouring steps only', () => {
+        const now = 1111111109 * 1000;
+        const step = Math.floor(now / 30000);
+
+        expect(matchTotp(SECRET, generateTotp(SECRET, step - 1), now)).toBe(step - 1);
+        expect(matchTotp(SECRET, generateTotp(SECRET, step - 2), now)).toBeNull();
+        expect(matchTotp(SECRET, 'abcdef', now)).toBeNull();
+    });
+
+    it('should round-trip base32', () => {
+        expect(base32Encode(Buffer.from('12345678901234567890'))).toBe(SECRET);
+        expect(base32Decode(SECRET).toString()).toBe('12345678901234567890');
+    });
+});
+
+describe('MfaService', () => {
+    const mfaService = new MfaService();
+    const currentCode = () => generateTotp(SECRET, Math.floor(Date.now() / 30000));
+
+    beforeEach(() => jest.clearAllMocks());
+
+    it('should enroll with a provisioning URI', async () => {
+        (prisma.user.findUnique as jest.Mock).mockResolvedValue({ id: 'user-1', email: 'jane@example.com', mfaEnabled: false });
+
+        const { secret, otpauthUrl } = await mfaService.enroll('user-1');
+
+        expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+        expect(otpauthUrl).toBe(
+            `otpauth://totp/Collaborative%20Workspace%3Ajane%40example.com?secret=${secret}&issuer=Collaborative%20Workspace&algorithm=SHA1&digits=6&period=30`
+        );
+        expect(prisma.user.update).toHaveBeenCalledWith({ where: { id: 'user-1' }, data: { mfaSecret: secret, mfaLastStep: null } });
+    });
+
+    it('should enable MFA and issue recovery codes on a valid code', async () => {
+        (prisma.user.findUnique as jest.Mock).mockResolvedValue({ id: 'user-1', mfaEnabled: false, mfaSecret: SECRET });
+        (prisma.user.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+        const { recoveryCodes } = await mfaService.confirm('user-1', currentCode());
+
+        expect(prisma.user.update).toHaveBeenCalledWith({ where: { id: 'user-1' }, data: { mfaEnabled: true } });
+        expect(recoveryCodes).toHaveLength(10);
+        expect(recoveryCodes[0]).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/);
+        const { data } = (prisma.recoveryCode.createMany as jest.Mock).mock.calls[0][0];
+        expect(data[0].codeHash).toHaveLength(64);
+    });
+
+    it('should not accept the same TOTP code twice', async () => {
+        (prisma.user.findUnique as jest.Mock).mockResolvedValue({ id: 'user-1', mfaEnabled: true, mfaSecret: SECRET });
+        (prisma.user.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+        await expect(mfaService.verifyCode('user-1', currentCode())).resolves.toBe(false);
+        expect(prisma.user.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+            where: { id: 'user-1', OR: [{ mfaLastStep: null }, { mfaLastStep: { lt: expect.any(Number) } }] }
+        }));
+    });
+
+    it('should use up a recovery code however it is typed', async () => {
+        (prisma.user.findUnique as jest.Mock).mockResolvedValue({ id: 'user-1', mfaEnabled: true, mfaSecret: SECRET });
+        (prisma.recoveryCode.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+        await expect(mfaService.verifyCode('user-1', 'ABCDE-12345')).resolves.toBe(true);
+        await mfaService.verifyCode('user-1', 'abcde12345');
+
+        const [[first], [second]] = (prisma.recoveryCode.updateMany as jest.Mock).mock.calls;
+        expect(first.where).toEqual({ userId: 'user-1', codeHash: second.where.codeHash, usedAt: null });
+    });
+
+    it('should require the password to disable MFA', async () => {
+        const password = await bcrypt.hash('MyPassword123', 10);
+        (prisma.user.findUnique as jest.Mock).mockResolvedValue({ id: 'user-1', mfaEnabled: true, mfaSecret: SECRET, password });
+
+        await expect(mfaService.disable('user-1', 'wrong', currentCode())).rejects.toMatchObject({ statusCode: 401 });
+        expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+});
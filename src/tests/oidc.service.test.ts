@@ -0,0 +1,241 @@
+jest.mock('../config/prisma', () => ({
+    __esModule: true,
+    default: {
+        user: { findUnique: jest.fn(), create: jest.fn() },
+        identity: { findUnique: jest.fn(), findFirst: jest.fn(), create: jest.fn(), count: jest.fn(), delete: jest.fn() }
+    }
+}));
+jest.mock('../config/redis', () => {
+    const store = new Map<string, string>();
+    return {
+        __esModule: true,
+        default: {
+            setex: jest.fn(async (key: string, _ttl: number, value: string) => { store.set(key, value); }),
+            get: jest.fn(async (key: string) => store.get(key) ?? null),
+            del: jest.fn(async (key: string) => (store.delete(key) ? 1 : 0))
+        }
+    };
+});
+jest.mock('../services/project.service', () => ({
+    __esModule: true,
+    default: { attachPendingInvitations: jest.fn() }
+}));
+
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import jwt from 'jsonwebtoken';
+import prisma from '../config/prisma';
+import projectService from '../services/project.service';
+import { loadProviders, OidcService } from '../services/oidc.service';
+
+const CLIENT_ID = 'workspace';
+
+// A minimal identity provider: discovery, JWKS and a token endpoint that checks PKCE
+function startMockIdp() {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const jwk = { ...publicKey.export({ format: 'jwk' }), kid: 'key-1', alg: 'RS256', use: 'sig' };
+    const codes = new Map<string, { codeChallenge: string; nonce: string; claims: object }>();
+
+    const server = http.createServer((req, res) => {
+        const issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        const send = (status: number, body: object) => {
+            res.writeHead(status, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(body));
+        };
+
+        if (req.url === '/.well-known/openid-configuration') {
+            return send(200, {
+                issuer,
+                authorization_endpoint: `${issuer}/authorize`,
+                token_endpoint: `${issuer}/token`,
+                jwks_uri: `${issuer}/jwks`
+            });
+        }
+        if (req.url === '/jwks') return send(200, { keys: [jwk] });
+        if (req.url === '/token' && req.method === 'POST') {
+            let raw = '';
+            req.on('data', chunk => { raw += chunk; });
+            req.on('end', () => {
+                const body = new URLSearchParams(raw);
+                const grant = codes.get(body.get('code') || '');
+                codes.delete(body.get('code') || '');
+                const challenge = crypto.createHash('sha256').update(body.get('code_verifier') || '').digest('base64url');
+                if (!grant || challenge !== grant.codeChallenge || body.get('client_id') !== CLIENT_ID) {
+                    return send(400, { error: 'invalid_grant' });
+                }
+
+                const idToken = jwt.sign({ ...grant.claims, nonce: grant.nonce }, privateKey, {
+                    algorithm: 'RS256', keyid: 'key-1', issuer, audience: CLIENT_ID, expiresIn: 300
+                });
+                send(200, { access_token: 'access', token_type: 'Bearer', id_token: idToken });
+            });
+            return;
+        }
+        send(404, { error: 'not_found' });
+    });
+
+    // Plays the user signing in at the provider, which redirects back with a code
+    const signIn = (authorizationUrl: string, claims: object) => {
+        const url = new URL(authorizationUrl);
+        const code = crypto.randomBytes(8).toString('hex');
+        codes.set(code, {
+            codeChallenge: url.searchParams.get('code_challenge')!,
+            nonce: url.searchParams.get('nonce')!,
+            claims
+        });
+        return { code, state: url.searchParams.get('state')! };
+    };
+
+    return { server, signIn };
+}
+
+describe('OidcService', () => {
+    const idp = startMockIdp();
+    let oidcService: OidcService;
+
+    beforeAll(async () => {
+        await new Promise<void>(resolve => idp.server.listen(0, '127.0.0.1', resolve));
+        const issuer = `http://127.0.0.1:${(idp.server.address() as AddressInfo).port}`;
+        oidcService = new OidcService([{ id: 'mock', name: 'Mock IdP', issuer, clientId: CLIENT_ID, scopes: 'openid email profile' }]);
+    });
+
+    afterAll(async () => {
+        idp.server.closeAllConnections();
+        await new Promise(resolve => idp.server.close(resolve));
+    });
+
+    beforeEach(() => jest.clearAllMocks());
+
+    const authorizeAndSignIn = async (claims: object, linkUserId?: string) => {
+        const { authorizationUrl } = await oidcService.authorize('mock', linkUserId);
+        return idp.signIn(authorizationUrl, claims);
+    };
+
+    it('should build an authorization URL with PKCE', async () => {
+        const { authorizationUrl } = await oidcService.authorize('mock');
+        const url = new URL(authorizationUrl);
+
+        expect(url.pathname).toBe('/authorize');
+        expect(url.searchParams.get('client_id')).toBe(CLIENT_ID);
+        expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+        expect(url.searchParams.get('state')).toBeTruthy();
+    });
+
+    it('should reject unknown providers', async () => {
+        await expect(oidcService.authorize('nope')).rejects.toMatchObject({ statusCode: 404 });
+    });
+
+    it('should sign in a linked identity', async () => {
+        const user = { id: 'user-1', email: 'jane@example.com' };
+        (prisma.identity.findUnique as jest.Mock).mockResolvedValue({ id: 'identity-1', user });
+
+        const { code, state } = await authorizeAndSignIn({ sub: 'sub-1', email: 'jane@example.com', email_verified: true });
+
+        await expect(oidcService.resolveUser(code, state)).resolves.toBe(user);
+        expect(prisma.identity.findUnique).toHaveBeenCalledWith({
+            where: { provider_subject: { provider: 'mock', subject: 'sub-1' } },
+            include: { user: true }
+        });
+    });
+
+    it('should create a verified account for a new email', async () => {
+        (prisma.identity.findUnique as jest.Mock).mockResolvedValue(null);
+        (prisma.user.findUnique as jest.Mock).mockResolvedValue(null);
+        (prisma.user.create as jest.Mock).mockResolvedValue({ id: 'user-2', email: 'new@example.com' });
+
+        const { code, state } = await authorizeAndSignIn({ sub: 'sub-2', email: 'new@example.com', email_verified: true, name: 'New User' });
+        await oidcService.resolveUser(code, state);
+
+        expect(prisma.user.create).toHaveBeenCalledWith({
+            data: { email: 'new@example.com', name: 'New User', emailVerified: true, emailVerifiedAt: expect.any(Date) }
+        });
+        expect(prisma.identity.create).toHaveBeenCalledWith({
+            data: { userId: 'user-2', provider: 'mock', subject: 'sub-2', email: 'new@example.com' }
+        });
+        expect(projectService.attachPendingInvitations).toHaveBeenCalledWith('user-2', 'new@example.com');
+    });
+
+    it('should link to an existing verified account by email', async () => {
+        (prisma.identity.findUnique as jest.Mock).mockResolvedValue(null);
+        (prisma.user.findUnique as jest.Mock).mockResolvedValue({ id: 'user-1', email: 'jane@example.com', emailVerified: true });
+
+        const { code, state } = await authorizeAndSignIn({ sub: 'sub-3', email: 'jane@example.com', email_verified: true });
+        const user = await oidcService.resolveUser(code, state);
+
+        expect(user.id).toBe('user-1');
+        expect(prisma.user.create).not.toHaveBeenCalled();
+        expect(prisma.identity.create).toHaveBeenCalledWith({
+            data: { userId: 'user-1', provider: 'mock', subject: 'sub-3', email: 'jane@example.com' }
+        });
+    });
+
+    it('should not take over an unverified account', async () => {
+        (prisma.identity.findUnique as jest.Mock).mockResolvedValue(null);
+        (prisma.user.findUnique as jest.Mock).mockResolvedValue({ id: 'user-1', email: 'jane@example.com', emailVerified: false });
+
+        const { code, state } = await authorizeAndSignIn({ sub: 'sub-4', email: 'jane@example.com', email_verified: true });
+
+        await expect(oidcService.resolveUser(code, state)).rejects.toMatchObject({ statusCode: 409 });
+        expect(prisma.identity.create).not.toHaveBeenCalled();
+    });
+
+    it('should require a verified email for unknown identities', async () => {
+        (prisma.identity.findUnique as jest.Mock).mockResolvedValue(null);
+
+        const { code, state } = await authorizeAndSignIn({ sub: 'sub-5', email: 'jane@example.com', email_verified: false });
+
+        await expect(oidcService.resolveUser(code, state)).rejects.toMatchObject({ statusCode: 403 });
+    });
+
+    it('should accept each state once', async () => {
+        (prisma.identity.findUnique as jest.Mock).mockResolvedValue({ id: 'identity-1', user: { id: 'user-1' } });
+        const { code, state } = await authorizeAndSignIn({ sub: 'sub-1' });
+
+        await oidcService.resolveUser(code, state);
+
+        await expect(oidcService.resolveUser(code, state)).rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('should only complete a link for the user who started it', async () => {
+        const { code, state } = await authorizeAndSignIn({ sub: 'sub-6' }, 'user-1');
+
+        await expect(oidcService.resolveUser(code, state)).rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('should link an identity to the signed-in user', async () => {
+        (prisma.identity.findUnique as jest.Mock).mockResolvedValue(null);
+        (prisma.identity.create as jest.Mock).mockResolvedValue({ id: 'identity-7' });
+
+        const { code, state } = await authorizeAndSignIn({ sub: 'sub-7', email: 'work@corp.example' }, 'user-1');
+
+        await expect(oidcService.link('user-1', code, state)).resolves.toEqual({ id: 'identity-7' });
+        expect(prisma.identity.create).toHaveBeenCalledWith({
+            data: { userId: 'user-1', provider: 'mock', subject: 'sub-7', email: 'work@corp.example' }
+        });
+    });
+
+    it('should not unlink the only way to sign in', async () => {
+        (prisma.identity.findFirst as jest.Mock).mockResolvedValue({ id: 'identity-1', userId: 'user-1' });
+        (prisma.user.findUnique as jest.Mock).mockResolvedValue({ password: null });
+        (prisma.identity.count as jest.Mock).mockResolvedValue(1);
+
+        await expect(oidcService.unlink('user-1', 'identity-1')).rejects.toMatchObject({ statusCode: 400 });
+        expect(prisma.identity.delete).not.toHaveBeenCalled();
+    });
+
+    it('should load providers from the environment', () => {
+        expect(loadProviders({
+            OIDC_PROVIDERS: 'google, corp-sso',
+            OIDC_GOOGLE_ISSUER: 'https://accounts.google.com',
+            OIDC_GOOGLE_CLIENT_ID: 'google-client',
+            OIDC_CORP_SSO_ISSUER: 'https://sso.corp.example',
+            OIDC_CORP_SSO_CLIENT_ID: 'corp-client',
+            OIDC_CORP_SSO_NAME: 'Corp SSO'
+        })).toEqual([
+            { id: 'google', name: 'google', issuer: 'https://accounts.google.com', clientId: 'google-client', clientSecret: undefined, scopes: 'openid email profile' },
+            { id: 'corp-sso', name: 'Corp SSO', issuer: 'https://sso.corp.example', clientId: 'corp-client', clientSecret: undefined, scopes: 'openid email profile' }
+        ]);
+        expect(() => loadProviders({ OIDC_PROVIDERS: 'google' })).toThrow('OIDC_GOOGLE_ISSUER');
+    });
+});
@@ -0,0 +1,135 @@
+jest.mock('../queues/job.queue', () => ({ addJob: jest.fn(), addJobs: jest.fn() }));
+jest.mock('../queues/job.events', () => ({ publishJobEvent: jest.fn() }));
+jest.mock('../services/job.service', () => ({ __esModule: true, default: { ensureScope: jest.fn(), canView: jest.fn() } }));
+jest.mock('../services/quota.service', () => ({ __esModule: true, default: { check: jest.fn() } }));
+jest.mock('../models/job.model', () => ({
+    Job: { insertMany: jest.fn(), find: jest.fn(), findOne: jest.fn(), deleteMany: jest.fn(), countDocuments: jest.fn() },
+    JobStatus: { PENDING: 'pending', PROCESSING: 'processing', COMPLETED: 'completed', FAILED: 'failed', CANCELLED: 'cancelled', SKIPPED: 'skipped' }
+}));
+jest.mock('../models/pipeline.model', () => ({
+    Pipeline: { create: jest.fn(), findOne: jest.fn(), deleteOne: jest.fn() }
+}));
+
+import { Job } from '../models/job.model';
+import { Pipeline } from '../models/pipeline.model';
+import { addJob, addJobs } from '../queues/job.queue';
+import { publishJobEvent } from '../queues/job.events';
+import jobService from '../services/job.service';
+import { PipelineService } from '../services/pipeline.service';
+
+// Mongoose query stand-in supporting .select().lean()
+const query = (value: unknown) => ({ select: () => ({ lean: () => Promise.resolve(value) }), lean: () => Promise.resolve(value) });
+
+const node = (key: string, dependsOn: string[] = [], type = 'DATA_ANALYSIS') => ({
+    key, type: type as 'DATA_ANALYSIS', payload: {}, priority: 5, dependsOn, onUpstreamFailure: 'skip' as const
+});
+
+describe('PipelineService', () => {
+    const pipelineService = new PipelineService();
+
+    beforeEach(() => jest.clearAllMocks());
+
+    describe('create', () => {
+        it('should queue only the jobs without dependencies', async () => {
+            (Pipeline.create as jest.Mock).mockResolvedValue({ pipelineId: 'pipe-1' });
+            (Job.insertMany as jest.Mock).mockImplementation(async (docs) => docs);
+
+            const { jobs } = await pipelineService.create('user-1', {
+                jobs: [node('analyze-a'), node('analyze-b'), node('export', ['analyze-a', 'analyze-b'], 'EXPORT')]
+            });
+
+            const [queued] = (addJobs as jest.Mock).mock.calls[0];
+            expect(queued.map((entry: { data: { jobId: string } }) => entry.data.jobId))
+                .toEqual(jobs.filter(job => job.pipelineKey !== 'export').map(job => job.jobId));
+            expect(queued[0]).toEqual({ data: expect.objectContaining({ type: 'DATA_ANALYSIS', pipelineId: expect.any(String) }), priority: 5 });
+            expect(jobs.find(job => job.pipelineKey === 'export')!.dependsOn).toHaveLength(2);
+            expect(publishJobEvent).toHaveBeenCalledTimes(3);
+        });
+
+        it('should accept a job feeding several downstream jobs', async () => {
+            (Pipeline.create as jest.Mock).mockResolvedValue({ pipelineId: 'pipe-1' });
+            (Job.insertMany as jest.Mock).mockImplementation(async (docs) => docs);
+
+            const { jobs } = await pipelineService.create('user-1', {
+                jobs: [node('a'), node('b', ['a']), node('c', ['a']), node('d', ['b', 'c'])]
+            });
+
+            expect(jobs).toHaveLength(4);
+            expect((addJobs as jest.Mock).mock.calls[0][0]).toHaveLength(1);
+        });
+
+        it('should reject cycles and unknown dependencies', async () => {
+            await expect(pipelineService.create('user-1', { jobs: [node('a', ['b']), node('b', ['a'])] }))
+                .rejects.toThrow('Pipeline dependencies contain a cycle');
+            await expect(pipelineService.create('user-1', { jobs: [node('a'), node('b', ['a', 'd']), node('c', ['b']), node('d', ['c'])] }))
+                .rejects.toThrow('Pipeline dependencies contain a cycle');
+            await expect(pipelineService.create('user-1', { jobs: [node('a', ['missing'])] }))
+                .rejects.toThrow('Job "a" has an invalid dependency "missing"');
+        });
+
+        it('should roll back when the jobs cannot be queued', async () => {
+            (Pipeline.create as jest.Mock).mockResolvedValue({});
+            (Job.insertMany as jest.Mock).mockResolvedValue([]);
+            (addJobs as jest.Mock).mockRejectedValue(new Error('Redis down'));
+
+            await expect(pipelineService.create('user-1', { jobs: [node('a')] })).rejects.toThrow('Redis down');
+            expect(Job.deleteMany).toHaveBeenCalled();
+            expect(Pipeline.deleteOne).toHaveBeenCalled();
+        });
+    });
+
+    describe('getStatus', () => {
+        it('should aggregate node states', async () => {
+            (Pipeline.findOne as jest.Mock).mockReturnValue(query({
+                pipelineId: 'pipe-1',
+                userId: 'user-1',
+                nodes: [{ key: 'a', jobId: 'job-a', dependsOn: [] }, { key: 'b', jobId: 'job-b', dependsOn: ['a'] }]
+            }));
+            (jobService.canView as jest.Mock).mockResolvedValue(true);
+            (Job.find as jest.Mock).mockReturnValue(query([
+                { jobId: 'job-a', status: 'completed' },
+                { jobId: 'job-b', status: 'processing', progress: 40 }
+            ]));
+
+            const result = await pipelineService.getStatus('pipe-1', 'user-1');
+
+            expect(result.status).toBe('running');
+            expect(result.counts).toEqual(expect.objectContaining({ completed: 1, processing: 1 }));
+            expect(result.nodes[1]).toEqual(expect.objectContaining({ key: 'b', status: 'processing', progress: 40 }));
+        });
+
+        it('should hide pipelines from non-members', async () => {
+            (Pipeline.findOne as jest.Mock).mockReturnValue(query({ pipelineId: 'pipe-1', userId: 'user-2', nodes: [] }));
+            (jobService.canView as jest.Mock).mockResolvedValue(false);
+
+            await expect(pipelineService.getStatus('pipe-1', 'user-1')).rejects.toThrow('Pipeline not found');
+        });
+    });
+
+    describe('getUpstreamResults', () => {
+        it('should key upstream results by node key', async () => {
+            (Job.findOne as jest.Mock).mockReturnValue(query({ dependsOn: ['job-a'] }));
+            (Job.find as jest.Mock).mockReturnValue(query([{ pipelineKey: 'analyze', result: { rowCount: 3 } }]));
+
+            const upstream = await pipelineService.getUpstreamResults('job-b');
+
+            expect(upstream).toEqual({ analyze: { rowCount: 3 } });
+        });
+    });
+
+    describe('releaseDownstream', () => {
+        it('should queue downstream jobs once all of their upstream jobs have completed', async () => {
+            const downstream = (jobId: string, dependsOn: string[]) => ({
+                jobId, type: 'EXPORT', payload: {}, userId: 'user-1', pipelineId: 'pipe-1', priority: 3, dependsOn
+            });
+            (Job.find as jest.Mock).mockReturnValue(query([downstream('job-b', ['job-a']), downstream('job-c', ['job-a', 'job-x'])]));
+            (Job.countDocuments as jest.Mock).mockResolvedValueOnce(0).mockResolvedValueOnce(1);
+
+            await pipelineService.releaseDownstream('job-a');
+
+            expect(Job.find).toHaveBeenCalledWith({ dependsOn: 'job-a', status: 'pending' });
+            expect(addJob).toHaveBeenCalledTimes(1);
+            expect(addJob).toHaveBeenCalledWith(expect.objectContaining({ jobId: 'job-b', pipelineId: 'pipe-1' }), 3);
+        });
+    });
+});
@@ -0,0 +1,109 @@
+// Mock database and cache
+jest.mock('../config/prisma', () => ({
+    __esModule: true,
+    default: {
+        user: { findMany: jest.fn() }
+    }
+}));
+
+jest.mock('../config/redis', () => ({
+    __esModule: true,
+    default: {
+        zadd: jest.fn(), zrem: jest.fn(), zrangebyscore: jest.fn(), pexpire: jest.fn(),
+        hset: jest.fn(), hget: jest.fn(), hdel: jest.fn(), hgetall: jest.fn()
+    }
+}));
+
+import prisma from '../config/prisma';
+import redis from '../config/redis';
+import { PresenceService } from '../services/presence.service';
+
+describe('PresenceService', () => {
+    let presenceService: PresenceService;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        presenceService = new PresenceService();
+        (redis.zrangebyscore as jest.Mock).mockResolvedValue([]);
+        (redis.hgetall as jest.Mock).mockResolvedValue({});
+    });
+
+    describe('join', () => {
+        it('should report the first connection of a user', async () => {
+            const first = await presenceService.join('ws-1', 'socket-1', 'user-1');
+
+            expect(first).toBe(true);
+            expect(redis.zadd).toHaveBeenCalledWith('presence:ws-1:connections', expect.any(Number), 'socket-1');
+            expect(redis.hset).toHaveBeenCalledWith('presence:ws-1:users', 'socket-1', 'user-1');
+        });
+
+        it('should not report a second tab as a new join', async () => {
+            (redis.hgetall as jest.Mock).mockResolvedValue({ 'socket-1': 'user-1' });
+
+            const first = await presenceService.join('ws-1', 'socket-2', 'user-1');
+
+            expect(first).toBe(false);
+        });
+    });
+
+    describe('leave', () => {
+        it('should keep the user present while another tab is open', async () => {
+            (redis.hget as jest.Mock).mockResolvedValue('user-1');
+            (redis.hgetall as jest.Mock).mockResolvedValue({ 'socket-2': 'user-1' });
+
+            const last = await presenceService.leave('ws-1', 'socket-1');
+
+            expect(last).toBe(false);
+            expect(redis.zrem).toHaveBeenCalledWith('presence:ws-1:connections', 'socket-1');
+        });
+    });
+
+    describe('disconnect', () => {
+        it('should leave the other workspaces and stop refreshing the socket when Redis fails for one', async () => {
+            await presenceService.join('ws-1', 'socket-1', 'user-1');
+            await presenceService.join('ws-2', 'socket-1', 'user-1');
+            const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+            (redis.hget as jest.Mock).mockRejectedValueOnce(new Error('Connection lost')).mockResolvedValue('user-1');
+
+            const left = await presenceService.disconnect('socket-1');
+            expect(consoleError).toHaveBeenCalled();
+            consoleError.mockRestore();
+            jest.clearAllMocks();
+            await presenceService.heartbeat();
+
+            expect(left).toEqual(['ws-2']);
+            expect(redis.zadd).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('getRoster', () => {
+        it('should prune expired connections and group tabs per user', async () => {
+            (redis.zrangebyscore as jest.Mock).mockResolvedValue(['ghost-socket']);
+            (redis.hgetall as jest.Mock).mockResolvedValue({ 'socket-1': 'user-1', 'socket-2': 'user-1', 'socket-3': 'user-2' });
+            (prisma.user.findMany as jest.Mock).mockResolvedValue([
+                { id: 'user-1', name: 'Alice', avatarUrl: null },
+                { id: 'user-2', name: 'Bob', avatarUrl: 'https://example.com/bob.png' }
+            ]);
+
+            const roster = await presenceService.getRoster('ws-1');
+
+            expect(redis.zrem).toHaveBeenCalledWith('presence:ws-1:connections', 'ghost-socket');
+            expect(roster).toEqual([
+                { userId: 'user-1', name: 'Alice', avatarUrl: null, connections: 2 },
+                { userId: 'user-2', name: 'Bob', avatarUrl: 'https://example.com/bob.png', connections: 1 }
+            ]);
+        });
+    });
+
+    describe('heartbeat', () => {
+        it('should refresh every local connection', async () => {
+            await presenceService.join('ws-1', 'socket-1', 'user-1');
+            await presenceService.join('ws-2', 'socket-1', 'user-1');
+            jest.clearAllMocks();
+
+            await presenceService.heartbeat();
+
+            expect(redis.zadd).toHaveBeenCalledTimes(2);
+        });
+    });
+});
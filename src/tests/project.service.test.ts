@@ -3,19 +3,30 @@ jest.mock('../config/prisma', () => ({
     __esModule: true,
     default: {
         project: { findUnique: jest.fn(), findMany: jest.fn(), create: jest.fn(), update: jest.fn(), delete: jest.fn() },
-        collaborator: { findUnique: jest.fn(), findMany: jest.fn(), create: jest.fn() },
+        collaborator: { findUnique: jest.fn(), findMany: jest.fn(), create: jest.fn(), update: jest.fn(), delete: jest.fn() },
         user: { findUnique: jest.fn() },
-        invitation: { create: jest.fn(), findUnique: jest.fn(), update: jest.fn(), findMany: jest.fn() }
+        invitation: {
+            create: jest.fn(), findUnique: jest.fn(), findFirst: jest.fn(), update: jest.fn(),
+            findMany: jest.fn(), delete: jest.fn(), deleteMany: jest.fn()
+        },
+        $transaction: jest.fn()
     }
 }));
 
 jest.mock('../config/redis', () => ({
     __esModule: true,
+    redisPub: { publish: jest.fn() },
     default: { get: jest.fn(), setex: jest.fn(), del: jest.fn() }
 }));
 
+jest.mock('../services/job.service', () => ({ __esModule: true, default: { deleteForProject: jest.fn() } }));
+jest.mock('../services/schedule.service', () => ({ __esModule: true, default: { deleteForProject: jest.fn() } }));
+jest.mock('../services/webhook.service', () => ({ __esModule: true, default: { emit: jest.fn() } }));
+
 import prisma from '../config/prisma';
-import redis from '../config/redis';
+import redis, { redisPub } from '../config/redis';
+import jobService from '../services/job.service';
+import scheduleService from '../services/schedule.service';
 import { ProjectService } from '../services/project.service';
 
 describe('ProjectService', () => {
@@ -65,6 +76,18 @@ describe('ProjectService', () => {
         });
     });
 
+    describe('delete', () => {
+        it('should clean up the project\'s jobs', async () => {
+            (prisma.project.delete as jest.Mock).mockResolvedValue({ id: 'proj-1' });
+
+            await projectService.delete('proj-1');
+
+            expect(redis.del).toHaveBeenCalledWith('project:proj-1');
+            expect(jobService.deleteForProject).toHaveBeenCalledWith('proj-1');
+            expect(scheduleService.deleteForProject).toHaveBeenCalledWith('proj-1');
+        });
+    });
+
     describe('inviteCollaborator', () => {
         it('should create invitation for non-registered user', async () => {
             (prisma.user.findUnique as jest.Mock).mockResolvedValue(null);
@@ -87,5 +110,137 @@ describe('ProjectService', () => {
             expect(result.invited).toBe(true);
             expect(result.message).toBe('Invitation updated');
         });
+
+        it('should add a verified user as collaborator right away', async () => {
+            (prisma.user.findUnique as jest.Mock).mockResolvedValue({ id: 'user-2', emailVerified: true });
+            (prisma.collaborator.findUnique as jest.Mock).mockResolvedValue(null);
+            (prisma.collaborator.create as jest.Mock).mockResolvedValue({ id: 'collab-1' });
+
+            const result = await projectService.inviteCollaborator('proj-1', 'member@example.com');
+
+            expect(result.invited).toBe(false);
+            expect(prisma.invitation.create).not.toHaveBeenCalled();
+        });
+
+        it('should only invite a user whose email is not verified', async () => {
+            (prisma.user.findUnique as jest.Mock).mockResolvedValue({ id: 'user-3', emailVerified: false });
+            (prisma.invitation.findUnique as jest.Mock).mockResolvedValue(null);
+            (prisma.invitation.create as jest.Mock).mockResolvedValue({ token: 'invite-token' });
+
+            const result = await projectService.inviteCollaborator('proj-1', 'unverified@example.com');
+
+            expect(result.invited).toBe(true);
+            expect(prisma.collaborator.create).not.toHaveBeenCalled();
+            expect(prisma.invitation.create).toHaveBeenCalledWith({ data: expect.objectContaining({ email: 'unverified@example.com' }) });
+        });
+
+        it('should store the invited email lowercased', async () => {
+            (prisma.user.findUnique as jest.Mock).mockResolvedValue(null);
+            (prisma.invitation.findUnique as jest.Mock).mockResolvedValue(null);
+            (prisma.invitation.create as jest.Mock).mockResolvedValue({ token: 'invite-token' });
+
+            await projectService.inviteCollaborator('proj-1', ' New.User@Example.com ');
+
+            expect(prisma.user.findUnique).toHaveBeenCalledWith({ where: { email: 'new.user@example.com' } });
+            expect(prisma.invitation.create).toHaveBeenCalledWith({ data: expect.objectContaining({ email: 'new.user@example.com' }) });
+        });
+    });
+
+    describe('removeCollaborator', () => {
+        it('should notify sockets that access was revoked', async () => {
+            (prisma.collaborator.delete as jest.Mock).mockResolvedValue({ id: 'collab-1', userId: 'user-2', projectId: 'proj-1' });
+
+            await projectService.removeCollaborator('proj-1', 'collab-1');
+
+            expect(redisPub.publish).toHaveBeenCalledWith('access-events', JSON.stringify({ userId: 'user-2', projectId: 'proj-1', role: null }));
+        });
+    });
+
+    describe('updateCollaboratorRole', () => {
+        it('should notify sockets of the new role', async () => {
+            (prisma.collaborator.update as jest.Mock).mockResolvedValue({ id: 'collab-1', userId: 'user-2', role: 'VIEWER' });
+
+            await projectService.updateCollaboratorRole('proj-1', 'collab-1', 'VIEWER');
+
+            expect(redisPub.publish).toHaveBeenCalledWith('access-events', JSON.stringify({ userId: 'user-2', projectId: 'proj-1', role: 'VIEWER' }));
+        });
+    });
+
+    describe('acceptInvitation', () => {
+        const user = { id: 'user-2', email: 'invitee@example.com' };
+        const invitation = {
+            id: 'inv-1', email: 'invitee@example.com', projectId: 'proj-1', role: 'VIEWER',
+            expiresAt: new Date(Date.now() + 60000), project: { ownerId: 'user-1' }
+        };
+
+        it('should create collaborator with the invited role', async () => {
+            (prisma.invitation.findUnique as jest.Mock).mockResolvedValue(invitation);
+            (prisma.collaborator.findUnique as jest.Mock).mockResolvedValue(null);
+            (prisma.$transaction as jest.Mock).mockResolvedValue([{ id: 'collab-1', role: 'VIEWER' }, {}]);
+
+            const result = await projectService.acceptInvitation('invite-token', user);
+
+            expect(result.collaborator.role).toBe('VIEWER');
+            expect(prisma.collaborator.create).toHaveBeenCalledWith(expect.objectContaining({
+                data: { userId: 'user-2', projectId: 'proj-1', role: 'VIEWER' }
+            }));
+            expect(redis.del).toHaveBeenCalledWith('project:proj-1');
+        });
+
+        it('should reject invitation sent to another email', async () => {
+            (prisma.invitation.findUnique as jest.Mock).mockResolvedValue(invitation);
+
+            await expect(
+                projectService.acceptInvitation('invite-token', { id: 'user-3', email: 'other@example.com' })
+            ).rejects.toThrow('Invitation was sent to a different email');
+        });
+
+        it('should match the invited email regardless of case', async () => {
+            (prisma.invitation.findUnique as jest.Mock).mockResolvedValue({ ...invitation, email: 'Invitee@Example.com' });
+            (prisma.collaborator.findUnique as jest.Mock).mockResolvedValue(null);
+            (prisma.$transaction as jest.Mock).mockResolvedValue([{ id: 'collab-1', role: 'VIEWER' }, {}]);
+
+            const result = await projectService.acceptInvitation('invite-token', user);
+
+            expect(result.collaborator.role).toBe('VIEWER');
+        });
+
+        it('should reject expired invitation', async () => {
+            (prisma.invitation.findUnique as jest.Mock).mockResolvedValue({ ...invitation, expiresAt: new Date(Date.now() - 1000) });
+
+            await expect(projectService.acceptInvitation('invite-token', user)).rejects.toThrow('Invitation has expired');
+        });
+    });
+
+    describe('revokeInvitation', () => {
+        it('should throw if invitation does not belong to project', async () => {
+            (prisma.invitation.deleteMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+            await expect(projectService.revokeInvitation('proj-1', 'inv-x')).rejects.toThrow('Invitation not found');
+        });
+    });
+
+    describe('attachPendingInvitations', () => {
+        it('should convert pending invitations into collaborators', async () => {
+            (prisma.invitation.findMany as jest.Mock).mockResolvedValue([
+                { id: 'inv-1', projectId: 'proj-1', role: 'COLLABORATOR' },
+                { id: 'inv-2', projectId: 'proj-2', role: 'VIEWER' }
+            ]);
+            (prisma.$transaction as jest.Mock).mockResolvedValue([]);
+
+            const projectIds = await projectService.attachPendingInvitations('user-2', 'invitee@example.com');
+
+            expect(projectIds).toEqual(['proj-1', 'proj-2']);
+            expect(prisma.collaborator.create).toHaveBeenCalledTimes(2);
+            expect(prisma.invitation.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ['inv-1', 'inv-2'] } } });
+        });
+
+        it('should look invitations up by the normalized email', async () => {
+            (prisma.invitation.findMany as jest.Mock).mockResolvedValue([]);
+
+            await projectService.attachPendingInvitations('user-2', 'Invitee@Example.com');
+
+            expect(prisma.invitation.findMany).toHaveBeenCalledWith({ where: { email: 'invitee@example.com', expiresAt: { gt: expect.any(Date) } } });
+        });
     });
 });
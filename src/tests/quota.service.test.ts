@@ -0,0 +1,51 @@
+jest.mock('../models/job.model', () => ({
+    Job: { countDocuments: jest.fn() },
+    JobStatus: { PENDING: 'pending', PROCESSING: 'processing' }
+}));
+
+import { Job } from '../models/job.model';
+import { QUOTAS, QuotaService } from '../services/quota.service';
+
+// countDocuments is called for concurrent then daily usage, per scope
+const usage = (...counts: number[]) => counts.forEach(count => (Job.countDocuments as jest.Mock).mockResolvedValueOnce(count));
+
+describe('QuotaService', () => {
+    const quotaService = new QuotaService();
+
+    beforeEach(() => jest.resetAllMocks());
+
+    it('should allow submissions within every limit', async () => {
+        usage(1, 10, 3, 40);
+
+        await expect(quotaService.check('user-1', { projectId: 'proj-1', priority: 5 })).resolves.toBeUndefined();
+        expect(Job.countDocuments).toHaveBeenCalledWith(expect.objectContaining({ projectId: 'proj-1' }));
+    });
+
+    it('should reject with 429 once the concurrent limit is reached', async () => {
+        usage(QUOTAS.user.concurrent, 0);
+
+        await expect(quotaService.check('user-1', {})).rejects.toMatchObject({
+            statusCode: 429,
+            message: expect.stringContaining('Concurrent job quota exceeded for this user')
+        });
+    });
+
+    it('should count every job of a pipeline against the daily limit', async () => {
+        usage(0, 0, 0, QUOTAS.project.daily - 2);
+
+        await expect(quotaService.check('user-1', { projectId: 'proj-1', count: 3 }))
+            .rejects.toThrow('Daily job quota exceeded for this project');
+    });
+
+    it('should reject priorities more urgent than allowed', async () => {
+        const maxPriority = QUOTAS.user.maxPriority;
+        QUOTAS.user.maxPriority = 3;
+
+        try {
+            await expect(quotaService.check('user-1', { priority: 1, count: 0 })).rejects.toMatchObject({ statusCode: 429 });
+            expect(Job.countDocuments).not.toHaveBeenCalled();
+        } finally {
+            QUOTAS.user.maxPriority = maxPriority;
+        }
+    });
+});
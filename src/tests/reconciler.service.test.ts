@@ -0,0 +1,115 @@
+jest.mock('../queues/job.queue', () => ({ jobQueue: { getJob: jest.fn(), getJobs: jest.fn() } }));
+jest.mock('../queues/job.events', () => ({ publishJobEvent: jest.fn() }));
+jest.mock('../services/job.service', () => ({ __esModule: true, default: { settleDownstream: jest.fn() } }));
+jest.mock('../services/pipeline.service', () => ({ __esModule: true, default: { isReady: jest.fn(), enqueue: jest.fn() } }));
+jest.mock('../models/job.model', () => ({
+    Job: { find: jest.fn(), updateOne: jest.fn() },
+    JobStatus: { PENDING: 'pending', PROCESSING: 'processing', COMPLETED: 'completed', FAILED: 'failed' }
+}));
+
+import { Job } from '../models/job.model';
+import { jobQueue } from '../queues/job.queue';
+import { publishJobEvent } from '../queues/job.events';
+import jobService from '../services/job.service';
+import pipelineService from '../services/pipeline.service';
+import { ReconcilerService } from '../services/reconciler.service';
+
+// Mongoose query stand-in supporting .select().limit().lean() and .select().lean()
+const query = (value: unknown) => {
+    const lean = () => Promise.resolve(value);
+    return { select: () => ({ limit: () => ({ lean }), lean }) };
+};
+
+const bullJob = (state: string, extra: Record<string, unknown> = {}) => ({
+    getState: jest.fn().mockResolvedValue(state),
+    remove: jest.fn().mockResolvedValue(undefined),
+    ...extra
+});
+
+const record = (jobId: string, status = 'processing') => ({ jobId, status, userId: 'user-1' });
+
+describe('ReconcilerService', () => {
+    const reconcilerService = new ReconcilerService();
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (jobQueue.getJobs as jest.Mock).mockResolvedValue([]);
+        (Job.updateOne as jest.Mock).mockResolvedValue({ modifiedCount: 1 });
+    });
+
+    it('should classify drift between Mongo and BullMQ', async () => {
+        (Job.find as jest.Mock).mockReturnValueOnce(query([
+            record('job-stalled'), record('job-missing', 'pending'), record('job-done'), record('job-running')
+        ]));
+        (jobQueue.getJob as jest.Mock).mockImplementation(async (id: string) => ({
+            'job-stalled': bullJob('waiting'),
+            'job-done': bullJob('completed', { returnvalue: { ok: true } }),
+            'job-running': bullJob('active')
+        } as Record<string, unknown>)[id]);
+
+        const found = await reconcilerService.inspect();
+
+        expect(found.map(issue => [issue.jobId, issue.kind])).toEqual([
+            ['job-stalled', 'stalled'],
+            ['job-missing', 'missing'],
+            ['job-done', 'out_of_sync']
+        ]);
+        expect(Job.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('should repair records against their last known status', async () => {
+        (Job.find as jest.Mock).mockReturnValueOnce(query([record('job-stalled'), record('job-missing')]));
+        (jobQueue.getJob as jest.Mock).mockImplementation(async (id: string) => (id === 'job-stalled' ? bullJob('delayed') : null));
+
+        await reconcilerService.reconcile();
+
+        expect(Job.updateOne).toHaveBeenCalledWith({ jobId: 'job-stalled', status: 'processing' }, { status: 'pending' });
+        expect(Job.updateOne).toHaveBeenCalledWith(
+            { jobId: 'job-missing', status: 'processing' },
+            expect.objectContaining({ status: 'failed', error: 'Job was lost from the queue' })
+        );
+        expect(jobService.settleDownstream).toHaveBeenCalledWith('job-missing');
+        expect(publishJobEvent).toHaveBeenCalledTimes(2);
+    });
+
+    it('should skip records that moved on since they were read', async () => {
+        (Job.find as jest.Mock).mockReturnValueOnce(query([record('job-missing')]));
+        (jobQueue.getJob as jest.Mock).mockResolvedValue(null);
+        (Job.updateOne as jest.Mock).mockResolvedValue({ modifiedCount: 0 });
+
+        await reconcilerService.reconcile();
+
+        expect(publishJobEvent).not.toHaveBeenCalled();
+        expect(jobService.settleDownstream).not.toHaveBeenCalled();
+    });
+
+    it('should queue pipeline jobs whose upstream jobs have completed', async () => {
+        (Job.find as jest.Mock).mockReturnValueOnce(query([
+            { ...record('job-ready', 'pending'), dependsOn: ['job-a'] },
+            { ...record('job-waiting', 'pending'), dependsOn: ['job-b'] }
+        ]));
+        (jobQueue.getJob as jest.Mock).mockResolvedValue(null);
+        (pipelineService.isReady as jest.Mock).mockImplementation(async ({ dependsOn }) => dependsOn[0] === 'job-a');
+
+        const repaired = await reconcilerService.reconcile();
+
+        expect(repaired).toEqual([expect.objectContaining({ jobId: 'job-ready', kind: 'missing' })]);
+        expect(pipelineService.enqueue).toHaveBeenCalledWith('job-ready');
+        expect(Job.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('should remove queued jobs without a record', async () => {
+        const orphan = bullJob('waiting', { id: 'job-gone', data: { jobId: 'job-gone' }, timestamp: Date.now() - 10 * 60 * 1000 });
+        const occurrence = bullJob('waiting', { id: 'repeat:1', data: { scheduleId: 'sched-1' }, timestamp: 0 });
+        (Job.find as jest.Mock)
+            .mockReturnValueOnce(query([]))
+            .mockReturnValueOnce(query([]));
+        (jobQueue.getJobs as jest.Mock).mockResolvedValue([orphan, occurrence]);
+
+        const repaired = await reconcilerService.reconcile();
+
+        expect(repaired).toEqual([expect.objectContaining({ jobId: 'job-gone', kind: 'orphaned' })]);
+        expect(orphan.remove).toHaveBeenCalled();
+        expect(occurrence.remove).not.toHaveBeenCalled();
+    });
+});
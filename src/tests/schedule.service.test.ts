@@ -0,0 +1,186 @@
+jest.mock('../queues/job.queue', () => ({
+    addSchedule: jest.fn(),
+    removeSchedule: jest.fn(),
+    getNextScheduledRun: jest.fn()
+}));
+jest.mock('../queues/job.events', () => ({ publishJobEvent: jest.fn() }));
+jest.mock('../services/job.service', () => ({ __esModule: true, default: { ensureScope: jest.fn() } }));
+jest.mock('../services/quota.service', () => ({ __esModule: true, default: { check: jest.fn() } }));
+jest.mock('../middleware/auth.middleware', () => ({
+    getProjectRole: jest.fn(),
+    hasRole: (role: string, minRole: string) => ['VIEWER', 'COLLABORATOR', 'OWNER'].indexOf(role) >= ['VIEWER', 'COLLABORATOR', 'OWNER'].indexOf(minRole)
+}));
+jest.mock('../models/job.model', () => ({
+    Job: { create: jest.fn() },
+    JobStatus: { PENDING: 'pending', SKIPPED: 'skipped' }
+}));
+jest.mock('../models/schedule.model', () => ({
+    Schedule: { create: jest.fn(), findOne: jest.fn(), find: jest.fn(), countDocuments: jest.fn(), deleteOne: jest.fn(), deleteMany: jest.fn() },
+    ScheduleStatus: { ACTIVE: 'active', PAUSED: 'paused', COMPLETED: 'completed' }
+}));
+
+import { Job } from '../models/job.model';
+import { Schedule, ScheduleStatus } from '../models/schedule.model';
+import { addSchedule, getNextScheduledRun, removeSchedule } from '../queues/job.queue';
+import { publishJobEvent } from '../queues/job.events';
+import quotaService from '../services/quota.service';
+import { ApiError } from '../middleware/error.middleware';
+import { getProjectRole } from '../middleware/auth.middleware';
+import { ScheduleService } from '../services/schedule.service';
+
+const scheduleDoc = (overrides: Record<string, unknown> = {}): Record<string, unknown> & { save: jest.Mock } => ({
+    scheduleId: 'sched-1',
+    type: 'EXPORT',
+    payload: { format: 'json' },
+    priority: 5,
+    userId: 'user-1',
+    status: ScheduleStatus.ACTIVE,
+    runCount: 0,
+    save: jest.fn(),
+    ...overrides
+});
+
+describe('ScheduleService', () => {
+    const scheduleService = new ScheduleService();
+
+    beforeEach(() => jest.clearAllMocks());
+
+    describe('create', () => {
+        it('should register a cron schedule with BullMQ', async () => {
+            const next = new Date(Date.now() + 60_000);
+            const schedule = scheduleDoc({ cron: '0 * * * *' });
+            (Schedule.create as jest.Mock).mockResolvedValue(schedule);
+            (addSchedule as jest.Mock).mockResolvedValue(next);
+
+            const result = await scheduleService.create('user-1', { type: 'EXPORT', payload: {}, priority: 5, cron: '0 * * * *' });
+
+            expect(addSchedule).toHaveBeenCalledWith(expect.objectContaining({ scheduleId: 'sched-1' }), expect.objectContaining({ cron: '0 * * * *' }), 5);
+            expect(result.nextRunAt).toBe(next);
+            expect(schedule.save).toHaveBeenCalled();
+        });
+
+        it('should reject runAt in the past', async () => {
+            await expect(scheduleService.create('user-1', { type: 'EXPORT', payload: {}, priority: 5, runAt: new Date(Date.now() - 1000) }))
+                .rejects.toThrow('runAt must be in the future');
+            expect(Schedule.create).not.toHaveBeenCalled();
+        });
+
+        it('should drop the schedule when the cron pattern is rejected', async () => {
+            (Schedule.create as jest.Mock).mockResolvedValue(scheduleDoc({ cron: 'not a cron' }));
+            (addSchedule as jest.Mock).mockRejectedValue(new Error('Invalid explicit day of month definition'));
+
+            await expect(scheduleService.create('user-1', { type: 'EXPORT', payload: {}, priority: 5, cron: 'not a cron' }))
+                .rejects.toThrow('Invalid cron expression');
+            expect(Schedule.deleteOne).toHaveBeenCalledWith({ scheduleId: 'sched-1' });
+        });
+
+        it('should cap the number of schedules per user', async () => {
+            (Schedule.countDocuments as jest.Mock).mockResolvedValue(50);
+
+            await expect(scheduleService.create('user-1', { type: 'EXPORT', payload: {}, priority: 5, cron: '* * * * * *' }))
+                .rejects.toMatchObject({ statusCode: 429 });
+            expect(Schedule.countDocuments).toHaveBeenCalledWith({ userId: 'user-1', status: { $in: ['active', 'paused'] } });
+            expect(Schedule.create).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('pause and resume', () => {
+        it('should remove a paused schedule from the queue', async () => {
+            const schedule = scheduleDoc({ cron: '0 * * * *' });
+            (Schedule.findOne as jest.Mock).mockResolvedValue(schedule);
+
+            await scheduleService.pause('sched-1', 'user-1');
+
+            expect(removeSchedule).toHaveBeenCalledWith('sched-1');
+            expect(schedule.status).toBe(ScheduleStatus.PAUSED);
+        });
+
+        it('should only resume paused schedules', async () => {
+            (Schedule.findOne as jest.Mock).mockResolvedValue(scheduleDoc());
+
+            await expect(scheduleService.resume('sched-1', 'user-1')).rejects.toThrow('Can only resume paused schedules');
+            expect(addSchedule).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('startOccurrence', () => {
+        it('should create a Job linked to the schedule and complete one-off schedules', async () => {
+            const schedule = scheduleDoc({ runAt: new Date() });
+            (Schedule.findOne as jest.Mock).mockResolvedValue(schedule);
+
+            const jobId = await scheduleService.startOccurrence({ scheduleId: 'sched-1', type: 'EXPORT', payload: {}, userId: 'user-1' });
+
+            expect(Job.create).toHaveBeenCalledWith(expect.objectContaining({ jobId, scheduleId: 'sched-1', status: 'pending' }));
+            expect(schedule.runCount).toBe(1);
+            expect(schedule.status).toBe(ScheduleStatus.COMPLETED);
+            expect(publishJobEvent).toHaveBeenCalledWith(expect.objectContaining({ jobId, status: 'pending' }));
+        });
+
+        it('should keep cron schedules active and record the next run', async () => {
+            const next = new Date(Date.now() + 60_000);
+            const schedule = scheduleDoc({ cron: '0 * * * *' });
+            (Schedule.findOne as jest.Mock).mockResolvedValue(schedule);
+            (getNextScheduledRun as jest.Mock).mockResolvedValue(next);
+
+            await scheduleService.startOccurrence({ scheduleId: 'sched-1', type: 'EXPORT', payload: {}, userId: 'user-1' });
+
+            expect(schedule.status).toBe(ScheduleStatus.ACTIVE);
+            expect(schedule.nextRunAt).toBe(next);
+        });
+
+        it('should record occurrences over the job quota as skipped', async () => {
+            const schedule = scheduleDoc({ cron: '* * * * * *' });
+            (Schedule.findOne as jest.Mock).mockResolvedValue(schedule);
+            (quotaService.check as jest.Mock).mockRejectedValueOnce(new ApiError(429, 'Concurrent job quota exceeded for this user (20 pending or running)'));
+
+            const jobId = await scheduleService.startOccurrence({ scheduleId: 'sched-1', type: 'EXPORT', payload: {}, userId: 'user-1' });
+
+            expect(jobId).toBeNull();
+            expect(quotaService.check).toHaveBeenCalledWith('user-1', { projectId: undefined, priority: 5 });
+            expect(Job.create).toHaveBeenCalledWith(expect.objectContaining({
+                status: 'skipped',
+                error: 'Skipped: Concurrent job quota exceeded for this user (20 pending or running)'
+            }));
+            expect(schedule.status).toBe(ScheduleStatus.ACTIVE);
+        });
+
+        it('should run project schedules while the owner is still a collaborator', async () => {
+            const schedule = scheduleDoc({ cron: '0 * * * *', projectId: 'project-1' });
+            (Schedule.findOne as jest.Mock).mockResolvedValue(schedule);
+            (getProjectRole as jest.Mock).mockResolvedValue('COLLABORATOR');
+
+            const jobId = await scheduleService.startOccurrence({ scheduleId: 'sched-1', type: 'EXPORT', payload: {}, userId: 'user-1' });
+
+            expect(jobId).not.toBeNull();
+            expect(getProjectRole).toHaveBeenCalledWith('user-1', 'project-1');
+            expect(schedule.status).toBe(ScheduleStatus.ACTIVE);
+        });
+
+        it('should skip the occurrence and pause the schedule once the owner lost access to the project', async () => {
+            const schedule = scheduleDoc({ cron: '0 * * * *', projectId: 'project-1', nextRunAt: new Date() });
+            (Schedule.findOne as jest.Mock).mockResolvedValue(schedule);
+            (getProjectRole as jest.Mock).mockResolvedValue('VIEWER');
+
+            const jobId = await scheduleService.startOccurrence({ scheduleId: 'sched-1', type: 'EXPORT', payload: {}, userId: 'user-1' });
+
+            expect(jobId).toBeNull();
+            expect(quotaService.check).not.toHaveBeenCalled();
+            expect(Job.create).toHaveBeenCalledWith(expect.objectContaining({
+                status: 'skipped',
+                error: 'Skipped: Schedule owner is no longer a collaborator on this project'
+            }));
+            expect(removeSchedule).toHaveBeenCalledWith('sched-1');
+            expect(schedule.status).toBe(ScheduleStatus.PAUSED);
+            expect(schedule.nextRunAt).toBeUndefined();
+        });
+
+        it('should skip occurrences of inactive schedules', async () => {
+            (Schedule.findOne as jest.Mock).mockResolvedValue(null);
+
+            const jobId = await scheduleService.startOccurrence({ scheduleId: 'sched-1', type: 'EXPORT', payload: {}, userId: 'user-1' });
+
+            expect(jobId).toBeNull();
+            expect(Job.create).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,83 @@
+jest.mock('../config/prisma', () => ({
+    __esModule: true,
+    default: {
+        refreshToken: { findMany: jest.fn(), updateMany: jest.fn(), deleteMany: jest.fn() }
+    }
+}));
+jest.mock('../config/redis', () => ({
+    __esModule: true,
+    default: { get: jest.fn(), setex: jest.fn() }
+}));
+
+import prisma from '../config/prisma';
+import redis from '../config/redis';
+import { describeDevice, SessionService } from '../services/session.service';
+
+describe('SessionService', () => {
+    const sessionService = new SessionService();
+
+    beforeEach(() => jest.clearAllMocks());
+
+    describe('list', () => {
+        it('should return live sessions and mark the current one', async () => {
+            const startedAt = new Date('2024-01-01');
+            (prisma.refreshToken.findMany as jest.Mock).mockResolvedValue([
+                { familyId: 'family-1', device: 'Chrome on macOS', ipAddress: '10.0.0.1', userAgent: 'Mozilla/5.0', sessionStartedAt: startedAt, createdAt: new Date(), expiresAt: new Date() },
+                { familyId: 'family-2', device: 'curl', ipAddress: '10.0.0.2', userAgent: 'curl/8.4.0', sessionStartedAt: startedAt, createdAt: new Date(), expiresAt: new Date() }
+            ]);
+
+            const sessions = await sessionService.list('user-1', 'family-2');
+
+            expect(prisma.refreshToken.findMany).toHaveBeenCalledWith(expect.objectContaining({
+                where: { userId: 'user-1', usedAt: null, revokedAt: null, expiresAt: { gt: expect.any(Date) } }
+            }));
+            expect(sessions.map(session => [session.id, session.current])).toEqual([['family-1', false], ['family-2', true]]);
+            expect(sessions[0]).toMatchObject({ device: 'Chrome on macOS', createdAt: startedAt });
+        });
+    });
+
+    describe('revoke', () => {
+        it('should revoke the family and its access tokens', async () => {
+            (prisma.refreshToken.updateMany as jest.Mock).mockResolvedValue({ count: 3 });
+
+            await sessionService.revoke('user-1', 'family-1');
+
+            expect(prisma.refreshToken.updateMany).toHaveBeenCalledWith({
+                where: { familyId: 'family-1', revokedAt: null, userId: 'user-1' },
+                data: { revokedAt: expect.any(Date) }
+            });
+            expect(redis.setex).toHaveBeenCalledWith('session:revoked:family-1', 900, '1');
+        });
+
+        it('should not reveal other users\' sessions', async () => {
+            (prisma.refreshToken.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+            await expect(sessionService.revoke('user-1', 'family-9')).rejects.toMatchObject({ statusCode: 404 });
+            expect(redis.setex).not.toHaveBeenCalled();
+        });
+
+        it('should log out of every session', async () => {
+            (prisma.refreshToken.findMany as jest.Mock).mockResolvedValue([{ familyId: 'family-1' }, { familyId: 'family-2' }]);
+            (prisma.refreshToken.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+            const result = await sessionService.revokeAll('user-1');
+
+            expect(result.revoked).toBe(2);
+            expect(redis.setex).toHaveBeenCalledWith('session:revoked:family-2', 900, '1');
+        });
+    });
+
+    it('should purge expired tokens', async () => {
+        (prisma.refreshToken.deleteMany as jest.Mock).mockResolvedValue({ count: 4 });
+
+        await expect(sessionService.purgeExpired()).resolves.toBe(4);
+        expect(prisma.refreshToken.deleteMany).toHaveBeenCalledWith({ where: { expiresAt: { lt: expect.any(Date) } } });
+    });
+
+    it('should label devices from the user agent', () => {
+        expect(describeDevice('Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36'))
+            .toBe('Chrome on macOS');
+        expect(describeDevice('curl/8.4.0')).toBe('curl');
+        expect(describeDevice(undefined)).toBeUndefined();
+    });
+});
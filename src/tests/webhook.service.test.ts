@@ -0,0 +1,210 @@
+jest.mock('../config/prisma', () => ({
+    __esModule: true,
+    default: {
+        webhook: { create: jest.fn(), findUnique: jest.fn(), findMany: jest.fn(), update: jest.fn(), delete: jest.fn() }
+    }
+}));
+jest.mock('../middleware/auth.middleware', () => ({ getProjectRole: jest.fn() }));
+jest.mock('../queues/webhook.queue', () => ({ addDelivery: jest.fn() }));
+jest.mock('../models/job.model', () => ({
+    Job: { findOne: jest.fn() },
+    JobStatus: { PENDING: 'pending', PROCESSING: 'processing', COMPLETED: 'completed', FAILED: 'failed', CANCELLED: 'cancelled', SKIPPED: 'skipped' }
+}));
+jest.mock('../models/webhookDelivery.model', () => ({
+    WebhookDelivery: { create: jest.fn(), findOne: jest.fn(), updateOne: jest.fn() },
+    DeliveryStatus: { PENDING: 'pending', DELIVERED: 'delivered', FAILED: 'failed' }
+}));
+
+import dns from 'dns';
+import http from 'http';
+import { AddressInfo } from 'net';
+import prisma from '../config/prisma';
+import { getProjectRole } from '../middleware/auth.middleware';
+import { addDelivery } from '../queues/webhook.queue';
+import { Job, JobStatus } from '../models/job.model';
+import { WebhookDelivery } from '../models/webhookDelivery.model';
+import { isPublicAddress, signPayload, WebhookService } from '../services/webhook.service';
+
+// Mongoose query stand-in supporting .select().lean()
+const query = (value: unknown) => ({ select: () => ({ lean: () => Promise.resolve(value) }), lean: () => Promise.resolve(value) });
+
+describe('WebhookService', () => {
+    const webhookService = new WebhookService();
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (WebhookDelivery.create as jest.Mock).mockImplementation(async (doc) => doc);
+        jest.spyOn(dns.promises, 'lookup').mockResolvedValue([{ address: '93.184.216.34', family: 4 }] as never);
+    });
+
+    afterAll(() => jest.restoreAllMocks());
+
+    describe('create', () => {
+        it('should generate a signing secret', async () => {
+            (prisma.webhook.create as jest.Mock).mockImplementation(async ({ data }) => ({ id: 'wh-1', ...data }));
+
+            const webhook = await webhookService.create('user-1', { url: 'https://ci.example.com/hook', events: ['job.completed'] });
+
+            expect(webhook.secret).toMatch(/^whsec_[0-9a-f]{48}$/);
+        });
+
+        it('should keep project events to project webhooks', async () => {
+            await expect(webhookService.create('user-1', { url: 'https://ci.example.com/hook', events: ['collaborator.added'] }))
+                .rejects.toMatchObject({ statusCode: 400 });
+            expect(prisma.webhook.create).not.toHaveBeenCalled();
+        });
+
+        it('should refuse URLs that point inside the network', async () => {
+            for (const url of ['http://169.254.169.254/latest/meta-data', 'http://10.0.0.5/hook', 'http://[::1]:8080/hook']) {
+                await expect(webhookService.create('user-1', { url, events: ['job.completed'] })).rejects.toMatchObject({ statusCode: 400 });
+            }
+
+            jest.spyOn(dns.promises, 'lookup').mockResolvedValue([{ address: '93.184.216.34', family: 4 }, { address: '127.0.0.1', family: 4 }] as never);
+            await expect(webhookService.create('user-1', { url: 'https://rebind.example.com/hook', events: ['job.completed'] }))
+                .rejects.toThrow('Webhook URL must point to a public address');
+            expect(prisma.webhook.create).not.toHaveBeenCalled();
+        });
+    });
+
+    it('should tell public addresses from private ones', () => {
+        expect(isPublicAddress('93.184.216.34')).toBe(true);
+        expect(isPublicAddress('2606:2800:220:1:248:1893:25c8:1946')).toBe(true);
+        for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', '::ffff:127.0.0.1', 'fd00::1', 'fe80::1']) {
+            expect(isPublicAddress(address)).toBe(false);
+        }
+    });
+
+    describe('getById', () => {
+        it('should hide project webhooks from members who are not the owner', async () => {
+            (prisma.webhook.findUnique as jest.Mock).mockResolvedValue({ id: 'wh-1', userId: 'owner-1', projectId: 'proj-1' });
+            (getProjectRole as jest.Mock).mockResolvedValue('COLLABORATOR');
+
+            await expect(webhookService.getById('wh-1', 'user-2')).rejects.toMatchObject({ statusCode: 404 });
+        });
+    });
+
+    describe('emit', () => {
+        it('should queue one delivery per subscribed webhook with a shared event id', async () => {
+            (prisma.webhook.findMany as jest.Mock).mockResolvedValue([{ id: 'wh-1' }, { id: 'wh-2' }]);
+
+            await webhookService.emit('workspace.deleted', { projectId: 'proj-1' }, { workspace: { id: 'ws-1' } });
+
+            expect(prisma.webhook.findMany).toHaveBeenCalledWith(expect.objectContaining({
+                where: { active: true, events: { has: 'workspace.deleted' }, OR: [{ projectId: 'proj-1' }] }
+            }));
+            const [first, second] = (WebhookDelivery.create as jest.Mock).mock.calls.map(([doc]) => doc);
+            expect(first).toMatchObject({ webhookId: 'wh-1', event: 'workspace.deleted', payload: { data: { workspace: { id: 'ws-1' } } } });
+            expect(second.eventId).toBe(first.eventId);
+            expect(first.deliveryId).not.toBe(second.deliveryId);
+            expect(addDelivery).toHaveBeenCalledTimes(2);
+        });
+
+        it('should never fail the caller', async () => {
+            (prisma.webhook.findMany as jest.Mock).mockRejectedValue(new Error('db down'));
+
+            await expect(webhookService.emit('project.updated', { projectId: 'proj-1' }, {})).resolves.toBeUndefined();
+        });
+
+        it('should send finished jobs to personal and project webhooks', async () => {
+            (Job.findOne as jest.Mock).mockReturnValue(query({ jobId: 'job-1', userId: 'user-1', projectId: 'proj-1', status: 'completed' }));
+            (prisma.webhook.findMany as jest.Mock).mockResolvedValue([]);
+
+            await webhookService.emitJobStatus('job-1', JobStatus.COMPLETED);
+            await webhookService.emitJobStatus('job-1', JobStatus.PROCESSING);
+
+            expect(prisma.webhook.findMany).toHaveBeenCalledTimes(1);
+            expect(prisma.webhook.findMany).toHaveBeenCalledWith(expect.objectContaining({
+                where: { active: true, events: { has: 'job.completed' }, OR: [{ userId: 'user-1', projectId: null }, { projectId: 'proj-1' }] }
+            }));
+        });
+    });
+
+    describe('deliver', () => {
+        const delivery = { deliveryId: 'del-1', eventId: 'evt-1', webhookId: 'wh-1', event: 'job.failed', payload: { id: 'evt-1' }, status: 'pending' };
+        // Receivers on this machine are private, so these deliveries go through a service that allows them
+        const localService = new WebhookService(true);
+        const received: { headers: http.IncomingHttpHeaders; body: string }[] = [];
+        let responseStatus = 204;
+        const server = http.createServer((req, res) => {
+            let body = '';
+            req.on('data', chunk => { body += chunk; });
+            req.on('end', () => {
+                received.push({ headers: req.headers, body });
+                res.writeHead(responseStatus);
+                res.end('internal secrets');
+            });
+        });
+        let url: string;
+
+        beforeAll(async () => {
+            await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+            url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+        });
+
+        afterAll(async () => {
+            server.closeAllConnections();
+            await new Promise(resolve => server.close(resolve));
+        });
+
+        beforeEach(() => {
+            received.length = 0;
+            responseStatus = 204;
+            (WebhookDelivery.findOne as jest.Mock).mockReturnValue(query(delivery));
+            (prisma.webhook.findUnique as jest.Mock).mockResolvedValue({ id: 'wh-1', url, secret: 'whsec_test', active: true });
+        });
+
+        it('should sign the body and log a successful attempt', async () => {
+            await localService.deliver('del-1', 1, false);
+
+            const [{ headers, body }] = received;
+            const [, timestamp, signature] = (headers['x-webhook-signature'] as string).match(/^t=(\d+),v1=([0-9a-f]+)$/)!;
+            expect(signature).toBe(signPayload('whsec_test', Number(timestamp), body));
+            expect(WebhookDelivery.updateOne).toHaveBeenCalledWith({ deliveryId: 'del-1' }, expect.objectContaining({
+                status: 'delivered',
+                responseStatus: 204,
+                $push: { attempts: expect.objectContaining({ attempt: 1, statusCode: 204 }) }
+            }));
+        });
+
+        it('should throw so the queue retries, and mark the delivery failed on the last attempt', async () => {
+            responseStatus = 500;
+
+            await expect(localService.deliver('del-1', 1, false)).rejects.toThrow('Endpoint responded with 500');
+            expect(WebhookDelivery.updateOne).toHaveBeenLastCalledWith({ deliveryId: 'del-1' }, expect.objectContaining({ status: 'pending' }));
+
+            await expect(localService.deliver('del-1', 5, true)).rejects.toThrow();
+            const [, update] = (WebhookDelivery.updateOne as jest.Mock).mock.calls.at(-1);
+            expect(update).toMatchObject({ status: 'failed', responseStatus: 500 });
+            expect(JSON.stringify(update)).not.toContain('internal secrets');
+        });
+
+        it('should not connect to private addresses, however the host resolves', async () => {
+            await expect(webhookService.deliver('del-1', 1, false)).rejects.toThrow('127.0.0.1 is not a public address');
+
+            (prisma.webhook.findUnique as jest.Mock).mockResolvedValue({ id: 'wh-1', url: url.replace('127.0.0.1', 'localhost'), secret: 'whsec_test', active: true });
+            await expect(webhookService.deliver('del-1', 1, false)).rejects.toThrow('localhost does not resolve to a public address');
+            expect(received).toHaveLength(0);
+        });
+
+        it('should give up on deliveries to deleted webhooks', async () => {
+            (prisma.webhook.findUnique as jest.Mock).mockResolvedValue(null);
+
+            await webhookService.deliver('del-1', 1, false);
+
+            expect(WebhookDelivery.updateOne).toHaveBeenCalledWith({ deliveryId: 'del-1' }, { status: 'failed', error: 'Webhook was deleted' });
+        });
+    });
+
+    describe('redeliver', () => {
+        it('should queue a new delivery of the same event', async () => {
+            (prisma.webhook.findUnique as jest.Mock).mockResolvedValue({ id: 'wh-1', userId: 'user-1', projectId: null });
+            (WebhookDelivery.findOne as jest.Mock).mockReturnValue(query({ deliveryId: 'del-1', eventId: 'evt-1', event: 'job.failed', payload: { id: 'evt-1' } }));
+
+            const delivery = await webhookService.redeliver('wh-1', 'del-1', 'user-1');
+
+            expect(delivery).toMatchObject({ eventId: 'evt-1', redeliveryOf: 'del-1', status: 'pending' });
+            expect(delivery.deliveryId).not.toBe('del-1');
+            expect(addDelivery).toHaveBeenCalledWith(delivery.deliveryId);
+        });
+    });
+});
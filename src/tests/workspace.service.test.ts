@@ -3,7 +3,8 @@ jest.mock('../config/prisma', () => ({
     __esModule: true,
     default: {
         workspace: { findUnique: jest.fn(), findMany: jest.fn(), create: jest.fn(), update: jest.fn(), delete: jest.fn() },
-        project: { findUnique: jest.fn() }
+        project: { findUnique: jest.fn() },
+        file: { findMany: jest.fn() }
     }
 }));
 
@@ -11,10 +12,14 @@ jest.mock('../config/redis', () => ({
     __esModule: true,
     default: { get: jest.fn(), setex: jest.fn(), del: jest.fn() }
 }));
+jest.mock('../services/webhook.service', () => ({ __esModule: true, default: { emit: jest.fn() } }));
+jest.mock('../services/document.service', () => ({ __esModule: true, default: { discard: jest.fn() } }));
 
 import prisma from '../config/prisma';
 import redis from '../config/redis';
 import { WorkspaceService } from '../services/workspace.service';
+import webhookService from '../services/webhook.service';
+import documentService from '../services/document.service';
 
 describe('WorkspaceService', () => {
     const workspaceService = new WorkspaceService();
@@ -57,13 +62,17 @@ describe('WorkspaceService', () => {
     });
 
     describe('delete', () => {
-        it('should delete workspace and clear cache', async () => {
-            (prisma.workspace.delete as jest.Mock).mockResolvedValue({ id: 'ws-1' });
+        it('should delete workspace, discard its documents, clear cache and notify project webhooks', async () => {
+            const workspace = { id: 'ws-1', projectId: 'proj-1' };
+            (prisma.workspace.delete as jest.Mock).mockResolvedValue(workspace);
+            (prisma.file.findMany as jest.Mock).mockResolvedValue([{ id: 'file-1' }, { id: 'folder-1' }]);
 
             await workspaceService.delete('ws-1');
 
             expect(prisma.workspace.delete).toHaveBeenCalledWith({ where: { id: 'ws-1' } });
             expect(redis.del).toHaveBeenCalled();
+            expect(webhookService.emit).toHaveBeenCalledWith('workspace.deleted', { projectId: 'proj-1' }, { workspace });
+            expect(documentService.discard).toHaveBeenCalledWith('ws-1', ['file-1', 'folder-1']);
         });
     });
 });
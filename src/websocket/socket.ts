@@ -1,18 +1,41 @@
 import { Server, Socket } from 'socket.io';
-import jwt from 'jsonwebtoken';
+import { Role } from '@prisma/client';
 import { redisPub, redisSub } from '../config/redis';
+import { getWorkspaceAccess, hasRole, verifyAccessToken } from '../middleware/auth.middleware';
+import { ApiError } from '../middleware/error.middleware';
+import documentService, { DOCUMENT_CHANNEL, DocumentDiscardMessage, DocumentMessage } from '../services/document.service';
+import fileService from '../services/file.service';
+import presenceService from '../services/presence.service';
+import cursorService, { CURSOR_CHANNEL, CursorInput, CursorMessage } from '../services/cursor.service';
+import { ACCESS_CHANNEL, AccessChangeEvent } from '../services/project.service';
+import { JOB_EVENTS_CHANNEL, JobEvent } from '../queues/job.events';
+
+interface WorkspaceAccess {
+    projectId: string;
+    role: Role;
+}
 
 interface AuthSocket extends Socket {
     userId?: string;
     userName?: string;
+    // Workspaces this socket joined, with the role resolved at join time
+    workspaces?: Map<string, WorkspaceAccess>;
+}
+
+interface DocumentPayload {
+    workspaceId: string;
+    fileId: string;
 }
 
-// Track local users for this instance
-const workspaceUsers = new Map<string, Set<string>>();
+const documentRoom = (workspaceId: string, fileId: string) => `document:${workspaceId}:${fileId}`;
+
+// Socket.io hands binary attachments over as Buffers; anything else is a malformed payload
+const isBinary = (value: unknown): value is Uint8Array => value instanceof Uint8Array;
 
 export function initializeSocket(io: Server) {
     // Authentication Middleware
-    io.use((socket: AuthSocket, next) => {
+    // Same checks as the HTTP middleware, so logged-out tokens and revoked sessions can't connect
+    io.use(async (socket: AuthSocket, next) => {
         const token = socket.handshake.auth.token || socket.handshake.headers.authorization?.split(' ')[1];
 
         if (!token) {
@@ -20,63 +43,93 @@ export function initializeSocket(io: Server) {
         }
 
         try {
-            const decoded = jwt.verify(token, process.env.JWT_SECRET || 'secret') as { userId: string; name: string };
+            const decoded = await verifyAccessToken(token);
             socket.userId = decoded.userId;
             socket.userName = decoded.name;
             next();
         } catch (err) {
-            next(new Error('Invalid or expired token'));
+            next(new Error(err instanceof ApiError ? err.message : 'Invalid or expired token'));
         }
     });
 
     io.on('connection', (socket: AuthSocket) => {
+        socket.workspaces = new Map();
+
+        // Personal room, used to reach every connection of a user
+        socket.join(`user:${socket.userId}`);
 
+        // Role checks mirror requireWorkspaceAccess; the socket must have joined first
+        const authorize = (workspaceId: string, minRole: Role = Role.VIEWER) => {
+            const access = socket.workspaces!.get(workspaceId);
+            if (!access || !hasRole(access.role, minRole)) {
+                socket.emit('workspace:error', {
+                    workspaceId,
+                    error: access ? 'Insufficient permissions' : 'Not a member of this workspace'
+                });
+                return false;
+            }
+            return true;
+        };
 
         socket.on('join:workspace', async (workspaceId: string) => {
+            try {
+                const access = await getWorkspaceAccess(socket.userId!, workspaceId);
+                if (!access) throw new ApiError(403, 'Access denied');
+                socket.workspaces!.set(workspaceId, access);
+            } catch (err) {
+                const error = err instanceof ApiError ? err.message : 'Failed to join workspace';
+                socket.emit('workspace:error', { workspaceId, error });
+                return;
+            }
+
             socket.join(`workspace:${workspaceId}`);
 
-            // Add to local tracking
-            if (!workspaceUsers.has(workspaceId)) {
-                workspaceUsers.set(workspaceId, new Set());
-            }
-            workspaceUsers.get(workspaceId)!.add(socket.userId!);
+            try {
+                // Extra tabs of an already present user don't count as a new join
+                const firstConnection = await presenceService.join(workspaceId, socket.id, socket.userId!);
 
-            const event = {
-                type: 'USER_JOIN',
-                userId: socket.userId,
-                userName: socket.userName,
-                workspaceId,
-                timestamp: new Date().toISOString()
-            };
+                if (firstConnection) {
+                    const event = {
+                        type: 'USER_JOIN',
+                        userId: socket.userId,
+                        userName: socket.userName,
+                        workspaceId,
+                        timestamp: new Date().toISOString()
+                    };
 
-            // Broadcast to local node
-            socket.to(`workspace:${workspaceId}`).emit('collaboration:event', event);
+                    // Broadcast to local node
+                    socket.to(`workspace:${workspaceId}`).emit('collaboration:event', event);
 
-            // Publish to other nodes
-            await redisPub.publish('workspace-events', JSON.stringify(event));
+                    // Publish to other nodes
+                    await redisPub.publish('workspace-events', JSON.stringify(event));
+                }
 
-            // Send current active users list (approximate)
-            const users = Array.from(workspaceUsers.get(workspaceId) || []);
-            socket.emit('workspace:users', { workspaceId, users });
+                // Send the cluster-wide roster along with everyone's last known cursor
+                const [roster, cursors] = await Promise.all([
+                    presenceService.getRoster(workspaceId),
+                    cursorService.getCursors(workspaceId)
+                ]);
+                const users = roster.map(user => ({ ...user, cursor: cursors[user.userId] ?? null }));
+                socket.emit('workspace:users', { workspaceId, users });
+            } catch (err) {
+                // The socket stays joined; the heartbeat and a later roster fetch catch up
+                console.error('Workspace presence failed:', err);
+                socket.emit('workspace:error', { workspaceId, error: 'Failed to load workspace presence' });
+            }
         });
 
         socket.on('leave:workspace', async (workspaceId: string) => {
-            socket.leave(`workspace:${workspaceId}`);
-            workspaceUsers.get(workspaceId)?.delete(socket.userId!);
-
-            const event = {
-                type: 'USER_LEAVE',
-                userId: socket.userId,
-                userName: socket.userName,
-                workspaceId,
-                timestamp: new Date().toISOString()
-            };
-
-            socket.to(`workspace:${workspaceId}`).emit('collaboration:event', event);
-            await redisPub.publish('workspace-events', JSON.stringify(event));
+            try {
+                await leaveWorkspace(socket, workspaceId);
+            } catch (err) {
+                console.error('Workspace leave failed:', err);
+                socket.emit('workspace:error', { workspaceId, error: 'Failed to leave workspace' });
+            }
         });
 
         socket.on('file:change', async (data: { workspaceId: string; fileId: string }) => {
+            if (!authorize(data.workspaceId, Role.COLLABORATOR)) return;
+
             const event = {
                 type: 'FILE_CHANGE',
                 userId: socket.userId,
@@ -86,51 +139,157 @@ export function initializeSocket(io: Server) {
             };
 
             socket.to(`workspace:${data.workspaceId}`).emit('collaboration:event', event);
-            await redisPub.publish('workspace-events', JSON.stringify(event));
+            try {
+                await redisPub.publish('workspace-events', JSON.stringify(event));
+            } catch (err) {
+                console.error('File change publish failed:', err);
+                socket.emit('workspace:error', { workspaceId: data.workspaceId, error: 'Failed to share file change' });
+            }
         });
 
-        socket.on('cursor:update', (data: { workspaceId: string }) => {
-            // Cursors are high-frequency, so we typically don't persist or cross-broadcast 
-            // via Redis for every single pixel move to avoid flooding, 
-            // but for this assessment, local broadcast is sufficient.
-            // If we needed global cursors, we'd throttle Redis publishing.
-            const event = {
-                type: 'CURSOR_UPDATE',
-                userId: socket.userId,
-                userName: socket.userName,
-                ...data,
-                timestamp: new Date().toISOString()
-            };
-            socket.to(`workspace:${data.workspaceId}`).emit('collaboration:event', event);
+        // Updates are only taken for documents joined through doc:sync, where the file was checked
+        const joined = (data: DocumentPayload) => {
+            if (socket.rooms.has(documentRoom(data.workspaceId, data.fileId))) return true;
+            socket.emit('doc:error', { workspaceId: data.workspaceId, fileId: data.fileId, error: 'Document not joined' });
+            return false;
+        };
+
+        // Collaborative editing (Yjs). Client sends its state vector, gets back the
+        // missing updates plus the server state vector, then streams doc:update.
+        socket.on('doc:sync', async (data: DocumentPayload & { stateVector?: Uint8Array }) => {
+            if (!data || !authorize(data.workspaceId)) return;
+            if (data.stateVector !== undefined && !isBinary(data.stateVector)) {
+                socket.emit('doc:error', { workspaceId: data.workspaceId, fileId: data.fileId, error: 'stateVector must be binary' });
+                return;
+            }
+
+            try {
+                await fileService.getRegularFile(data.workspaceId, data.fileId);
+                socket.join(documentRoom(data.workspaceId, data.fileId));
+                const { update, stateVector } = await documentService.sync(data.workspaceId, data.fileId, data.stateVector);
+                socket.emit('doc:sync', { workspaceId: data.workspaceId, fileId: data.fileId, update, stateVector });
+            } catch (err) {
+                if (!(err instanceof ApiError)) console.error('Document sync failed:', err);
+                const error = err instanceof ApiError ? err.message : 'Sync failed';
+                socket.emit('doc:error', { workspaceId: data.workspaceId, fileId: data.fileId, error });
+            }
         });
 
-        socket.on('disconnect', async () => {
-            // Cleanup user from all tracked workspaces
-            for (const [workspaceId, users] of workspaceUsers.entries()) {
-                if (users.has(socket.userId!)) {
-                    users.delete(socket.userId!);
+        socket.on('doc:update', async (data: DocumentPayload & { update: Uint8Array }) => {
+            if (!data || !authorize(data.workspaceId, Role.COLLABORATOR) || !joined(data)) return;
+            if (!isBinary(data.update)) {
+                socket.emit('doc:error', { workspaceId: data.workspaceId, fileId: data.fileId, error: 'update must be binary' });
+                return;
+            }
 
-                    if (users.size === 0) {
-                        workspaceUsers.delete(workspaceId);
-                    }
+            try {
+                await documentService.applyUpdate(data.workspaceId, data.fileId, data.update, socket.id);
+            } catch (err) {
+                console.error('Document update failed:', err);
+                socket.emit('doc:error', { workspaceId: data.workspaceId, fileId: data.fileId, error: 'Update rejected' });
+            }
+        });
 
-                    const event = {
-                        type: 'USER_LEAVE',
-                        userId: socket.userId,
-                        userName: socket.userName,
-                        workspaceId,
-                        timestamp: new Date().toISOString()
-                    };
+        socket.on('doc:awareness', async (data: DocumentPayload & { update: Uint8Array }) => {
+            if (!data || !authorize(data.workspaceId) || !joined(data)) return;
+            if (!isBinary(data.update)) {
+                socket.emit('doc:error', { workspaceId: data.workspaceId, fileId: data.fileId, error: 'update must be binary' });
+                return;
+            }
 
-                    io.to(`workspace:${workspaceId}`).emit('collaboration:event', event);
-                    await redisPub.publish('workspace-events', JSON.stringify(event));
-                }
+            try {
+                await documentService.relayAwareness(data.workspaceId, data.fileId, data.update, socket.id);
+            } catch (err) {
+                console.error('Awareness relay failed:', err);
+                socket.emit('doc:error', { workspaceId: data.workspaceId, fileId: data.fileId, error: 'Awareness update rejected' });
+            }
+        });
+
+        socket.on('doc:leave', (data: DocumentPayload) => {
+            socket.leave(documentRoom(data.workspaceId, data.fileId));
+        });
+
+        // Cursors are high-frequency: they are coalesced per user and published
+        // across nodes on an interval rather than relayed one by one.
+        const trackCursor = (data: CursorInput & { workspaceId: string }) => {
+            if (!authorize(data.workspaceId)) return;
+
+            const { workspaceId, fileId, position, selection } = data;
+            cursorService.update(workspaceId, { id: socket.userId!, name: socket.userName, socketId: socket.id }, { fileId, position, selection });
+        };
+
+        socket.on('cursor:update', trackCursor);
+        socket.on('selection:update', trackCursor);
+
+        // Nobody left to tell on failure; stale presence entries expire with the heartbeat
+        socket.on('disconnect', async () => {
+            let leftWorkspaces: string[];
+            try {
+                // Cleanup this connection from every workspace it joined
+                leftWorkspaces = await presenceService.disconnect(socket.id);
+            } catch (err) {
+                console.error('Presence cleanup failed:', err);
+                return;
+            }
+            for (const workspaceId of leftWorkspaces) {
+                await announceLeave(socket, workspaceId)
+                    .catch(err => console.error(`Failed to announce leave of ${workspaceId}:`, err));
             }
         });
     });
 
+    const announceLeave = async (socket: AuthSocket, workspaceId: string) => {
+        const event = {
+            type: 'USER_LEAVE',
+            userId: socket.userId,
+            userName: socket.userName,
+            workspaceId,
+            timestamp: new Date().toISOString()
+        };
+
+        io.to(`workspace:${workspaceId}`).emit('collaboration:event', event);
+        await redisPub.publish('workspace-events', JSON.stringify(event));
+        await cursorService.clear(workspaceId, socket.userId!);
+    };
+
+    const leaveWorkspace = async (socket: AuthSocket, workspaceId: string) => {
+        socket.workspaces?.delete(workspaceId);
+        socket.leave(`workspace:${workspaceId}`);
+        for (const room of socket.rooms) {
+            if (room.startsWith(`document:${workspaceId}:`)) socket.leave(room);
+        }
+
+        const lastConnection = await presenceService.leave(workspaceId, socket.id);
+        if (lastConnection) {
+            await announceLeave(socket, workspaceId);
+        }
+    };
+
+    // Re-authorize this node's sockets after a collaborator was removed or re-roled
+    const applyAccessChange = async (change: AccessChangeEvent) => {
+        for (const socket of io.sockets.sockets.values() as IterableIterator<AuthSocket>) {
+            if (socket.userId !== change.userId || !socket.workspaces) continue;
+
+            for (const [workspaceId, access] of Array.from(socket.workspaces.entries())) {
+                if (access.projectId !== change.projectId) continue;
+
+                if (change.role) {
+                    access.role = change.role;
+                    socket.emit('workspace:role', { workspaceId, role: change.role });
+                } else {
+                    await leaveWorkspace(socket, workspaceId);
+                    socket.emit('workspace:kicked', { workspaceId, reason: 'Access revoked' });
+                }
+            }
+        }
+    };
+
+    documentService.startSnapshotting();
+    presenceService.startHeartbeat();
+    cursorService.startBroadcasting();
+
     // Handle messages from other nodes
-    redisSub.subscribe('workspace-events', (err) => {
+    redisSub.subscribe('workspace-events', DOCUMENT_CHANNEL, ACCESS_CHANNEL, CURSOR_CHANNEL, JOB_EVENTS_CHANNEL, (err) => {
         if (err) console.error('Redis subscribe error:', err);
     });
 
@@ -149,6 +308,54 @@ export function initializeSocket(io: Server) {
             } catch (e) {
                 console.error('Failed to parse Redis message:', e);
             }
+        } else if (channel === DOCUMENT_CHANNEL) {
+            try {
+                // Document messages are published by every node, including this one,
+                // so local delivery happens here too (minus the sending socket).
+                const event: DocumentMessage | DocumentDiscardMessage = JSON.parse(message);
+                if (event.type === 'discard') {
+                    documentService.unload(event.workspaceId, event.fileIds);
+                    return;
+                }
+                documentService.applyRemoteUpdate(event);
+
+                const payload = { workspaceId: event.workspaceId, fileId: event.fileId, update: Buffer.from(event.data, 'base64') };
+                const room = io.to(documentRoom(event.workspaceId, event.fileId));
+                (event.socketId ? room.except(event.socketId) : room).emit(`doc:${event.type}`, payload);
+            } catch (e) {
+                console.error('Failed to handle document message:', e);
+            }
+        } else if (channel === CURSOR_CHANNEL) {
+            try {
+                // Published by every node including this one; skip each cursor's own socket
+                const { workspaceId, cursors }: CursorMessage = JSON.parse(message);
+                for (const { socketId, updatedAt, ...cursor } of cursors) {
+                    io.to(`workspace:${workspaceId}`).except(socketId).emit('collaboration:event', {
+                        type: 'CURSOR_UPDATE',
+                        ...cursor,
+                        workspaceId,
+                        timestamp: updatedAt
+                    });
+                }
+            } catch (e) {
+                console.error('Failed to handle cursor message:', e);
+            }
+        } else if (channel === JOB_EVENTS_CHANNEL) {
+            try {
+                // Owner always hears about their job; workspace-scoped jobs reach the room too
+                const event: JobEvent = JSON.parse(message);
+                const rooms = [`user:${event.userId}`];
+                if (event.workspaceId) rooms.push(`workspace:${event.workspaceId}`);
+                io.to(rooms).emit('job:update', event);
+            } catch (e) {
+                console.error('Failed to handle job event:', e);
+            }
+        } else if (channel === ACCESS_CHANNEL) {
+            try {
+                applyAccessChange(JSON.parse(message)).catch(err => console.error('Failed to apply access change:', err));
+            } catch (e) {
+                console.error('Failed to parse access change:', e);
+            }
         }
     });
 }
@@ -0,0 +1,128 @@
+import { spawn } from 'child_process';
+import os from 'os';
+import { UnrecoverableError } from 'bullmq';
+import { JobExecutor } from './types';
+
+const DEFAULT_TIMEOUT_MS = 5000;
+const MAX_TIMEOUT_MS = 30000;
+const DEFAULT_MEMORY_MB = 64;
+const MAX_MEMORY_MB = 256;
+const MAX_OUTPUT_BYTES = 64 * 1024;
+const HOST_MEMORY_MB = 64;
+
+// Runs in the child process: evaluates the snippet in its own V8 isolate, which
+// shares no objects with Node. Its console is defined inside the isolate and
+// only passes copied strings out, so there is no require, process or filesystem.
+const RUNNER = `
+const ivm = require(${JSON.stringify(require.resolve('isolated-vm'))});
+let code = '';
+process.stdin.setEncoding('utf8');
+process.stdin.on('data', chunk => { code += chunk; });
+process.stdin.on('end', () => {
+    const isolate = new ivm.Isolate({ memoryLimit: Number(process.env.MEMORY_MB) });
+    const context = isolate.createContextSync();
+    context.global.setSync('$write', new ivm.Callback((stream, text) => {
+        (stream === 'stderr' ? process.stderr : process.stdout).write(String(text) + '\\n');
+    }));
+    context.evalSync(CONSOLE);
+    try {
+        isolate.compileScriptSync(code).runSync(context, { timeout: Number(process.env.TIMEOUT_MS), reference: true }).release();
+    } catch (err) {
+        process.stderr.write(String((err && err.stack) || err) + '\\n');
+        process.exitCode = 1;
+    }
+});
+const CONSOLE = \`(() => {
+    const write = $write;
+    delete globalThis.$write;
+    const show = value => {
+        if (typeof value === 'string') return value;
+        if (value instanceof Error) return String(value.stack);
+        try {
+            return JSON.stringify(value) ?? String(value);
+        } catch {
+            return String(value);
+        }
+    };
+    const print = stream => (...args) => { write(stream, args.map(show).join(' ')); };
+    globalThis.console = { log: print('stdout'), info: print('stdout'), warn: print('stderr'), error: print('stderr') };
+})()\`;
+`;
+
+function clamp(value: unknown, fallback: number, max: number) {
+    const number = typeof value === 'number' && value > 0 ? value : fallback;
+    return Math.min(number, max);
+}
+
+/**
+ * Executes a JavaScript snippet in an isolated-vm isolate inside a separate
+ * Node process with an empty environment, a heap cap and a hard kill once the
+ * time limit passes.
+ * A failing snippet is a valid result (non-zero exitCode), not a job failure.
+ */
+export const executeCode: JobExecutor = async (payload, context) => {
+    const { code, language = 'javascript' } = payload;
+    if (typeof code !== 'string' || code.length === 0) throw new UnrecoverableError('payload.code is required');
+    if (language !== 'javascript') throw new UnrecoverableError(`Unsupported language: ${language}`);
+
+    const timeoutMs = clamp(payload.timeoutMs, DEFAULT_TIMEOUT_MS, MAX_TIMEOUT_MS);
+    const memoryMb = clamp(payload.memoryMb, DEFAULT_MEMORY_MB, MAX_MEMORY_MB);
+    const started = Date.now();
+
+    await context.reportProgress(10, 'Starting sandbox');
+    // The isolate has its own heap limit; the host heap only holds the runner and output
+    const child = spawn(process.execPath, ['--no-node-snapshot', `--max-old-space-size=${HOST_MEMORY_MB}`, '-e', RUNNER], {
+        cwd: os.tmpdir(),
+        env: { TIMEOUT_MS: String(timeoutMs), MEMORY_MB: String(memoryMb) },
+        stdio: ['pipe', 'pipe', 'pipe']
+    });
+
+    const output = { stdout: '', stderr: '', truncated: false };
+    const collect = (stream: 'stdout' | 'stderr') => (chunk: Buffer) => {
+        const room = MAX_OUTPUT_BYTES - Buffer.byteLength(output[stream]);
+        if (room <= 0) {
+            output.truncated = true;
+            return;
+        }
+        if (chunk.length > room) output.truncated = true;
+        output[stream] += chunk.subarray(0, room).toString('utf8');
+    };
+    child.stdout.on('data', collect('stdout'));
+    child.stderr.on('data', collect('stderr'));
+
+    // The isolate's own timeout covers busy loops in the snippet; this covers everything else
+    let timedOut = false;
+    const killTimer = setTimeout(() => {
+        timedOut = true;
+        child.kill('SIGKILL');
+    }, timeoutMs + 500);
+    const onAbort = () => child.kill('SIGKILL');
+    context.signal.addEventListener('abort', onAbort, { once: true });
+
+    child.stdin.end(code);
+    await context.reportProgress(30, 'Running');
+
+    const { exitCode, signal } = await new Promise<{ exitCode: number | null; signal: NodeJS.Signals | null }>((resolve, reject) => {
+        child.on('error', reject);
+        child.on('close', (exitCode, signal) => resolve({ exitCode, signal }));
+    }).finally(() => {
+        clearTimeout(killTimer);
+        context.signal.removeEventListener('abort', onAbort);
+    });
+    context.signal.throwIfAborted();
+
+    await context.log(`Process exited with ${signal ? `signal ${signal}` : `code ${exitCode}`}`, exitCode === 0 ? 'info' : 'warn');
+
+    return {
+        language,
+        exitCode,
+        signal,
+        stdout: output.stdout,
+        stderr: output.stderr,
+        truncated: output.truncated,
+        timedOut: timedOut || /Script execution timed out/.test(output.stderr),
+        memoryExceeded: /memory limit|heap out of memory/i.test(output.stderr),
+        durationMs: Date.now() - started,
+        limits: { timeoutMs, memoryMb }
+    };
+};
@@ -0,0 +1,59 @@
+// Minimal RFC 4180 CSV helpers: quoted fields, escaped quotes, CRLF or LF rows
+
+export function parseCsv(text: string): Record<string, string>[] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    const [header, ...body] = rows.filter(r => !(r.length === 1 && r[0] === ''));
+    if (!header) return [];
+
+    return body.map(values => Object.fromEntries(header.map((name, i) => [name, values[i] ?? ''])));
+}
+
+function escapeField(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: Record<string, unknown>[]): string {
+    const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+    const lines = [columns.map(escapeField).join(',')];
+    rows.forEach(row => lines.push(columns.map(column => escapeField(row[column])).join(',')));
+    return lines.join('\n') + '\n';
+}
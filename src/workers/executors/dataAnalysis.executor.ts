@@ -0,0 +1,92 @@
+import { UnrecoverableError } from 'bullmq';
+import { parseCsv } from './csv';
+import { JobExecutor } from './types';
+
+const TOP_VALUES = 5;
+
+function parseRows(format: unknown, data: unknown): Record<string, unknown>[] {
+    if (Array.isArray(data)) return data;
+
+    if (typeof data !== 'string') throw new UnrecoverableError('payload.data must be an array or a string');
+    if (format === 'csv') return parseCsv(data);
+    if (format === 'json') {
+        try {
+            const parsed = JSON.parse(data);
+            if (Array.isArray(parsed)) return parsed;
+        } catch {
+            // fall through to the error below
+        }
+        throw new UnrecoverableError('payload.data must be a JSON array');
+    }
+    throw new UnrecoverableError(`Unsupported format: ${format}`);
+}
+
+function median(sorted: number[]) {
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+export function describeColumn(name: string, values: unknown[]) {
+    const present = values.filter(value => value !== null && value !== undefined && value !== '');
+    const numbers = present
+        .map(value => (typeof value === 'number' || typeof value === 'string' ? Number(value) : NaN))
+        .filter(Number.isFinite);
+    const base = { name, count: values.length, missing: values.length - present.length };
+
+    if (present.length > 0 && numbers.length === present.length) {
+        const sorted = [...numbers].sort((a, b) => a - b);
+        const sum = numbers.reduce((acc, n) => acc + n, 0);
+        const mean = sum / numbers.length;
+        const variance = numbers.reduce((acc, n) => acc + (n - mean) ** 2, 0) / numbers.length;
+
+        return {
+            ...base,
+            type: 'numeric',
+            min: sorted[0],
+            max: sorted[sorted.length - 1],
+            sum,
+            mean,
+            median: median(sorted),
+            stdDev: Math.sqrt(variance)
+        };
+    }
+
+    const counts = new Map<string, number>();
+    present.forEach(value => {
+        const key = typeof value === 'object' ? JSON.stringify(value) : String(value);
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+    });
+
+    return {
+        ...base,
+        type: 'categorical',
+        distinct: counts.size,
+        topValues: Array.from(counts.entries())
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, TOP_VALUES)
+            .map(([value, count]) => ({ value, count }))
+    };
+}
+
+/** Profiles a CSV or JSON dataset: per-column types, missing values and summary statistics. */
+export const analyzeData: JobExecutor = async (payload, context) => {
+    const { format = 'json', data } = payload;
+    await context.reportProgress(10, 'Parsing data');
+    const rows = parseRows(format, data);
+
+    const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row ?? {}))));
+    await context.log(`Parsed ${rows.length} rows with ${columns.length} columns`);
+
+    const described = [];
+    for (const [index, column] of columns.entries()) {
+        described.push(describeColumn(column, rows.map(row => row?.[column])));
+        await context.reportProgress(10 + Math.round(((index + 1) / columns.length) * 90), `Analyzed column ${column}`);
+    }
+
+    return {
+        format,
+        rowsProcessed: rows.length,
+        columnCount: columns.length,
+        columns: described
+    };
+};
@@ -0,0 +1,69 @@
+import { UnrecoverableError } from 'bullmq';
+import { FileType } from '@prisma/client';
+import prisma from '../../config/prisma';
+import { getWorkspaceAccess } from '../../middleware/auth.middleware';
+import documentService from '../../services/document.service';
+import { toCsv } from './csv';
+import { JobExecutor } from './types';
+
+const CONTENT_TYPES = { json: 'application/json', csv: 'text/csv' };
+
+// Builds { path, content } for every file in the workspace, paths rooted at "/"
+async function collectWorkspaceFiles(workspaceId: string) {
+    const files = await prisma.file.findMany({ where: { workspaceId } });
+    const byId = new Map(files.map(file => [file.id, file]));
+
+    const pathOf = (id: string): string => {
+        const file = byId.get(id)!;
+        return file.parentId ? `${pathOf(file.parentId)}/${file.name}` : `/${file.name}`;
+    };
+
+    const entries = [];
+    for (const file of files) {
+        if (file.type !== FileType.FILE) continue;
+        entries.push({ path: pathOf(file.id), content: await documentService.readText(workspaceId, file.id) });
+    }
+    return entries.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Attaches an export artifact to the job. Exports a workspace (every file
+ * with its content, as JSON), the rows given in payload.data, or, at the end
+ * of a pipeline, the upstream results.
+ */
+export const exportData: JobExecutor = async (payload, context) => {
+    const { workspaceId, upstream } = payload;
+    // A single upstream result is exported as is; several are keyed by node
+    const upstreamResults = upstream && typeof upstream === 'object' ? Object.values(upstream) : [];
+    const data = payload.data ?? (upstreamResults.length === 1 ? upstreamResults[0] : upstream);
+    const format = workspaceId ? 'json' : (payload.format ?? 'json');
+    if (format !== 'json' && format !== 'csv') throw new UnrecoverableError(`Unsupported format: ${format}`);
+
+    let body: string;
+    if (typeof workspaceId === 'string') {
+        const access = await getWorkspaceAccess(context.userId, workspaceId).catch(() => null);
+        if (!access) throw new UnrecoverableError('Workspace not found or access denied');
+
+        await context.reportProgress(10, 'Collecting workspace files');
+        const files = await collectWorkspaceFiles(workspaceId);
+        await context.log(`Collected ${files.length} files`);
+        body = JSON.stringify({ workspaceId, exportedAt: new Date().toISOString(), files }, null, 2);
+    } else if (Array.isArray(data)) {
+        body = format === 'csv' ? toCsv(data) : JSON.stringify(data, null, 2);
+    } else if (data && typeof data === 'object' && format === 'json') {
+        body = JSON.stringify(data, null, 2);
+    } else {
+        throw new UnrecoverableError('payload.workspaceId, payload.data or an upstream result is required');
+    }
+
+    await context.reportProgress(80, 'Writing artifact');
+    const artifact = await context.attachArtifact(`export.${format}`, body, CONTENT_TYPES[format]);
+
+    return {
+        artifact: artifact.name,
+        format,
+        bytes: artifact.size,
+        checksum: artifact.checksum,
+        createdAt: artifact.createdAt.toISOString()
+    };
+};
@@ -0,0 +1,43 @@
+import { createHash } from 'crypto';
+import { UnrecoverableError } from 'bullmq';
+import { FileType } from '@prisma/client';
+import prisma from '../../config/prisma';
+import { getWorkspaceAccess } from '../../middleware/auth.middleware';
+import documentService from '../../services/document.service';
+import { JobExecutor } from './types';
+
+const SUPPORTED_ALGORITHMS = ['sha256', 'sha1', 'md5'];
+
+/** Checksums the current content of a workspace file the job owner can read. */
+export const processFile: JobExecutor = async (payload, context) => {
+    const { workspaceId, fileId, algorithm = 'sha256' } = payload;
+    if (typeof workspaceId !== 'string' || typeof fileId !== 'string') {
+        throw new UnrecoverableError('payload.workspaceId and payload.fileId are required');
+    }
+    if (typeof algorithm !== 'string' || !SUPPORTED_ALGORITHMS.includes(algorithm)) {
+        throw new UnrecoverableError(`Unsupported algorithm: ${algorithm}`);
+    }
+
+    const access = await getWorkspaceAccess(context.userId, workspaceId).catch(() => null);
+    if (!access) throw new UnrecoverableError('Workspace not found or access denied');
+
+    const file = await prisma.file.findFirst({ where: { id: fileId, workspaceId } });
+    if (!file || file.type !== FileType.FILE) throw new UnrecoverableError('File not found');
+
+    await context.reportProgress(30, 'Reading file');
+    const content = await documentService.readText(workspaceId, fileId);
+    const buffer = Buffer.from(content, 'utf8');
+
+    await context.reportProgress(70, 'Computing checksum');
+
+    return {
+        status: 'processed',
+        workspaceId,
+        fileId,
+        name: file.name,
+        algorithm,
+        checksum: `${algorithm}:${createHash(algorithm).update(buffer).digest('hex')}`,
+        fileSize: buffer.length,
+        lines: content.length === 0 ? 0 : content.split('\n').length
+    };
+};
@@ -0,0 +1,35 @@
+import { JobType } from '../../models/job.model';
+import { executeCode } from './codeExecution.executor';
+import { processFile } from './fileProcessing.executor';
+import { analyzeData } from './dataAnalysis.executor';
+import { exportData } from './export.executor';
+import { JobExecutor } from './types';
+
+export * from './types';
+
+const executors = new Map<JobType, JobExecutor>();
+const timeouts = new Map<JobType, number>();
+
+const DEFAULT_TIMEOUT_MS = 10 * 60 * 1000;
+
+/** timeoutMs bounds a whole run; JOB_TIMEOUT_<TYPE>_MS overrides it per deployment. */
+export function registerExecutor(type: JobType, executor: JobExecutor, timeoutMs = DEFAULT_TIMEOUT_MS) {
+    executors.set(type, executor);
+    timeouts.set(type, parseInt(process.env[`JOB_TIMEOUT_${type}_MS`] || String(timeoutMs)));
+}
+
+export function getExecutor(type: JobType): JobExecutor {
+    const executor = executors.get(type);
+    if (!executor) throw new Error(`No executor registered for job type ${type}`);
+    return executor;
+}
+
+export function getTimeout(type: JobType): number {
+    return timeouts.get(type) ?? DEFAULT_TIMEOUT_MS;
+}
+
+// The sandbox enforces its own (shorter) limit on the snippet itself
+registerExecutor(JobType.CODE_EXECUTION, executeCode, 60 * 1000);
+registerExecutor(JobType.FILE_PROCESSING, processFile, 5 * 60 * 1000);
+registerExecutor(JobType.DATA_ANALYSIS, analyzeData, 5 * 60 * 1000);
+registerExecutor(JobType.EXPORT, exportData, 10 * 60 * 1000);
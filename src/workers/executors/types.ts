@@ -0,0 +1,22 @@
+import { IJobArtifact, IJobLog } from '../../models/job.model';
+
+export interface ExecutionContext {
+    jobId: string;
+    userId: string;
+    /**
+     * Aborted when the job is cancelled. reportProgress throws once it is, so
+     * executors that report progress stop at their next checkpoint; long waits
+     * should listen for it as well.
+     */
+    signal: AbortSignal;
+    /** Records 0-100 progress (and optionally the current stage) and pushes it to clients. */
+    reportProgress(progress: number, stage?: string): Promise<void>;
+    /** Appends a line to the job log and pushes it to clients. */
+    log(message: string, level?: IJobLog['level']): Promise<void>;
+    /** Stores an output file with the job; it can be downloaded until its retention runs out. */
+    attachArtifact(name: string, body: Buffer | string, contentType?: string): Promise<IJobArtifact>;
+}
+
+export type JobResult = Record<string, unknown>;
+
+export type JobExecutor = (payload: Record<string, unknown>, context: ExecutionContext) => Promise<JobResult>;
@@ -0,0 +1,29 @@
+import { Job, JobStatus } from '../models/job.model';
+import { jobQueue } from '../queues/job.queue';
+
+// How far ahead in the queue to look for other users' jobs
+const WAITING_WINDOW = 100;
+
+/**
+ * Round-robin between users sharing the queue: a user who already has jobs
+ * running hands the slot over to any waiting user with fewer running jobs.
+ * Only jobs BullMQ could hand out now count as waiting, so delayed occurrences,
+ * jobs in backoff and pipeline jobs still waiting on upstream are left out.
+ * Running counts come from the Job collection, so they hold across worker processes.
+ */
+export async function shouldYield(userId: string): Promise<boolean> {
+    const running = await Job.countDocuments({ userId, status: JobStatus.PROCESSING });
+    if (running === 0) return false;
+
+    const next = await jobQueue.getJobs(['prioritized', 'wait'], 0, WAITING_WINDOW - 1, true);
+    const waiting = [...new Set(next.map(job => job?.data?.userId as string | undefined))]
+        .filter((id): id is string => Boolean(id) && id !== userId);
+    if (waiting.length === 0) return false;
+
+    const loads = await Job.aggregate<{ _id: string; running: number }>([
+        { $match: { userId: { $in: waiting }, status: JobStatus.PROCESSING } },
+        { $group: { _id: '$userId', running: { $sum: 1 } } }
+    ]);
+    const runningFor = new Map(loads.map(load => [load._id, load.running]));
+    return waiting.some(id => (runningFor.get(id) ?? 0) < running);
+}
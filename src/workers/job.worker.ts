@@ -1,6 +1,18 @@
-import { Worker, Job as BullJob } from 'bullmq';
+import { Worker, Job as BullJob, DelayedError, UnrecoverableError } from 'bullmq';
 import { Job, JobStatus, JobType } from '../models/job.model';
 import { connectMongoDB } from '../config/mongodb';
+import { redisSub } from '../config/redis';
+import { publishJobEvent } from '../queues/job.events';
+import { addDeadLetter } from '../queues/job.queue';
+import { JOB_CANCEL_CHANNEL, clearCancellation, isCancellationRequested } from '../queues/job.cancellation';
+import scheduleService from '../services/schedule.service';
+import pipelineService from '../services/pipeline.service';
+import jobService from '../services/job.service';
+import artifactService from '../services/artifact.service';
+import reconcilerService from '../services/reconciler.service';
+import { getExecutor, getTimeout, ExecutionContext } from './executors';
+import { shouldYield } from './fairness';
+import { startWebhookWorker, stopWebhookWorker } from './webhook.worker';
 import dotenv from 'dotenv';
 
 dotenv.config();
@@ -16,77 +28,157 @@ interface JobData {
     type: JobType;
     payload: Record<string, unknown>;
     userId: string;
+    projectId?: string;
+    workspaceId?: string;
+    // Present on schedule occurrences, which get their jobId on first attempt
+    scheduleId?: string;
+    pipelineId?: string;
+    timeoutMs?: number;
 }
 
-// Simulate different workloads
-async function simulateWork(type: JobType, _payload: Record<string, unknown>) {
-    // Varies between 500ms and 3s
-    const duration = 500 + Math.random() * 2500;
-    await new Promise(resolve => setTimeout(resolve, duration));
+const MAX_LOG_LINES = 200;
+// How long a job that yielded its slot to another user waits before it's picked up again
+const FAIRNESS_DELAY_MS = parseInt(process.env.JOB_FAIRNESS_DELAY_MS || '1000');
 
-    // Throw random errors occasionally to test retry logic (1 in 20 chance)
-    if (Math.random() < 0.05) {
-        throw new Error('Random simulated processing failure');
+// Thrown into a running job once it has been cancelled; never retried or dead-lettered
+class JobCancelledError extends UnrecoverableError {
+    constructor() {
+        super('Job cancelled');
+        this.name = 'JobCancelledError';
     }
+}
 
-    switch (type) {
-        case JobType.CODE_EXECUTION:
-            return {
-                output: 'Console output: Process finished with exit code 0',
-                memoryUsage: `${Math.floor(Math.random() * 50)}MB`,
-                duration: `${Math.floor(duration)}ms`
-            };
-        case JobType.FILE_PROCESSING:
-            return {
-                status: 'processed',
-                fileSize: '2.4MB',
-                checksum: 'sha256:e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'
-            };
-        case JobType.DATA_ANALYSIS:
-            return {
-                rowsProcessed: 15420,
-                insights: ['Trend A detected', 'Outlier found in row 452']
-            };
-        case JobType.EXPORT:
-            return {
-                url: `https://storage.example.com/exports/${Date.now()}.csv`,
-                expiry: '24h'
-            };
-        default:
-            return { message: 'Job completed' };
+// Counts as a failed attempt, so BullMQ retries the job like any other failure
+class JobTimeoutError extends Error {
+    constructor(timeoutMs: number) {
+        super(`Job timed out after ${timeoutMs}ms`);
+        this.name = 'JobTimeoutError';
     }
 }
 
-async function processJob(job: BullJob<JobData>) {
-    const { jobId, type } = job.data;
+// Settles once the signal is aborted, so an executor that ignores it can't hold the slot
+function whenAborted(signal: AbortSignal): Promise<never> {
+    return new Promise((_, reject) => {
+        if (signal.aborted) return reject(signal.reason);
+        signal.addEventListener('abort', () => reject(signal.reason), { once: true });
+    });
+}
+
+// Jobs running in this process, aborted when a cancellation comes in over Redis
+const running = new Map<string, AbortController>();
+
+// Progress and log lines are persisted on the Job document first, then pushed live
+function createContext(job: BullJob<JobData>, signal: AbortSignal): ExecutionContext {
+    const { jobId, userId, workspaceId } = job.data;
+
+    return {
+        jobId,
+        userId,
+        signal,
+        async reportProgress(progress, stage) {
+            signal.throwIfAborted();
+            const value = Math.max(0, Math.min(100, Math.round(progress)));
+            await Job.updateOne({ jobId }, { progress: value, ...(stage && { stage }) });
+            await job.updateProgress(value);
+            await publishJobEvent({ type: 'progress', jobId, userId, workspaceId, progress: value, stage });
+        },
+        async log(message, level = 'info') {
+            const entry = { timestamp: new Date(), level, message };
+            await Job.updateOne({ jobId }, { $push: { logs: { $each: [entry], $slice: -MAX_LOG_LINES } } });
+            await publishJobEvent({ type: 'log', jobId, userId, workspaceId, log: entry });
+        },
+        async attachArtifact(name, body, contentType) {
+            signal.throwIfAborted();
+            return artifactService.attach(jobId, name, body, contentType);
+        }
+    };
+}
+
+async function processJob(job: BullJob<JobData>, token?: string) {
+    if (await shouldYield(job.data.userId)) {
+        // Not an attempt: BullMQ puts the job back without counting it
+        await job.moveToDelayed(Date.now() + FAIRNESS_DELAY_MS, token);
+        throw new DelayedError();
+    }
+
+    if (!job.data.jobId && job.data.scheduleId) {
+        const jobId = await scheduleService.startOccurrence({ ...job.data, scheduleId: job.data.scheduleId });
+        if (!jobId) {
+            console.log(`[schedule ${job.data.scheduleId}] Skipped, schedule is no longer active, over quota or its owner lost access`);
+            return;
+        }
+        // Stored on the BullMQ job so retries reuse the same Job record
+        await job.updateData({ ...job.data, jobId });
+    }
+
+    const { jobId, type, userId, workspaceId } = job.data;
     console.log(`[${jobId}] Processing ${type}...`);
 
+    // Registered before the job shows as processing, so a cancel can't slip in between
+    const controller = new AbortController();
+    running.set(jobId, controller);
+    const timeoutMs = job.data.timeoutMs ?? getTimeout(type);
+    const timeout = setTimeout(() => controller.abort(new JobTimeoutError(timeoutMs)), timeoutMs);
+
     try {
-        // Update status to processing
-        await Job.findOneAndUpdate(
-            { jobId },
+        // Update status to processing, unless the job was cancelled or skipped while queued
+        const queued = await Job.findOneAndUpdate(
+            { jobId, status: { $nin: [JobStatus.CANCELLED, JobStatus.SKIPPED] } },
             {
                 status: JobStatus.PROCESSING,
+                queueJobId: job.id,
                 startedAt: new Date(),
-                attempts: job.attemptsMade + 1
+                attempts: job.attemptsMade + 1,
+                progress: 0,
+                stage: null
             }
         );
+        if (!queued) {
+            console.log(`[${jobId}] Discarded, job is no longer pending`);
+            return;
+        }
+        await publishJobEvent({ type: 'status', jobId, userId, workspaceId, status: JobStatus.PROCESSING });
 
-        const result = await simulateWork(type, job.data.payload);
+        // Covers a cancel published while no worker held the job (e.g. it stalled)
+        if (await isCancellationRequested(jobId)) controller.abort(new JobCancelledError());
+        controller.signal.throwIfAborted();
+
+        // Pipeline jobs get their upstream results as input, keyed by node key
+        let payload = job.data.payload;
+        if (job.data.pipelineId) {
+            const upstream = await pipelineService.getUpstreamResults(jobId);
+            if (Object.keys(upstream).length > 0) payload = { ...payload, upstream };
+        }
+
+        const execute = getExecutor(type);
+        const result = await Promise.race([execute(payload, createContext(job, controller.signal)), whenAborted(controller.signal)]);
 
         await Job.findOneAndUpdate(
             { jobId },
-            { status: JobStatus.COMPLETED, result, completedAt: new Date() }
+            { status: JobStatus.COMPLETED, result, progress: 100, completedAt: new Date() }
         );
+        await publishJobEvent({ type: 'status', jobId, userId, workspaceId, status: JobStatus.COMPLETED, progress: 100, result });
+
+        if (job.data.pipelineId) {
+            // Not worth running the job again over; the reconciler queues whatever is left ready
+            await pipelineService.releaseDownstream(jobId)
+                .catch(err => console.error(`[${jobId}] Failed to queue downstream jobs:`, err));
+        }
 
         console.log(`[${jobId}] Completed successfully`);
         return result;
 
     } catch (error: unknown) {
+        // Whatever the executor threw while being stopped, the job was cancelled or timed out
+        if (controller.signal.aborted) throw controller.signal.reason;
+
         const message = error instanceof Error ? error.message : 'Unknown error';
         console.error(`[${jobId}] Failed: ${message}`);
         // Status update is handled by the 'failed' event listener on the worker
         throw error;
+    } finally {
+        clearTimeout(timeout);
+        running.delete(jobId);
     }
 }
 
@@ -100,26 +192,71 @@ const worker = new Worker('jobs', processJob, {
 });
 
 worker.on('failed', async (job, error) => {
-    if (job) {
-        await Job.findOneAndUpdate(
-            { jobId: job.data.jobId },
-            {
-                status: JobStatus.FAILED,
-                error: error.message,
-                // Only mark completedAt if we exhausted retries? 
-                // Actually, we keep updating it on every failure to show last activity.
-                completedAt: new Date()
-            }
+    // A schedule occurrence that failed before getting its Job record has nothing to update
+    if (!job?.data.jobId) return;
+
+    const { jobId, userId, workspaceId } = job.data;
+
+    // Unhandled, a rejection here would take the worker process down
+    try {
+        if (error instanceof JobCancelledError) {
+            await Job.updateOne({ jobId }, { status: JobStatus.CANCELLED, completedAt: new Date() });
+            await publishJobEvent({ type: 'status', jobId, userId, workspaceId, status: JobStatus.CANCELLED });
+            await clearCancellation(jobId);
+            await jobService.settleDownstream(jobId);
+            console.log(`[${jobId}] Cancelled`);
+            return;
+        }
+
+        const attempt = { attempt: job.attemptsMade, timestamp: new Date(), error: error.message, stack: error.stack };
+        const exhausted = error instanceof UnrecoverableError || job.attemptsMade >= (job.opts.attempts ?? 1);
+
+        if (!exhausted) {
+            // BullMQ will retry with backoff; the job is waiting again, not failed
+            await Job.updateOne({ jobId }, { status: JobStatus.PENDING, $push: { attemptsHistory: attempt } });
+            await publishJobEvent({ type: 'status', jobId, userId, workspaceId, status: JobStatus.PENDING, error: error.message });
+            return;
+        }
+
+        await Job.updateOne(
+            { jobId },
+            { status: JobStatus.FAILED, error: error.message, completedAt: new Date(), $push: { attemptsHistory: attempt } }
         );
+        await publishJobEvent({ type: 'status', jobId, userId, workspaceId, status: JobStatus.FAILED, error: error.message });
+
+        await addDeadLetter({
+            ...job.data,
+            failedReason: error.message,
+            attemptsMade: job.attemptsMade,
+            failedAt: new Date().toISOString()
+        });
+
+        if (job.data.pipelineId) {
+            await jobService.settleDownstream(jobId);
+        }
+    } catch (err) {
+        console.error(`[${jobId}] Failed to record failure:`, err);
     }
 });
 
 worker.on('error', (err) => console.error('Worker connection error:', err));
 
+redisSub.subscribe(JOB_CANCEL_CHANNEL, (err) => {
+    if (err) console.error('Failed to subscribe to job cancellations:', err);
+});
+
+redisSub.on('message', (channel, jobId) => {
+    if (channel !== JOB_CANCEL_CHANNEL) return;
+    running.get(jobId)?.abort(new JobCancelledError());
+});
+
 // Graceful shutdown
 const gracefulShutdown = async () => {
     console.log('Stopping worker...');
+    artifactService.stopCleanup();
+    reconcilerService.stop();
     await worker.close();
+    await stopWebhookWorker();
     process.exit(0);
 };
 
@@ -129,6 +266,9 @@ process.on('SIGINT', gracefulShutdown);
 async function start() {
     try {
         await connectMongoDB();
+        artifactService.startCleanup();
+        reconcilerService.start();
+        startWebhookWorker();
         console.log('🚀 Job worker ready to process tasks');
     } catch (err) {
         console.error('Failed to connect to resources', err);
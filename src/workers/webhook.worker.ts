@@ -0,0 +1,31 @@
+import { Worker, Job as BullJob } from 'bullmq';
+import { WebhookJobData } from '../queues/webhook.queue';
+import webhookService from '../services/webhook.service';
+
+const connection = {
+    host: process.env.REDIS_HOST || 'localhost',
+    port: parseInt(process.env.REDIS_PORT || '6379'),
+    password: process.env.REDIS_PASSWORD || undefined
+};
+
+const CONCURRENCY = parseInt(process.env.WEBHOOK_CONCURRENCY || '10');
+
+let worker: Worker<WebhookJobData> | undefined;
+
+async function processDelivery(job: BullJob<WebhookJobData>) {
+    const attempt = job.attemptsMade + 1;
+    await webhookService.deliver(job.data.deliveryId, attempt, attempt >= (job.opts.attempts ?? 1));
+}
+
+/** Runs alongside the job worker; deliveries are short HTTP calls, so they get their own queue and slots. */
+export function startWebhookWorker() {
+    if (worker) return;
+
+    worker = new Worker<WebhookJobData>('webhooks', processDelivery, { connection, concurrency: CONCURRENCY });
+    worker.on('error', (err) => console.error('Webhook worker connection error:', err));
+}
+
+export async function stopWebhookWorker() {
+    await worker?.close();
+    worker = undefined;
+}